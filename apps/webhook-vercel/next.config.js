@@ -1,7 +1,13 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // ffmpeg / ffprobe の静的バイナリをバンドルせず node_modules から直接参照させる
+  serverExternalPackages: ['@ffmpeg-installer/ffmpeg', '@ffprobe-installer/ffprobe'],
+  experimental: {
+    // Edge Function と共有するモジュール (supabase/functions/_shared) をアプリの外から読み込むため
+    externalDir: true,
+  },
   // 必要に応じて他の設定を追加
 }
 
-module.exports = nextConfig 
\ No newline at end of file
+module.exports = nextConfig
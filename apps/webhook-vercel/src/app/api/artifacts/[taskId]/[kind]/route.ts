@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPipelineDepsFromEnv } from '@/libs/pipeline/process-task';
+import { createTaskArtifactSignedUrl, isTaskArtifactKind, verifyArtifactLinkToken } from '@/libs/artifacts';
+
+// Slack・Notion に載せた成果物ファイルへのリンク (/api/artifacts/{taskId}/{kind}?token=...)
+// トークンを検証して、開くたびに短時間の署名付き URL を発行してリダイレクトする
+export async function GET(request: NextRequest, { params }: { params: Promise<{ taskId: string; kind: string }> }) {
+  const { taskId, kind } = await params;
+  if (!isTaskArtifactKind(kind)) {
+    return NextResponse.json({ error: `Unknown artifact kind: ${kind}` }, { status: 404 });
+  }
+  const token = request.nextUrl.searchParams.get('token') || '';
+  if (!verifyArtifactLinkToken(taskId, kind, token)) {
+    return NextResponse.json({ error: 'Invalid or missing token' }, { status: 403 });
+  }
+
+  try {
+    const { supabase } = createPipelineDepsFromEnv();
+    const signedUrl = await createTaskArtifactSignedUrl(supabase, taskId, kind);
+    if (!signedUrl) {
+      return NextResponse.json({ error: `No ${kind} found for task ${taskId}` }, { status: 404 });
+    }
+    return NextResponse.redirect(signedUrl, 302);
+  } catch (e: unknown) {
+    const errorMessage = (e instanceof Error) ? e.message : String(e);
+    console.error(`[Artifacts] Failed to open ${kind} of task ${taskId}:`, errorMessage);
+    return NextResponse.json({ error: 'Failed to open the file' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import process from "node:process";
+import { verifyBearerToken } from '@/libs/bearer-auth';
+import { createPipelineDepsFromEnv } from '@/libs/pipeline/process-task';
+import { runJobWorker } from '@/libs/queue/worker';
+
+// 1回の呼び出しで処理するジョブ数。1件の処理に最大 maxDuration 近くかかるため既定は1件
+const DEFAULT_WORKER_MAX_JOBS = 1;
+
+// Vercel Cron は Authorization: Bearer <CRON_SECRET> を付けて GET で呼び出す。CRON_SECRET が未設定の場合は受け付けない
+function authorize(request: NextRequest): NextResponse | null {
+  const result = verifyBearerToken(request.headers, [process.env.CRON_SECRET]);
+  if (result === 'not_configured') {
+    console.error('CRON_SECRET is not set. Refusing to run /api/jobs/worker unprotected.');
+    return NextResponse.json({ error: 'Server configuration error: CRON_SECRET is not set.' }, { status: 500 });
+  }
+  if (result !== 'valid') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
+
+async function handle(request: NextRequest) {
+  const unauthorized = authorize(request);
+  if (unauthorized) return unauthorized;
+
+  const rawMaxJobs = parseInt(process.env.JOB_WORKER_MAX_JOBS || '', 10);
+  const maxJobs = isNaN(rawMaxJobs) || rawMaxJobs < 1 ? DEFAULT_WORKER_MAX_JOBS : rawMaxJobs;
+
+  try {
+    const summary = await runJobWorker(createPipelineDepsFromEnv(), maxJobs);
+    return NextResponse.json(summary);
+  } catch (e: unknown) {
+    const errorMessage = (e instanceof Error) ? e.message : String(e);
+    console.error('[Job Worker] Worker run failed:', errorMessage);
+    return NextResponse.json({ error: `Worker run failed: ${errorMessage}` }, { status: 500 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { Buffer } from 'node:buffer';
-import crypto from 'node:crypto'; // cryptoモジュールをインポート
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { resolveSummaryTemplateName } from '@/libs/summarization/templates';
+import { parseDateToISO } from '@/libs/date';
+import { verifySlackSignature } from '@/libs/slack-signature';
+import type { TaskStatus } from '@/libs/task-status';
+import { checkMediaFileInfo, getMediaValidationOptionsFromEnv, MediaRejection, probeMediaFile } from '@/libs/media-validation';
+import { createWorkDir, removeWorkDir } from '@/libs/media';
+import { buildRejectedMessage } from '@/libs/slack-blocks';
+import { getSlackClient } from '@/libs/slack-thread';
 
 // Slack Signing Secret (環境変数から)
 const SLACK_SIGNING_SECRET = process.env.SLACK_SIGNING_SECRET;
@@ -26,29 +35,6 @@ if (!SLACK_SIGNING_SECRET) {
 
 const supabaseAdmin: SupabaseClient = createClient(supabaseUrl!, supabaseServiceRoleKey!);
 
-// Helper function to parse date strings (YYYY/MM/DD or YYYY年MM月DD日) to YYYY-MM-DD
-// (これは /api/process-task/route.ts にもあるので、共通ライブラリに移動推奨)
-function parseDateToISO(dateString: string | null | undefined): string | undefined {
-  if (!dateString) return undefined;
-  try {
-    const parts = dateString.replace(/年|月/g, '/').replace(/日/g, '').split('/');
-    if (parts.length === 3) {
-      const year = parseInt(parts[0], 10);
-      const month = parseInt(parts[1], 10);
-      const day = parseInt(parts[2], 10);
-      if (!isNaN(year) && !isNaN(month) && !isNaN(day)) {
-        const monthStr = month < 10 ? `0${month}` : `${month}`;
-        const dayStr = day < 10 ? `0${day}` : `${day}`;
-        return `${year}-${monthStr}-${dayStr}`;
-      }
-    }
-  } catch (e) {
-    console.error("Error parsing date in slack-intake:", dateString, e);
-  }
-  console.warn("Could not parse date string in slack-intake:", dateString, "returning undefined.");
-  return undefined;
-}
-
 interface ParsedSlackText {
   meetingDate?: string; // YYYY-MM-DD format, parsed by parseDateToISO if a date is found
   consultantName?: string;
@@ -115,6 +101,35 @@ function parseSlackMessageText(text: string | null | undefined): ParsedSlackText
   return result;
 }
 
+// 受け取ったファイルを検証する (ffprobe は一時ファイルに書き出して確認する)。問題なければ null
+async function validateIntakeFile(file: File, fileBuffer: Buffer): Promise<MediaRejection | null> {
+  const options = getMediaValidationOptionsFromEnv();
+  const rejection = checkMediaFileInfo({ name: file.name, mimeType: file.type || null, sizeBytes: file.size }, options);
+  if (rejection || !options.probe) return rejection;
+  const workDir = await createWorkDir('intake');
+  try {
+    const filePath = path.join(workDir, `input${path.extname(file.name)}`);
+    await fs.writeFile(filePath, fileBuffer);
+    return await probeMediaFile(file.name, filePath, options);
+  } finally {
+    await removeWorkDir(workDir);
+  }
+}
+
+// 断った理由を投稿元のチャンネル (thread_ts があればそのスレッド) に返信する。返信できなくても 422 の応答は返す
+async function replyRejection(channelId: string | null, threadTs: string | null, rejection: MediaRejection): Promise<void> {
+  const client = getSlackClient();
+  if (!client || !channelId) {
+    console.warn('Slack intake cannot reply rejection (SLACK_BOT_TOKEN or channel_id is missing):', rejection.message);
+    return;
+  }
+  try {
+    await client.chat.postMessage({ channel: channelId, ...(threadTs && { thread_ts: threadTs }), ...buildRejectedMessage(rejection.message) });
+  } catch (e: unknown) {
+    console.error('Slack intake failed to reply rejection:', (e instanceof Error) ? e.message : String(e));
+  }
+}
+
 export async function POST(request: NextRequest) {
   if (!supabaseAdmin) {
       return NextResponse.json({ error: 'Supabase client not initialized. Check server logs.' }, { status: 500 });
@@ -129,28 +144,18 @@ export async function POST(request: NextRequest) {
   const requestCloneForFormData = request.clone(); // formData用にもう一つクローン
 
   // Slack署名検証
-  const signature = requestCloneForText.headers.get('x-slack-signature');
-  const timestamp = requestCloneForText.headers.get('x-slack-request-timestamp');
-  
   // 重要: request.text() は Promise を返すため await が必要
   const requestBodyText = await requestCloneForText.text(); 
 
-  if (!signature || !timestamp) {
+  const verification = verifySlackSignature(SLACK_SIGNING_SECRET, requestCloneForText.headers, requestBodyText);
+  if (verification === 'missing_headers') {
     return NextResponse.json({ error: 'Missing Slack signature or timestamp headers' }, { status: 400 });
   }
-
-  const fiveMinutesAgo = Math.floor(Date.now() / 1000) - (60 * 5);
-  if (parseInt(timestamp, 10) < fiveMinutesAgo) {
+  if (verification === 'expired') {
     console.warn('Old Slack request received, potentially a replay attack.');
     return NextResponse.json({ error: 'Slack request timestamp is too old.' }, { status: 403 });
   }
-
-  const sigBasestring = `v0:${timestamp}:${requestBodyText}`;
-  const mySignature = `v0=${crypto.createHmac('sha256', SLACK_SIGNING_SECRET)
-                              .update(sigBasestring, 'utf8')
-                              .digest('hex')}`;
-
-  if (!crypto.timingSafeEqual(Buffer.from(mySignature, 'utf8'), Buffer.from(signature, 'utf8'))) {
+  if (verification !== 'valid') {
     console.warn('Slack signature verification failed.');
     return NextResponse.json({ error: 'Slack signature verification failed.' }, { status: 403 });
   }
@@ -163,6 +168,8 @@ export async function POST(request: NextRequest) {
     const formData = await requestCloneForFormData.formData(); 
     const file = formData.get('file') as File | null; 
     const text = formData.get('text') as string | null;   
+    const channelId = formData.get('channel_id') as string | null;
+    const threadTs = formData.get('thread_ts') as string | null;
 
     if (!file) {
       return NextResponse.json({ error: 'No file provided in the request' }, { status: 400 });
@@ -176,6 +183,14 @@ export async function POST(request: NextRequest) {
 
     const fileBuffer = Buffer.from(await file.arrayBuffer());
 
+    // 断ったファイルは Storage に保存せず、タスクも作成しない
+    const rejection = await validateIntakeFile(file, fileBuffer);
+    if (rejection) {
+      console.log(`Slack intake rejected ${originalFileName}: ${rejection.reason}`);
+      await replyRejection(channelId, threadTs, rejection);
+      return NextResponse.json({ error: rejection.message, reason: rejection.reason }, { status: 422 });
+    }
+
     const { data: storageData, error: storageError } = await supabaseAdmin.storage
       .from('videos') 
       .upload(filePath, fileBuffer, {
@@ -196,10 +211,12 @@ export async function POST(request: NextRequest) {
     const taskToInsert = {
       storage_path: fullStoragePath, 
       original_file_name: originalFileName,
-      status: 'uploaded', 
+      status: 'uploaded' satisfies TaskStatus,
       meeting_date: parsedTextData.meetingDate, 
       consultant_name: parsedTextData.consultantName, 
       client_name: parsedTextData.clientName, 
+      summary_template: resolveSummaryTemplateName({ messageText: text, channelId }) ?? null,
+      slack_channel_id: channelId, // Notion ルーティングの条件判定に使用
     };
 
     const { data: dbData, error: dbError } = await supabaseAdmin
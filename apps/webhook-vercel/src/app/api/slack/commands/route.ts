@@ -0,0 +1,48 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import process from "node:process";
+import { createPipelineDepsFromEnv } from '@/libs/pipeline/process-task';
+import { runJobWorker } from '@/libs/queue/worker';
+import { handleMtglogCommand } from '@/libs/slack-commands';
+import { verifySlackSignature } from '@/libs/slack-signature';
+
+const SLACK_SIGNING_SECRET = process.env.SLACK_SIGNING_SECRET;
+
+// スラッシュコマンド /mtglog (Slack アプリの Slash Commands の Request URL に設定する)
+// Slack は3秒以内の応答を求めるため、再実行などの重い処理はジョブとして登録し、応答後にワーカーを動かす
+export async function POST(request: NextRequest) {
+  if (!SLACK_SIGNING_SECRET) {
+    console.error('SLACK_SIGNING_SECRET is not set. Cannot verify Slack request.');
+    return NextResponse.json({ error: 'Server configuration error: Slack signing secret not set.' }, { status: 500 });
+  }
+
+  const rawBody = await request.text();
+  const verification = verifySlackSignature(SLACK_SIGNING_SECRET, request.headers, rawBody);
+  if (verification !== 'valid') {
+    console.warn(`[Slack Command] Signature verification failed: ${verification}`);
+    return NextResponse.json({ error: 'Slack signature verification failed.' }, { status: 403 });
+  }
+
+  const params = new URLSearchParams(rawBody);
+  const command = params.get('command');
+  const text = params.get('text') || '';
+  console.log(`[Slack Command] ${command} "${text}" from user ${params.get('user_id')} in channel ${params.get('channel_id')}`);
+
+  try {
+    const deps = createPipelineDepsFromEnv();
+    const { response, runWorker } = await handleMtglogCommand(deps, text, params.get('channel_id'));
+    if (runWorker && process.env.JOB_WORKER_RUN_AFTER_ENQUEUE !== 'false') {
+      after(async () => {
+        await runJobWorker(deps, 1);
+      });
+    }
+    return NextResponse.json(response);
+  } catch (e: unknown) {
+    const errorMessage = (e instanceof Error) ? e.message : String(e);
+    console.error(`[Slack Command] Failed to handle "${text}":`, errorMessage);
+    // Slack にエラーを表示させるため 200 で返す
+    return NextResponse.json({
+      response_type: 'ephemeral',
+      text: `:x: コマンドの実行に失敗しました: ${errorMessage}`,
+    });
+  }
+}
@@ -1,9 +1,20 @@
-import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'node:crypto';
+import { after, NextRequest, NextResponse } from 'next/server';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import process from "node:process";
 import { Buffer } from 'node:buffer';
+import path from 'node:path';
 import { v4 as uuidv4 } from 'uuid';
 import { WebClient } from "@slack/web-api";
+import { resolveSummaryTemplateName } from '@/libs/summarization/templates';
+import { parseDateToISO } from '@/libs/date';
+import type { TaskStatus } from '@/libs/task-status';
+import { verifySlackSignature } from '@/libs/slack-signature';
+import { finishSlackEvent, recordSlackEvent, SlackEventRecordResult } from '@/libs/slack-events';
+import { checkMediaFileInfo, getMediaValidationOptionsFromEnv, MediaRejection, MediaValidationOptions, probeMediaFile } from '@/libs/media-validation';
+import { createWorkDir, downloadUrlPrefixToFile, removeWorkDir } from '@/libs/media';
+import { buildRejectedMessage } from '@/libs/slack-blocks';
+import { createPipelineDepsFromEnv } from '@/libs/pipeline/process-task';
+import { runJobWorker } from '@/libs/queue/worker';
 
 const SLACK_SIGNING_SECRET = process.env.SLACK_SIGNING_SECRET;
 const SLACK_BOT_TOKEN = process.env.SLACK_BOT_TOKEN;
@@ -24,44 +35,8 @@ async function verifySlackRequest(request: NextRequest) {
     console.error('Slack Signing Secret is not defined.');
     return false; // 本番環境ではエラーを返すか、厳格な処理を
   }
-  const signature = request.headers.get('x-slack-signature');
-  const timestamp = request.headers.get('x-slack-request-timestamp');
   const body = await request.text(); // Read the raw body
-
-  if (!signature || !timestamp) {
-    return false;
-  }
-
-  // リプレイ攻撃を防ぐためにタイムスタンプをチェック (5分以内)
-  const fiveMinutesAgo = Math.floor(Date.now() / 1000) - 60 * 5;
-  if (parseInt(timestamp, 10) < fiveMinutesAgo) {
-    return false;
-  }
-
-  const sigBasestring = `v0:${timestamp}:${body}`;
-  const mySignature = `v0=${crypto
-    .createHmac('sha256', SLACK_SIGNING_SECRET)
-    .update(sigBasestring, 'utf8')
-    .digest('hex')}`;
-
-  return crypto.timingSafeEqual(Buffer.from(mySignature, 'utf8'), Buffer.from(signature, 'utf8'));
-}
-
-// --- Helper function to parse date (can be moved to a shared lib) ---
-function parseDateToISO(dateString: string | null | undefined): string | undefined {
-  if (!dateString) return undefined;
-  try {
-    const parts = dateString.replace(/年|月/g, '/').replace(/日/g, '').split('/');
-    if (parts.length === 3) {
-      const year = parseInt(parts[0], 10);
-      const month = parseInt(parts[1], 10);
-      const day = parseInt(parts[2], 10);
-      if (!isNaN(year) && !isNaN(month) && !isNaN(day)) {
-        return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-      }
-    }
-  } catch (e) { console.error("Error parsing date:", dateString, e); }
-  return undefined;
+  return verifySlackSignature(SLACK_SIGNING_SECRET, request.headers, body) === 'valid';
 }
 
 // --- Helper function to parse Slack message text (can be moved to a shared lib) ---
@@ -85,6 +60,109 @@ function parseSlackMessageText(text: string | null | undefined): ParsedSlackText
   return result;
 }
 
+// ffprobe の確認はファイルの先頭 (INTAKE_PROBE_MAX_MB) だけを一時ファイルに取得して行う
+// (Bot トークンをコマンドの引数に含めず、大きなファイルで /tmp を使い切らないため。全体の保存は upload_file ジョブが行う)。
+// 取得・確認の一時的な失敗は例外となり、イベントはエラーとして記録される
+async function probeSlackFile(fileName: string, downloadUrl: string, options: MediaValidationOptions): Promise<MediaRejection | null> {
+  if (!options.probe) return null;
+  const workDir = await createWorkDir('slack-event');
+  try {
+    const filePath = path.join(workDir, `input${path.extname(fileName)}`);
+    const { truncated } = await downloadUrlPrefixToFile(downloadUrl, filePath, options.probeMaxBytes, { Authorization: `Bearer ${SLACK_BOT_TOKEN}` });
+    return await probeMediaFile(fileName, filePath, options, truncated);
+  } finally {
+    await removeWorkDir(workDir);
+  }
+}
+
+// 共有されたファイルの情報を取得して検証し、タスクを作成してタスクIDを返す。
+// 検証で断った場合はタスクを作成せず、スレッドに理由を返信して断った理由を返す
+async function createTaskFromSharedFile(
+  supabase: SupabaseClient,
+  fileId: string,
+  eventChannelId: string | undefined
+): Promise<{ taskId: string } | { rejection: MediaRejection }> {
+  if (!SLACK_BOT_TOKEN) {
+    throw new Error('SLACK_BOT_TOKEN is not set.');
+  }
+  const slackClient = new WebClient(SLACK_BOT_TOKEN);
+
+  console.log(`[${new Date().toISOString()}] Calling files.info for fileId: ${fileId}`);
+  const fileInfoResponse = await slackClient.files.info({ file: fileId });
+  if (!fileInfoResponse.ok || !fileInfoResponse.file) {
+    throw new Error(`Failed to retrieve file info from Slack API for fileId ${fileId}: ${fileInfoResponse.error}`);
+  }
+
+  const fileData = fileInfoResponse.file;
+  console.log(`[${new Date().toISOString()}] Successfully retrieved file info for ${fileId}:`, fileData.name);
+
+  if (!fileData.url_private_download) {
+    throw new Error(`url_private_download not found in file info for ${fileId}.`);
+  }
+
+  // 処理結果をファイルが共有されたメッセージのスレッドに返信するため (スレッド内で共有された場合はスレッドの親)
+  const share = eventChannelId
+    ? (fileData.shares?.public?.[eventChannelId] ?? fileData.shares?.private?.[eventChannelId])?.[0]
+    : undefined;
+  const threadTs = share?.thread_ts ?? share?.ts;
+
+  // 動画・音声以外や大きすぎるファイルはダウンロードせずに断り、通ったものだけ ffprobe でコンテナを確認する
+  const fileName = fileData.name || 'unknown_file';
+  const validationOptions = getMediaValidationOptionsFromEnv();
+  const rejection = checkMediaFileInfo({ name: fileName, mimeType: fileData.mimetype ?? null, sizeBytes: fileData.size ?? null }, validationOptions)
+    ?? await probeSlackFile(fileName, fileData.url_private_download, validationOptions);
+  if (rejection) {
+    console.log(`[${new Date().toISOString()}] Rejected file ${fileId} (${fileName}): ${rejection.reason}`);
+    if (eventChannelId) {
+      try {
+        await slackClient.chat.postMessage({ channel: eventChannelId, thread_ts: threadTs, ...buildRejectedMessage(rejection.message) });
+      } catch (e: unknown) {
+        console.error(`[${new Date().toISOString()}] Failed to reply rejection of file ${fileId}:`, (e instanceof Error) ? e.message : String(e));
+      }
+    }
+    return { rejection };
+  }
+
+  const messageText = fileData.initial_comment && fileData.initial_comment.comment
+    ? fileData.initial_comment.comment
+    : "";
+
+  const parsedMessage = parseSlackMessageText(messageText);
+  const taskId = uuidv4();
+
+  console.log(`[${new Date().toISOString()}] Attempting to insert task ${taskId} into DB with status 'upload_pending'.`);
+
+  const taskToInsert = {
+    id: taskId,
+    original_file_name: fileName,
+    slack_file_id: fileId,
+    slack_download_url: fileData.url_private_download, // upload_file_to_storage が Storage への保存に使用
+    mimetype: fileData.mimetype || 'application/octet-stream',
+    filetype: fileData.filetype || 'dat', // Supabase Function側でより詳細な拡張子決定も可能
+    status: 'upload_pending' satisfies TaskStatus, // 作成 (コミット) 時に DB トリガーが upload_file ジョブを登録する
+    meeting_date: parsedMessage.meetingDate,
+    consultant_name: parsedMessage.consultantName,
+    client_name: parsedMessage.clientName,
+    // 「種別: 商談」などの指定、またはチャンネル設定から要約テンプレートを決定 (未決定ならprocess-taskでデフォルト)
+    summary_template: resolveSummaryTemplateName({ messageText, channelId: eventChannelId }) ?? null,
+    slack_channel_id: eventChannelId ?? null, // Notion ルーティングの条件判定に使用
+    slack_file_permalink: fileData.permalink ?? null, // Notion ページから元動画へリンクするため
+    slack_thread_ts: threadTs ?? null,
+    // created_at, updated_at はDBのデフォルトまたはトリガーで設定
+    // storage_path は upload_file_to_storage が保存後に設定し、DB トリガーが process_task ジョブを登録する
+  };
+
+  const { error: dbError } = await supabase
+    .from('transcription_tasks')
+    .insert([taskToInsert]);
+  if (dbError) {
+    throw new Error(`Failed to insert task ${taskId} to DB: ${dbError.message}`);
+  }
+
+  console.log(`[${new Date().toISOString()}] Task ${taskId} inserted to DB successfully with status 'upload_pending'.`);
+  return { taskId };
+}
+
 export async function POST(request: NextRequest) {
   const rawBody = await request.clone().text(); // 検証用にraw bodyを複製
   const reqForVerify = new NextRequest(request.url, {
@@ -110,94 +188,70 @@ export async function POST(request: NextRequest) {
 
   // file_sharedイベントの処理
   if (data.event && data.event.type === 'file_shared') {
-    const fileId = data.event.file_id;
-    const eventChannelId = data.event.channel_id; // 後で通知などに使える可能性
-    console.log(`[${new Date().toISOString()}] Received file_shared event for file_id: ${fileId} in channel: ${eventChannelId}`);
+    const fileId: string = data.event.file_id;
+    const eventChannelId: string | undefined = data.event.channel_id;
+    // event_id のないイベントはファイルIDで重複を判定する
+    const eventId: string = data.event_id || `file_shared:${fileId}`;
+    const retryNum = request.headers.get('x-slack-retry-num');
+    const retryReason = request.headers.get('x-slack-retry-reason');
+    console.log(`[${new Date().toISOString()}] Received file_shared event ${eventId} for file_id: ${fileId} in channel: ${eventChannelId}${retryNum ? ` (retry ${retryNum}: ${retryReason})` : ''}`);
+
+    // Supabaseクライアントが初期化されているか確認
+    if (!supabaseAdmin) {
+      console.error(`[${new Date().toISOString()}] Supabase client is not initialized. Cannot process event.`);
+      return NextResponse.json({ error: 'Server configuration error: Supabase client not available.' }, { status: 500 });
+    }
 
+    // 記録できなかった場合は 500 を返し、Slack に再送させる
+    let recordResult: SlackEventRecordResult;
     try {
-      // Supabaseクライアントが初期化されているか確認
-      if (!supabaseAdmin) {
-        console.error(`[${new Date().toISOString()}] Supabase client is not initialized. Cannot process event.`);
-        return NextResponse.json({ error: 'Server configuration error: Supabase client not available.' }, { status: 500 });
-      }
+      recordResult = await recordSlackEvent(supabaseAdmin, {
+        eventId,
+        eventType: data.event.type,
+        slackFileId: fileId || null,
+        channelId: eventChannelId ?? null,
+        retryNum: retryNum ? parseInt(retryNum, 10) : null,
+      });
+    } catch (error: unknown) {
+      console.error(`[${new Date().toISOString()}] Failed to record event ${eventId}:`, error instanceof Error ? error.message : String(error));
+      return NextResponse.json({ error: 'Failed to record event' }, { status: 500 });
+    }
+    if (!recordResult.recorded) {
+      console.log(`[${new Date().toISOString()}] Ignoring file_shared event ${eventId} for file_id: ${fileId}: duplicate ${recordResult.duplicateOf}${retryNum ? ` (retry ${retryNum}: ${retryReason})` : ''}.`);
+      return NextResponse.json({ message: 'Duplicate event ignored' });
+    }
 
-      const slackToken = process.env.SLACK_BOT_TOKEN;
-      if (!slackToken) {
-        console.error(`[${new Date().toISOString()}] SLACK_BOT_TOKEN is not set.`);
-        return NextResponse.json(
-          { error: "Slack Bot Token not configured" },
-          { status: 500 }
-        );
+    // Slack は3秒以内に応答がないと再送するため、ファイル情報の取得とタスクの作成は応答後に行う
+    after(async () => {
+      let taskId: string;
+      try {
+        const result = await createTaskFromSharedFile(supabaseAdmin, fileId, eventChannelId);
+        if ('rejection' in result) {
+          await finishSlackEvent(supabaseAdmin, eventId, { rejectionReason: result.rejection.reason });
+          return;
+        }
+        taskId = result.taskId;
+        await finishSlackEvent(supabaseAdmin, eventId, { taskId });
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`[${new Date().toISOString()}] Error processing file_shared event ${eventId} for file_id: ${fileId}:`, error);
+        // 200 を返した後のため Slack は再送しない。エラーを記録したイベントは重複として無視されないので、
+        // 同じファイルを共有し直すと処理し直す (自動では再試行しない)
+        await finishSlackEvent(supabaseAdmin, eventId, { error: errorMessage });
+        return;
       }
-      const slackClient = new WebClient(slackToken);
 
-      console.log(`[${new Date().toISOString()}] Calling files.info for fileId: ${fileId}`);
-      const fileInfoResponse = await slackClient.files.info({ file: fileId });
-
-      if (!fileInfoResponse.ok || !fileInfoResponse.file) {
-        console.error(`[${new Date().toISOString()}] Failed to retrieve file info from Slack API for fileId ${fileId}:`, fileInfoResponse.error);
-        return NextResponse.json(
-          { error: "Failed to retrieve file info from Slack" },
-          { status: 500 }
-        );
+      // Cron を待たずに保存を始める (失敗してもジョブはキューに残るので Cron で処理される)
+      if (process.env.JOB_WORKER_RUN_AFTER_ENQUEUE !== 'false') {
+        try {
+          await runJobWorker(createPipelineDepsFromEnv(), 1);
+        } catch (e: unknown) {
+          console.error(`[${new Date().toISOString()}] Job worker after intake of task ${taskId} failed:`, (e instanceof Error) ? e.message : String(e));
+        }
       }
+    });
 
-      const fileData = fileInfoResponse.file;
-      console.log(`[${new Date().toISOString()}] Successfully retrieved file info for ${fileId}:`, fileData.name);
-
-      if (!fileData.url_private_download) {
-        console.error(`[${new Date().toISOString()}] url_private_download not found in file info for ${fileId}.`, fileData);
-        return NextResponse.json({ error: 'File download URL not found in Slack file info' }, { status: 400 });
-      }
-      
-      const messageText = fileData.initial_comment && fileData.initial_comment.comment
-        ? fileData.initial_comment.comment
-        : "";
-
-      const parsedMessage = parseSlackMessageText(messageText);
-      const taskId = uuidv4();
-
-      console.log(`[${new Date().toISOString()}] Attempting to insert task ${taskId} into DB with status 'upload_pending'.`);
-
-      const taskToInsert = {
-        id: taskId,
-        original_file_name: fileData.name || 'unknown_file',
-        slack_file_id: fileId,
-        slack_download_url: fileData.url_private_download, // Supabase Functionが使用
-        mimetype: fileData.mimetype || 'application/octet-stream',
-        filetype: fileData.filetype || 'dat', // Supabase Function側でより詳細な拡張子決定も可能
-        status: 'upload_pending', // Supabase Functionによるアップロード待ち
-        meeting_date: parsedMessage.meetingDate,
-        consultant_name: parsedMessage.consultantName,
-        client_name: parsedMessage.clientName,
-        // created_at, updated_at はDBのデフォルトまたはトリガーで設定
-        // storage_path は Supabase Function が設定
-      };
-
-      const { data: dbResult, error: dbError } = await supabaseAdmin
-        .from('transcription_tasks')
-        .insert([taskToInsert])
-        .select()
-        .single();
-
-      if (dbError) {
-        console.error(`[${new Date().toISOString()}] Failed to insert task ${taskId} to DB:`, dbError);
-        return NextResponse.json({ message: "Failed to create transcription task.", error: dbError.message }, { status: 500 });
-      }
-      
-      console.log(`[${new Date().toISOString()}] Task ${taskId} inserted to DB successfully with status 'upload_pending'. DB Result:`, dbResult);
-
-      return NextResponse.json({
-        message: 'Request received. File upload will be processed asynchronously.',
-        taskId: taskId,
-      }, { status: 202 }); // 202 Accepted: リクエストは受理されたが処理は完了していない
-
-    } catch (error: any) {
-      const taskIdForErrorLog = "unknown_task_id_at_catch"; // taskIdが取れない場合もあるため
-      console.error(`[${new Date().toISOString()}] Error processing file_shared event for ${taskIdForErrorLog}:`, error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return NextResponse.json({ error: 'Internal server error during event processing', details: errorMessage }, { status: 500 });
-    }
+    return NextResponse.json({ message: 'Event received. File upload will be processed asynchronously.' });
   }
 
   console.log(`[${new Date().toISOString()}] Received Slack event, but not a file_shared or url_verification event. Type:`, data.event ? data.event.type : "No event type");
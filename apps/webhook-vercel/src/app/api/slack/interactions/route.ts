@@ -0,0 +1,47 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import process from "node:process";
+import { createPipelineDepsFromEnv } from '@/libs/pipeline/process-task';
+import { runJobWorker } from '@/libs/queue/worker';
+import { handleSlackInteraction, SlackInteractionPayload } from '@/libs/slack-interactions';
+import { verifySlackSignature } from '@/libs/slack-signature';
+
+const SLACK_SIGNING_SECRET = process.env.SLACK_SIGNING_SECRET;
+
+// 通知メッセージのボタン・モーダルの操作 (Slack アプリの Interactivity の Request URL に設定する)
+// Slack は3秒以内の応答を求めるため、再実行などの重い処理はジョブとして登録し、応答後にワーカーを動かす
+export async function POST(request: NextRequest) {
+  if (!SLACK_SIGNING_SECRET) {
+    console.error('SLACK_SIGNING_SECRET is not set. Cannot verify Slack request.');
+    return NextResponse.json({ error: 'Server configuration error: Slack signing secret not set.' }, { status: 500 });
+  }
+
+  const rawBody = await request.text();
+  const verification = verifySlackSignature(SLACK_SIGNING_SECRET, request.headers, rawBody);
+  if (verification !== 'valid') {
+    console.warn(`[Slack Interaction] Signature verification failed: ${verification}`);
+    return NextResponse.json({ error: 'Slack signature verification failed.' }, { status: 403 });
+  }
+
+  let payload: SlackInteractionPayload;
+  try {
+    payload = JSON.parse(new URLSearchParams(rawBody).get('payload') || '');
+  } catch {
+    return NextResponse.json({ error: 'Invalid interaction payload.' }, { status: 400 });
+  }
+  console.log(`[Slack Interaction] ${payload.type} from user ${payload.user?.id}:`, payload.actions?.map((action) => action.action_id) ?? payload.view?.callback_id);
+
+  try {
+    const deps = createPipelineDepsFromEnv();
+    const { response, runWorker } = await handleSlackInteraction(deps, payload);
+    if (runWorker && process.env.JOB_WORKER_RUN_AFTER_ENQUEUE !== 'false') {
+      after(async () => {
+        await runJobWorker(deps, 1);
+      });
+    }
+    return response ? NextResponse.json(response) : new NextResponse(null, { status: 200 });
+  } catch (e: unknown) {
+    // Slack に再送させないよう 200 で返す (ボタンの操作は slack-interactions.ts でユーザーにエラーを表示する)
+    console.error(`[Slack Interaction] Failed to handle ${payload.type}:`, (e instanceof Error) ? e.message : String(e));
+    return new NextResponse(null, { status: 200 });
+  }
+}
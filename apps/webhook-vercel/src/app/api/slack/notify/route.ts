@@ -1,117 +1,44 @@
+// 処理結果 (完了・失敗) を、動画が共有されたメッセージのスレッドのステータスメッセージに反映する
+// 通知の形式は libs/task-notification.ts (送信側の notifySlack と共有)。要約・アクションアイテムは DB から読み込んで Block Kit で表示する
 import { NextRequest, NextResponse } from 'next/server';
-import { WebClient } from '@slack/web-api'; // Slackクライアント
-
-// 環境変数の読み込み
-const slackBotToken = process.env.SLACK_BOT_TOKEN;
-const slackChannelId = process.env.SLACK_CHANNEL_ID;
-
-let slackClient: WebClient | null = null;
-if (slackBotToken) {
-  slackClient = new WebClient(slackBotToken);
-} else {
-  console.warn('SLACK_BOT_TOKEN is not set. Slack notifications will be disabled.');
-}
-
-async function sendSlackNotification(message: string) {
-  if (!slackClient || !slackChannelId) {
-    console.error('Slack client or channel ID is not configured. Cannot send message.');
-    console.log('Slack message (not sent):', message); // Log message if not sent
-    return;
-  }
-  try {
-    await slackClient.chat.postMessage({
-      channel: slackChannelId,
-      text: message,
-      // You can use blocks for richer formatting: https://api.slack.com/block-kit
-    });
-    console.log('Slack notification sent successfully.');
-  } catch (error) {
-    console.error('Error sending Slack notification:', error);
-  }
-}
+import { createPipelineDepsFromEnv } from '@/libs/pipeline/process-task';
+import { buildCompletedMessage, buildFailedMessage, SlackMessage } from '@/libs/slack-blocks';
+import { loadTaskResultForSlack, postTaskStatusMessage } from '@/libs/slack-thread';
+import { parseTaskNotification } from '@/libs/task-notification';
 
 export async function POST(request: NextRequest) {
-  if (!slackClient) {
-    // Log that Slack is not configured and proceed gracefully or return error
-    console.warn("Slack integration is not configured. Skipping Slack notification.");
-    // Optionally return an error or a specific response if Slack is critical
-    // return NextResponse.json({ error: 'Slack integration not configured' }, { status: 500 });
-  }
-
   try {
-    const body = await request.json();
-    // Destructure all expected fields, providing defaults or handling missing ones
-    const {
-      task_id,
-      status,
-      original_file_name = 'N/A',
-      // Assuming these paths point to where the full text might be stored, if not directly provided
-      storage_transcript_path = 'N/A', 
-      storage_summary_path = 'N/A',
-      // Direct text if available (and preferred for Slack messages if not too long)
-      transcript_text, // Will be used if present
-      summary_text,    // Will be used if present
-      notion_page_url, // Expecting a URL to the Notion page if created by process-task
-      error_message = 'An unknown error occurred.'
-    } = body;
-
-    console.log(`Received notification for task_id: ${task_id}, status: ${status}`);
-
-    if (!task_id) {
-      return NextResponse.json({ error: 'task_id is required' }, { status: 400 });
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    const notification = parseTaskNotification(body);
+    if (typeof notification === 'string') {
+      console.error('Invalid notification payload:', notification, body);
+      return NextResponse.json({ error: `Invalid notification: ${notification}` }, { status: 400 });
     }
 
-    let slackMessage = '';
-
-    if (status === 'completed') {
-      console.log(`Processing completed task: ${task_id}`);
-      
-      slackMessage = `✅ 動画「${original_file_name}」の処理が完了しました (タスクID: ${task_id})。
-`;
-
-      if (summary_text) {
-        slackMessage += `\n📝 要約:\n${summary_text.substring(0, 300)}${summary_text.length > 300 ? '...' : ''}\n`; // Display first 300 chars of summary
-      } else if (storage_summary_path !== 'N/A'){
-        slackMessage += `\n要約パス: ${storage_summary_path}\n`;
-      }
-
-      if (transcript_text) {
-        // Optionally include a snippet or just a note that transcript is available
-        // slackMessage += `\n📜 文字起こし(一部):\n${transcript_text.substring(0, 200)}${transcript_text.length > 200 ? '...' : ''}\n`;
-      } else if (storage_transcript_path !== 'N/A'){
-        slackMessage += `文字起こしパス: ${storage_transcript_path}\n`;
-      }
-
-      if (notion_page_url) {
-        slackMessage += `\n📄 Notionページ: ${notion_page_url}\n`;
-      }
-      
-      // Notion登録処理のコメントアウトは残す (役割が明確化されれば実装)
-      // console.log('Data (would be) added to Notion for task:', task_id);
+    console.log(`Received notification for task ${notification.taskId}, status: ${notification.status}`);
+    const { supabase } = createPipelineDepsFromEnv();
+    let message: SlackMessage;
 
-    } else if (status === 'failed') {
-      console.error(`Task ${task_id} failed. Error: ${error_message}`);
-      slackMessage = `❌ 動画「${original_file_name}」の処理中にエラーが発生しました (タスクID: ${task_id})。
-エラー: ${error_message}`;
-    
+    if (notification.status === 'completed') {
+      message = buildCompletedMessage(await loadTaskResultForSlack(supabase, notification));
     } else {
-      console.warn(`Received unhandled status '${status}' for task_id: ${task_id}`);
-      // Optionally send a Slack message for unhandled statuses too
-      slackMessage = `⚠️ タスク ${task_id} が不明なステータス '${status}' を受信しました。`;
+      console.error(`Task ${notification.taskId} failed. Error: ${notification.errorMessage}`);
+      message = buildFailedMessage(notification.fileName, notification.taskId, notification.errorMessage);
     }
 
-    if (slackMessage && slackClient && slackChannelId) {
-      await sendSlackNotification(slackMessage);
+    // 送信側 (notify 段階) が再試行できるよう、Slack に届かなかった場合はエラーを返す
+    if (await postTaskStatusMessage(supabase, notification.taskId, message) === 'failed') {
+      return NextResponse.json({ error: 'Failed to post the notification to Slack' }, { status: 502 });
     }
-
     return NextResponse.json({ message: 'Notification received and processed' }, { status: 200 });
 
-  } catch (error: any) {
-    console.error('Error processing notification:', error.message, error.stack);
-    // Attempt to send a generic error to Slack if possible
-    if (slackClient && slackChannelId) {
-        await sendSlackNotification(`🚨 /api/slack/notifyエンドポイントでエラーが発生しました: ${error.message}`);
-    }
+  } catch (error: unknown) {
+    console.error('Error processing notification:', (error instanceof Error) ? error.message : String(error), (error instanceof Error) ? error.stack : undefined);
     return NextResponse.json({ error: 'Internal server error processing notification' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import process from "node:process";
+import { verifyBearerToken } from '@/libs/bearer-auth';
+import { createPipelineDepsFromEnv } from '@/libs/pipeline/process-task';
+import { loadTaskTimeline } from '@/libs/task-events';
+
+// タスクの監査ログ (ステータス遷移・段階ごとの所要時間・外部API呼び出し・再試行・エラー) を返す
+// エラーのスタックトレースを含むため、Authorization: Bearer <TASKS_API_TOKEN> が一致しない場合は拒否する (未設定の場合は受け付けない)
+function authorize(request: NextRequest): NextResponse | null {
+  const result = verifyBearerToken(request.headers, [process.env.TASKS_API_TOKEN]);
+  if (result === 'not_configured') {
+    console.error('TASKS_API_TOKEN is not set. Refusing to serve /api/tasks/[taskId]/timeline unprotected.');
+    return NextResponse.json({ error: 'Server configuration error: TASKS_API_TOKEN is not set.' }, { status: 500 });
+  }
+  if (result !== 'valid') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ taskId: string }> }) {
+  const unauthorized = authorize(request);
+  if (unauthorized) return unauthorized;
+
+  const { taskId } = await params;
+  try {
+    const { supabase } = createPipelineDepsFromEnv();
+    const timeline = await loadTaskTimeline(supabase, taskId);
+    if (timeline.events.length === 0) {
+      return NextResponse.json({ error: `No events found for task ${taskId}` }, { status: 404 });
+    }
+    return NextResponse.json(timeline);
+  } catch (e: unknown) {
+    const errorMessage = (e instanceof Error) ? e.message : String(e);
+    console.error(`[Task Timeline] Failed to load timeline for task ${taskId}:`, errorMessage);
+    return NextResponse.json({ error: 'Failed to load timeline' }, { status: 500 });
+  }
+}
@@ -0,0 +1,124 @@
+// 文字起こし・要約の成果物ファイル (videos バケットの transcripts/・summaries/ 以下)
+// transcribe で文字起こしテキストと字幕、publish で要約の Markdown と JSON を保存する。
+// Slack・Notion には /api/artifacts/{taskId}/{kind} へのリンクを載せ、開いたときに短時間の署名付き URL を発行してリダイレクトする
+// (Notion ページに残るリンクが期限切れにならないよう、署名付き URL そのものは載せない)
+import process from "node:process";
+import crypto from 'node:crypto';
+import { Buffer } from 'node:buffer';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const ARTIFACT_BUCKET = 'videos';
+// リンクのトークンの署名に使う秘密の値。未設定の場合はリンクを作らず、/api/artifacts も拒否する
+const ARTIFACT_LINK_SECRET = process.env.ARTIFACT_LINK_SECRET;
+// リンクを開いたときに発行する署名付き URL の有効期限 (リダイレクト直後に使われるため短くてよい)
+const SIGNED_URL_EXPIRES_SECONDS = 300;
+
+export const TASK_ARTIFACT_KINDS = ['transcript_text', 'transcript_srt', 'transcript_vtt', 'summary_markdown', 'summary_json'] as const;
+export type TaskArtifactKind = typeof TASK_ARTIFACT_KINDS[number];
+
+export function isTaskArtifactKind(value: unknown): value is TaskArtifactKind {
+  return typeof value === 'string' && (TASK_ARTIFACT_KINDS as readonly string[]).indexOf(value) !== -1;
+}
+
+interface TaskArtifactSpec {
+  dir: 'transcripts' | 'summaries';
+  extension: string;
+  contentType: string;
+  label: string; // Slack・Notion のリンクの表示名
+}
+
+const TASK_ARTIFACTS: Record<TaskArtifactKind, TaskArtifactSpec> = {
+  transcript_text: { dir: 'transcripts', extension: 'txt', contentType: 'text/plain; charset=utf-8', label: '文字起こし (txt)' },
+  transcript_srt: { dir: 'transcripts', extension: 'srt', contentType: 'application/x-subrip; charset=utf-8', label: '字幕 (srt)' },
+  transcript_vtt: { dir: 'transcripts', extension: 'vtt', contentType: 'text/vtt; charset=utf-8', label: '字幕 (vtt)' },
+  summary_markdown: { dir: 'summaries', extension: 'md', contentType: 'text/markdown; charset=utf-8', label: '要約 (md)' },
+  summary_json: { dir: 'summaries', extension: 'json', contentType: 'application/json; charset=utf-8', label: '要約 (json)' },
+};
+
+export interface TaskArtifactLink {
+  kind: TaskArtifactKind;
+  label: string;
+  url: string;
+}
+
+// リンクのベース URL。デプロイごとに変わる VERCEL_URL ではなく、本番のドメインを優先する
+function appBaseUrl(): string {
+  if (process.env.APP_BASE_URL) return process.env.APP_BASE_URL.replace(/\/+$/, '');
+  if (process.env.VERCEL_PROJECT_PRODUCTION_URL) return `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`;
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return 'http://localhost:3000';
+}
+
+function artifactLinkToken(secret: string, taskId: string, kind: TaskArtifactKind): string {
+  return crypto.createHmac('sha256', secret).update(`${taskId}:${kind}`).digest('base64url');
+}
+
+// /api/artifacts に渡されたトークンを検証する (ARTIFACT_LINK_SECRET が未設定なら常に false)
+export function verifyArtifactLinkToken(taskId: string, kind: TaskArtifactKind, token: string): boolean {
+  if (!ARTIFACT_LINK_SECRET) return false;
+  const expected = Buffer.from(artifactLinkToken(ARTIFACT_LINK_SECRET, taskId, kind), 'utf8');
+  const received = Buffer.from(token, 'utf8');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+// バケット以下のパス (例: transcripts/{taskId}.txt)
+export function taskArtifactPath(taskId: string, kind: TaskArtifactKind): string {
+  const spec = TASK_ARTIFACTS[kind];
+  return `${spec.dir}/${taskId}.${spec.extension}`;
+}
+
+// 再実行時は同じパスに上書きする。保存先のパスを返す
+export async function uploadTaskArtifact(
+  supabase: SupabaseClient,
+  taskId: string,
+  kind: TaskArtifactKind,
+  content: string
+): Promise<string> {
+  const filePath = taskArtifactPath(taskId, kind);
+  const body = Buffer.from(content, 'utf-8');
+  const { error } = await supabase.storage
+    .from(ARTIFACT_BUCKET)
+    .upload(filePath, body, { contentType: TASK_ARTIFACTS[kind].contentType, upsert: true });
+  if (error) {
+    throw new Error(`Failed to upload ${kind} of task ${taskId} (bucket: ${ARTIFACT_BUCKET}, path: ${filePath}): ${error.message}`);
+  }
+  console.log(`[Artifacts] Uploaded ${kind} of task ${taskId} to ${ARTIFACT_BUCKET}/${filePath} (${body.length} bytes)`);
+  return filePath;
+}
+
+// 保存済みの成果物へのリンク (期限なし)。まだ保存していないもの (要約前など) は含めない。
+// リンクがなくても通知・Notion への書き込みは行うため、失敗しても例外は投げない
+export async function createTaskArtifactLinks(supabase: SupabaseClient, taskId: string): Promise<TaskArtifactLink[]> {
+  if (!ARTIFACT_LINK_SECRET) {
+    console.warn(`[Artifacts] ARTIFACT_LINK_SECRET is not set. Links to the files of task ${taskId} are not created.`);
+    return [];
+  }
+  const saved = new Set<string>();
+  for (const dir of ['transcripts', 'summaries'] as const) {
+    const { data, error } = await supabase.storage.from(ARTIFACT_BUCKET).list(dir, { search: taskId });
+    if (error) {
+      console.warn(`[Artifacts] Failed to list ${dir} of task ${taskId}:`, error.message);
+      return [];
+    }
+    for (const file of data || []) saved.add(`${dir}/${file.name}`);
+  }
+  const baseUrl = appBaseUrl();
+  return TASK_ARTIFACT_KINDS
+    .filter((kind) => saved.has(taskArtifactPath(taskId, kind)))
+    .map((kind) => ({
+      kind,
+      label: TASK_ARTIFACTS[kind].label,
+      url: `${baseUrl}/api/artifacts/${taskId}/${kind}?token=${artifactLinkToken(ARTIFACT_LINK_SECRET, taskId, kind)}`,
+    }));
+}
+
+// リンクを開いたときの、短時間だけ有効な署名付き URL。ファイルがなければ null
+export async function createTaskArtifactSignedUrl(supabase: SupabaseClient, taskId: string, kind: TaskArtifactKind): Promise<string | null> {
+  const filePath = taskArtifactPath(taskId, kind);
+  const { data, error } = await supabase.storage.from(ARTIFACT_BUCKET).createSignedUrl(filePath, SIGNED_URL_EXPIRES_SECONDS);
+  if (error || !data) {
+    console.warn(`[Artifacts] Failed to create signed URL for ${ARTIFACT_BUCKET}/${filePath}:`, error?.message);
+    return null;
+  }
+  return data.signedUrl;
+}
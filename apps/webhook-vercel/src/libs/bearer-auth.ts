@@ -0,0 +1,23 @@
+// 内部向け API (/api/process-task, /api/jobs/worker, /api/tasks/[taskId]/timeline) の Authorization: Bearer <secret> の検証
+// 秘密の値が1つも設定されていない場合は、保護されていない状態で受け付けないよう 'not_configured' を返す
+import crypto from 'node:crypto';
+import { Buffer } from 'node:buffer';
+
+export type BearerAuthResult = 'valid' | 'not_configured' | 'invalid';
+
+function safeEqual(a: string, b: string): boolean {
+  // timingSafeEqual は長さが異なると例外を投げるため先に比較する
+  const expected = Buffer.from(a, 'utf8');
+  const received = Buffer.from(b, 'utf8');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+// secrets のいずれかと一致すれば有効 (未設定の値は無視する)
+export function verifyBearerToken(headers: Headers, secrets: (string | undefined)[]): BearerAuthResult {
+  const configured = secrets.filter((secret): secret is string => Boolean(secret));
+  if (configured.length === 0) return 'not_configured';
+  const authorization = headers.get('authorization') || '';
+  if (!authorization.startsWith('Bearer ')) return 'invalid';
+  const token = authorization.slice('Bearer '.length);
+  return configured.some((secret) => safeEqual(secret, token)) ? 'valid' : 'invalid';
+}
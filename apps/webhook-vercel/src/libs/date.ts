@@ -0,0 +1,43 @@
+// 日付文字列の解釈 (Slack メッセージの会議日、アクションアイテムの期日などで共通利用)
+
+function toISODate(year: number, month: number, day: number): string | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  // 2月30日のような存在しない日付を弾く
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// 日付文字列 (YYYY/MM/DD, YYYY-MM-DD, YYYY.MM.DD, YYYY年MM月DD日) を YYYY-MM-DD に変換する。
+// referenceDate (YYYY-MM-DD) を渡すと、年のない MM/DD や MM月DD日 も解釈する
+// (基準日より前の日付になる場合は翌年とみなす。例: 会議日 12/20 に対する期日 1/10)
+export function parseDateToISO(
+  dateString: string | null | undefined,
+  referenceDate?: string | null
+): string | undefined {
+  if (!dateString) return undefined;
+  const normalized = dateString.trim();
+
+  const full = normalized.match(/^(\d{4})\s*[\/\-\.年]\s*(\d{1,2})\s*[\/\-\.月]\s*(\d{1,2})\s*日?$/);
+  if (full) {
+    const parsed = toISODate(parseInt(full[1], 10), parseInt(full[2], 10), parseInt(full[3], 10));
+    if (parsed) return parsed;
+  }
+
+  const monthDay = normalized.match(/^(\d{1,2})\s*[\/\-\.月]\s*(\d{1,2})\s*日?$/);
+  if (monthDay && referenceDate) {
+    const reference = parseDateToISO(referenceDate);
+    if (reference) {
+      const referenceYear = parseInt(reference.slice(0, 4), 10);
+      const month = parseInt(monthDay[1], 10);
+      const day = parseInt(monthDay[2], 10);
+      const sameYear = toISODate(referenceYear, month, day);
+      if (sameYear && sameYear >= reference) return sameYear;
+      const nextYear = toISODate(referenceYear + 1, month, day);
+      if (nextYear) return nextYear;
+    }
+  }
+
+  console.warn("Could not parse date string:", dateString, "returning undefined.");
+  return undefined;
+}
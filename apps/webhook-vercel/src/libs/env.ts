@@ -0,0 +1,37 @@
+// 数値の設定を環境変数から読む。未設定ならデフォルト、不正な値は警告してデフォルトを使う
+import process from "node:process";
+
+export function readNumberEnv(key: string, fallback: number): number {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (isNaN(value)) {
+    console.warn(`Invalid value for ${key}: ${raw}. Using default ${fallback}.`);
+    return fallback;
+  }
+  return value;
+}
+
+// 0 より大きい数 (小数も可)
+export function readPositiveNumberEnv(key: string, fallback: number): number {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (isNaN(value) || value <= 0) {
+    console.warn(`Invalid value for ${key}: ${raw}. Using default ${fallback}.`);
+    return fallback;
+  }
+  return value;
+}
+
+// 1 以上の整数 (小数部は切り捨てる)
+export function readPositiveIntEnv(key: string, fallback: number): number {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = parseInt(raw, 10);
+  if (isNaN(value) || value < 1) {
+    console.warn(`Invalid value for ${key}: ${raw}. Using default ${fallback}.`);
+    return fallback;
+  }
+  return value;
+}
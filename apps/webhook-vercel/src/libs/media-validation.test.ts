@@ -0,0 +1,85 @@
+// ファイルを取得する前に行う、種類 (MIME タイプ・拡張子) とサイズの確認 (checkMediaFileInfo) を確認する
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import process from "node:process";
+import { restoreEnv } from '../test/env';
+import { checkMediaFileInfo, getMediaValidationOptionsFromEnv, MediaFileInfo, MediaValidationOptions } from './media-validation';
+
+const MB = 1024 * 1024;
+
+const OPTIONS: MediaValidationOptions = {
+  allowedMimeTypes: ['video/*', 'audio/mpeg'],
+  allowedExtensions: ['mp4', 'm4a'],
+  maxSizeBytes: 100 * MB,
+  maxDurationSeconds: 3600,
+  probe: false,
+  probeMaxBytes: 32 * MB,
+};
+
+function file(name: string, mimeType: string | null, sizeBytes: number | null = MB): MediaFileInfo {
+  return { name, mimeType, sizeBytes };
+}
+
+function reasonOf(info: MediaFileInfo): string | null {
+  return checkMediaFileInfo(info, OPTIONS)?.reason ?? null;
+}
+
+describe('checkMediaFileInfo', () => {
+  test('MIME タイプがサブタイプの省略 (video/*) または完全一致で許可されていれば受け付ける', () => {
+    assert.equal(reasonOf(file('meeting.webm', 'video/webm')), null);
+    assert.equal(reasonOf(file('meeting.webm', 'Video/WebM; codecs=vp9')), null);
+    assert.equal(reasonOf(file('call.mp3', 'audio/mpeg')), null);
+    assert.equal(reasonOf(file('call.wav', 'audio/wav')), 'unsupported_type');
+  });
+
+  test('MIME タイプが application/octet-stream や不明でも、許可された拡張子なら受け付ける', () => {
+    assert.equal(reasonOf(file('voice.m4a', 'application/octet-stream')), null);
+    assert.equal(reasonOf(file('MEETING.MP4', null)), null);
+    assert.equal(reasonOf(file('notes.pdf', 'application/octet-stream')), 'unsupported_type');
+    assert.equal(reasonOf(file('README', null)), 'unsupported_type');
+  });
+
+  test('断る理由とともに、投稿したユーザー向けに対応している形式を伝える', () => {
+    assert.deepEqual(checkMediaFileInfo(file('notes.pdf', 'application/pdf'), OPTIONS), {
+      reason: 'unsupported_type',
+      message: '「notes.pdf」は動画・音声ファイルではないため処理できません。対応している形式: mp4, m4a',
+    });
+  });
+
+  test('サイズが上限を超えるファイルは断り、サイズが不明なファイルは受け付ける', () => {
+    assert.equal(reasonOf(file('meeting.mp4', 'video/mp4', 100 * MB)), null);
+    assert.equal(reasonOf(file('meeting.mp4', 'video/mp4', null)), null);
+    assert.deepEqual(checkMediaFileInfo(file('meeting.mp4', 'video/mp4', 150 * MB), OPTIONS), {
+      reason: 'too_large',
+      message: '「meeting.mp4」は 150MB あり、処理できる上限 (100MB) を超えています。',
+    });
+  });
+
+  test('種類の確認をサイズの確認より先に行う', () => {
+    assert.equal(reasonOf(file('archive.zip', 'application/zip', 150 * MB)), 'unsupported_type');
+  });
+});
+
+describe('getMediaValidationOptionsFromEnv', () => {
+  const originalMimeTypes = process.env.INTAKE_ALLOWED_MIME_TYPES;
+  const originalExtensions = process.env.INTAKE_ALLOWED_EXTENSIONS;
+  const originalMaxSize = process.env.INTAKE_MAX_FILE_SIZE_MB;
+
+  afterEach(() => {
+    restoreEnv('INTAKE_ALLOWED_MIME_TYPES', originalMimeTypes);
+    restoreEnv('INTAKE_ALLOWED_EXTENSIONS', originalExtensions);
+    restoreEnv('INTAKE_MAX_FILE_SIZE_MB', originalMaxSize);
+  });
+
+  test('カンマ区切りの一覧を小文字にそろえ、拡張子の先頭の . を取り除く', () => {
+    process.env.INTAKE_ALLOWED_MIME_TYPES = 'Audio/*, video/mp4';
+    process.env.INTAKE_ALLOWED_EXTENSIONS = '.MP3, wav,';
+    process.env.INTAKE_MAX_FILE_SIZE_MB = '0.5';
+
+    const options = getMediaValidationOptionsFromEnv();
+
+    assert.deepEqual(options.allowedMimeTypes, ['audio/*', 'video/mp4']);
+    assert.deepEqual(options.allowedExtensions, ['mp3', 'wav']);
+    assert.equal(options.maxSizeBytes, 0.5 * MB);
+  });
+});
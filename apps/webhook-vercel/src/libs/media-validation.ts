@@ -0,0 +1,129 @@
+// 受け付ける動画・音声ファイルの検証 (/api/slack/events と /api/slack-intake でタスクを作成する前に行う)
+// 種類 (MIME タイプ・拡張子)・サイズを確認してから、ffprobe でコンテナを調べて長さと音声トラックの有無を確認する
+// (/api/slack/events はファイルの先頭 INTAKE_PROBE_MAX_MB だけを取得して確認する)
+import process from "node:process";
+import path from 'node:path';
+import { isMediaCommandExitError, probeMedia } from './media';
+import { readPositiveNumberEnv } from './env';
+
+export interface MediaValidationOptions {
+  allowedMimeTypes: string[]; // "video/*" のようにサブタイプを省略できる
+  allowedExtensions: string[];
+  maxSizeBytes: number;
+  maxDurationSeconds: number;
+  probe: boolean; // ffprobe での確認を行うか
+  probeMaxBytes: number; // Slack のファイルは先頭のこのバイト数だけを取得して ffprobe で確認する
+}
+
+export type MediaRejectionReason = 'unsupported_type' | 'too_large' | 'too_long' | 'no_audio_track' | 'unreadable';
+
+export interface MediaRejection {
+  reason: MediaRejectionReason;
+  message: string; // 投稿したユーザーに表示する説明
+}
+
+export interface MediaFileInfo {
+  name: string;
+  mimeType: string | null;
+  sizeBytes: number | null;
+}
+
+const DEFAULT_ALLOWED_MIME_TYPES = ['video/*', 'audio/*'];
+const DEFAULT_ALLOWED_EXTENSIONS = ['mp4', 'mov', 'm4v', 'webm', 'mkv', 'avi', 'mpeg', 'mpg', 'mp3', 'm4a', 'wav', 'ogg', 'oga', 'flac', 'aac'];
+const DEFAULT_MAX_SIZE_MB = 1024;
+const DEFAULT_MAX_DURATION_MINUTES = 240;
+// コンテナのヘッダーを読むには十分で、Vercel の /tmp (約512MB) を圧迫しない大きさ
+const DEFAULT_PROBE_MAX_MB = 32;
+
+function readListEnv(key: string, fallback: string[]): string[] {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  return raw.split(',').map((item) => item.trim().toLowerCase()).filter(Boolean);
+}
+
+export function getMediaValidationOptionsFromEnv(): MediaValidationOptions {
+  return {
+    allowedMimeTypes: readListEnv('INTAKE_ALLOWED_MIME_TYPES', DEFAULT_ALLOWED_MIME_TYPES),
+    allowedExtensions: readListEnv('INTAKE_ALLOWED_EXTENSIONS', DEFAULT_ALLOWED_EXTENSIONS).map((ext) => ext.replace(/^\./, '')),
+    maxSizeBytes: readPositiveNumberEnv('INTAKE_MAX_FILE_SIZE_MB', DEFAULT_MAX_SIZE_MB) * 1024 * 1024,
+    maxDurationSeconds: readPositiveNumberEnv('INTAKE_MAX_DURATION_MINUTES', DEFAULT_MAX_DURATION_MINUTES) * 60,
+    probe: process.env.INTAKE_PROBE_MEDIA !== 'false',
+    probeMaxBytes: readPositiveNumberEnv('INTAKE_PROBE_MAX_MB', DEFAULT_PROBE_MAX_MB) * 1024 * 1024,
+  };
+}
+
+function isAllowedMimeType(mimeType: string | null, allowed: string[]): boolean {
+  if (!mimeType) return false;
+  const normalized = mimeType.split(';')[0].trim().toLowerCase();
+  const [type] = normalized.split('/');
+  return allowed.some((pattern) => pattern === normalized || pattern === `${type}/*`);
+}
+
+function formatMinutes(seconds: number): string {
+  return `${Math.round(seconds / 60)}分`;
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)}MB`;
+}
+
+// 種類とサイズの確認 (ファイルを取得する前に行える確認)。問題なければ null
+export function checkMediaFileInfo(file: MediaFileInfo, options: MediaValidationOptions): MediaRejection | null {
+  const extension = path.extname(file.name).replace(/^\./, '').toLowerCase();
+  // Slack では MIME タイプが application/octet-stream になる音声もあるため、どちらかが許可されていれば受け付ける
+  if (!isAllowedMimeType(file.mimeType, options.allowedMimeTypes) && options.allowedExtensions.indexOf(extension) === -1) {
+    return {
+      reason: 'unsupported_type',
+      message: `「${file.name}」は動画・音声ファイルではないため処理できません。対応している形式: ${options.allowedExtensions.join(', ')}`,
+    };
+  }
+  if (file.sizeBytes !== null && file.sizeBytes > options.maxSizeBytes) {
+    return {
+      reason: 'too_large',
+      message: `「${file.name}」は ${formatMegabytes(file.sizeBytes)} あり、処理できる上限 (${formatMegabytes(options.maxSizeBytes)}) を超えています。`,
+    };
+  }
+  return null;
+}
+
+// ffprobe での確認 (長さと音声トラックの有無)。
+// ffprobe がファイルを読み取れなかった場合は断り、タイムアウトなどの一時的な失敗は例外を投げる。
+// partial はファイルの先頭だけを渡した場合。末尾にインデックスがある MP4 などは先頭だけでは読み取れないため、その場合は断らずに通す
+export async function probeMediaFile(
+  fileName: string,
+  filePath: string,
+  options: MediaValidationOptions,
+  partial = false
+): Promise<MediaRejection | null> {
+  if (!options.probe) return null;
+  let probe;
+  try {
+    probe = await probeMedia(filePath);
+  } catch (e: unknown) {
+    if (!isMediaCommandExitError(e)) {
+      throw new Error(`Failed to probe ${fileName}: ${(e instanceof Error) ? e.message : String(e)}`);
+    }
+    if (partial) {
+      console.warn(`[Media Validation] ffprobe could not read the first part of ${fileName}. Accepting it without probing:`, e.message);
+      return null;
+    }
+    console.warn(`[Media Validation] ffprobe could not read ${fileName}:`, e.message);
+    return {
+      reason: 'unreadable',
+      message: `「${fileName}」を動画・音声ファイルとして読み取れませんでした。ファイルが壊れていないかご確認ください。`,
+    };
+  }
+  if (!probe.hasAudio) {
+    return {
+      reason: 'no_audio_track',
+      message: `「${fileName}」には音声が含まれていないため、文字起こしできません。`,
+    };
+  }
+  if (probe.durationSeconds !== null && probe.durationSeconds > options.maxDurationSeconds) {
+    return {
+      reason: 'too_long',
+      message: `「${fileName}」は約${formatMinutes(probe.durationSeconds)}あり、処理できる上限 (${formatMinutes(options.maxDurationSeconds)}) を超えています。`,
+    };
+  }
+  return null;
+}
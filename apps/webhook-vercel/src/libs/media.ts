@@ -0,0 +1,293 @@
+// ffmpeg / ffprobe を使ったメディア処理ヘルパー
+// Vercel の Node.js ランタイムでも動くよう、npm 経由で配布される静的バイナリを使用する
+import process from "node:process";
+import { spawn } from 'node:child_process';
+import { createWriteStream, promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import ffprobeInstaller from '@ffprobe-installer/ffprobe';
+import { readNumberEnv, readPositiveNumberEnv } from './env';
+
+// Whisperに渡す音声のエンコード設定 (モノラル / 16kHz / 64kbps MP3)
+export const AUDIO_SAMPLE_RATE = 16000;
+export const AUDIO_CHANNELS = 1;
+export const AUDIO_BITRATE = '64k';
+export const AUDIO_EXTENSION = 'mp3';
+export const AUDIO_MIME_TYPE = 'audio/mpeg';
+
+// ffmpeg / ffprobe が応答しなくなった場合に強制終了するまでの時間 (ffprobe は受け付け時の確認に使うため短くする)
+const DEFAULT_FFMPEG_TIMEOUT_SECONDS = 600;
+const DEFAULT_FFPROBE_TIMEOUT_SECONDS = 60;
+
+const FFMPEG_TIMEOUT_MS = readPositiveNumberEnv('FFMPEG_TIMEOUT_SECONDS', DEFAULT_FFMPEG_TIMEOUT_SECONDS) * 1000;
+const FFPROBE_TIMEOUT_MS = readPositiveNumberEnv('FFPROBE_TIMEOUT_SECONDS', DEFAULT_FFPROBE_TIMEOUT_SECONDS) * 1000;
+
+// 0 以外の終了コードで終了した場合のエラー (入力を読み取れなかった場合など)。
+// タイムアウトや起動の失敗では exitCode を持たない
+export interface MediaCommandExitError extends Error {
+  exitCode: number;
+}
+
+export function isMediaCommandExitError(error: unknown): error is MediaCommandExitError {
+  return error instanceof Error && typeof (error as Partial<MediaCommandExitError>).exitCode === 'number';
+}
+
+function runBinary(binaryPath: string, args: string[], timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binaryPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+    child.stdout.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`${path.basename(binaryPath)} timed out after ${timeoutMs / 1000}s and was killed`));
+      } else if (code === 0) {
+        resolve(stdout);
+      } else if (code === null) {
+        reject(new Error(`${path.basename(binaryPath)} was killed by a signal: ${stderr.slice(-1000)}`));
+      } else {
+        // ffmpeg のエラー出力は長いので末尾のみを含める
+        const error = new Error(`${path.basename(binaryPath)} exited with code ${code}: ${stderr.slice(-1000)}`);
+        reject(Object.assign(error, { exitCode: code }));
+      }
+    });
+  });
+}
+
+export function runFfmpeg(args: string[]): Promise<string> {
+  return runBinary(ffmpegInstaller.path, ['-hide_banner', '-loglevel', 'error', '-y', ...args], FFMPEG_TIMEOUT_MS);
+}
+
+export function runFfprobe(args: string[]): Promise<string> {
+  return runBinary(ffprobeInstaller.path, ['-v', 'error', ...args], FFPROBE_TIMEOUT_MS);
+}
+
+// タスクごとの作業ディレクトリを /tmp 以下に作成する
+export async function createWorkDir(prefix: string): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), `${prefix}-`));
+}
+
+export async function removeWorkDir(dirPath: string): Promise<void> {
+  try {
+    await fs.rm(dirPath, { recursive: true, force: true });
+  } catch (e) {
+    console.warn(`[Media] Failed to remove work dir ${dirPath}:`, e);
+  }
+}
+
+export async function writeStreamToFile(stream: Readable, filePath: string): Promise<number> {
+  await pipeline(stream, createWriteStream(filePath));
+  const stat = await fs.stat(filePath);
+  return stat.size;
+}
+
+// URL のファイルの先頭 maxBytes バイトまでを取得して書き込む (受け付け時の ffprobe の確認用。/tmp の使用量を抑え、認証ヘッダーを外部コマンドの引数に渡さないため)。
+// Range に対応していないサーバーでも maxBytes で打ち切る。書き込んだバイト数と、ファイルの途中で打ち切ったかを返す
+export async function downloadUrlPrefixToFile(
+  url: string,
+  filePath: string,
+  maxBytes: number,
+  headers: Record<string, string> = {}
+): Promise<{ bytes: number; truncated: boolean }> {
+  const response = await fetch(url, { headers: { ...headers, Range: `bytes=0-${maxBytes - 1}` } });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+  // 206 の Content-Range (bytes 0-N/全体) または 200 の Content-Length から全体のサイズを調べる
+  const totalMatch = (response.headers.get('content-range') || '').match(/\/(\d+)$/);
+  const totalBytes = totalMatch
+    ? parseInt(totalMatch[1], 10)
+    : response.status === 200 ? parseInt(response.headers.get('content-length') || '', 10) : NaN;
+
+  const file = await fs.open(filePath, 'w');
+  const reader = response.body.getReader();
+  let bytes = 0;
+  try {
+    while (bytes < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, maxBytes - bytes);
+      await file.write(chunk);
+      bytes += chunk.length;
+    }
+    if (bytes >= maxBytes) await reader.cancel();
+  } finally {
+    await file.close();
+  }
+  // 全体のサイズが分からない場合は、上限まで読んだら途中で打ち切ったものとみなす
+  return { bytes, truncated: isNaN(totalBytes) ? bytes >= maxBytes : bytes < totalBytes };
+}
+
+export async function getFileSize(filePath: string): Promise<number> {
+  const stat = await fs.stat(filePath);
+  return stat.size;
+}
+
+export async function probeDurationSeconds(filePath: string): Promise<number> {
+  const output = await runFfprobe([
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    filePath,
+  ]);
+  const duration = parseFloat(output.trim());
+  if (isNaN(duration)) {
+    throw new Error(`Could not determine media duration for ${filePath}: ${output}`);
+  }
+  return duration;
+}
+
+export interface MediaProbe {
+  durationSeconds: number | null; // コンテナから長さが分からない場合は null
+  hasAudio: boolean;
+}
+
+// コンテナのストリーム構成と長さを調べる
+export async function probeMedia(filePath: string): Promise<MediaProbe> {
+  const output = await runFfprobe([
+    '-show_entries', 'format=duration:stream=codec_type',
+    '-of', 'json',
+    filePath,
+  ]);
+  const parsed = JSON.parse(output) as { streams?: { codec_type?: string }[]; format?: { duration?: string } };
+  const duration = parseFloat(parsed.format?.duration ?? '');
+  return {
+    durationSeconds: isNaN(duration) ? null : duration,
+    hasAudio: (parsed.streams || []).some((stream) => stream.codec_type === 'audio'),
+  };
+}
+
+// 文字起こし前の音声の正規化 (音量の平準化と前後の無音の除去)
+export interface AudioNormalizationOptions {
+  loudnorm: boolean;
+  targetLoudness: number; // 目標のラウドネス (LUFS)
+  trimSilence: boolean; // 先頭・末尾の無音を除去するか (途中の無音は残す)
+  silenceThresholdDb: number; // これより小さい音を無音とみなす (dB)
+  minSilenceSeconds: number; // これより短い無音は除去しない
+}
+
+export interface ExtractedAudio {
+  trimStartSeconds: number; // 先頭から除去した秒数 (文字起こしのタイムスタンプを元動画に合わせるため)
+  trimEndSeconds: number | null; // 元音声のこの位置以降を除去した (除去していなければ null)
+}
+
+const DEFAULT_TARGET_LOUDNESS = -16;
+const DEFAULT_SILENCE_THRESHOLD_DB = -50;
+const DEFAULT_MIN_SILENCE_SECONDS = 2;
+
+export function getAudioNormalizationOptionsFromEnv(): AudioNormalizationOptions {
+  return {
+    loudnorm: process.env.AUDIO_LOUDNORM !== 'false',
+    targetLoudness: readNumberEnv('AUDIO_LOUDNORM_TARGET_LUFS', DEFAULT_TARGET_LOUDNESS),
+    trimSilence: process.env.AUDIO_TRIM_SILENCE === 'true',
+    silenceThresholdDb: readNumberEnv('AUDIO_SILENCE_THRESHOLD_DB', DEFAULT_SILENCE_THRESHOLD_DB),
+    minSilenceSeconds: readNumberEnv('AUDIO_MIN_SILENCE_SECONDS', DEFAULT_MIN_SILENCE_SECONDS),
+  };
+}
+
+// silencedetect で先頭・末尾の無音の区間を調べ、残す区間 (秒) を返す
+async function detectSpeechBounds(
+  inputPath: string,
+  durationSeconds: number,
+  options: AudioNormalizationOptions
+): Promise<{ startSeconds: number; endSeconds: number }> {
+  // silencedetect の結果は ametadata で標準出力に書き出す (runFfmpeg は -loglevel error のためログには出ない)
+  const output = await runFfmpeg([
+    '-i', inputPath,
+    '-vn',
+    '-af', `silencedetect=noise=${options.silenceThresholdDb}dB:d=${options.minSilenceSeconds},ametadata=mode=print:file=-`,
+    '-f', 'null', '-',
+  ]);
+  const silences: { start: number; end: number }[] = [];
+  let currentStart: number | null = null;
+  for (const line of output.split('\n')) {
+    const startMatch = line.match(/lavfi\.silence_start=(-?[\d.]+)/);
+    if (startMatch) currentStart = parseFloat(startMatch[1]);
+    const endMatch = line.match(/lavfi\.silence_end=(-?[\d.]+)/);
+    if (endMatch && currentStart !== null) {
+      silences.push({ start: currentStart, end: parseFloat(endMatch[1]) });
+      currentStart = null;
+    }
+  }
+  // 末尾まで無音が続く場合は silence_end が出力されない
+  if (currentStart !== null) silences.push({ start: currentStart, end: durationSeconds });
+
+  let startSeconds = 0;
+  let endSeconds = durationSeconds;
+  if (silences.length > 0 && silences[0].start <= 0.1) startSeconds = silences[0].end;
+  const last = silences[silences.length - 1];
+  if (last && last.end >= durationSeconds - 0.1 && last.start > startSeconds) endSeconds = last.start;
+  // 全体が無音の場合はそのまま残す (文字起こしで空の結果になる)
+  if (endSeconds <= startSeconds) return { startSeconds: 0, endSeconds: durationSeconds };
+  return { startSeconds, endSeconds };
+}
+
+// 動画から音声トラックを取り出し、モノラル / 16kHz に変換して正規化する
+export async function extractAudioTrack(
+  inputPath: string,
+  outputPath: string,
+  options: AudioNormalizationOptions = getAudioNormalizationOptionsFromEnv()
+): Promise<ExtractedAudio> {
+  console.log(`[Media] Extracting audio track: ${inputPath} -> ${outputPath}`);
+  const result: ExtractedAudio = { trimStartSeconds: 0, trimEndSeconds: null };
+  const trimArgs: string[] = [];
+  if (options.trimSilence) {
+    const durationSeconds = await probeDurationSeconds(inputPath);
+    const bounds = await detectSpeechBounds(inputPath, durationSeconds, options);
+    if (bounds.startSeconds > 0) {
+      result.trimStartSeconds = bounds.startSeconds;
+      trimArgs.push('-ss', bounds.startSeconds.toFixed(3));
+    }
+    if (bounds.endSeconds < durationSeconds) {
+      result.trimEndSeconds = bounds.endSeconds;
+      trimArgs.push('-to', bounds.endSeconds.toFixed(3));
+    }
+    console.log(`[Media] Trimming silence: keeping ${bounds.startSeconds.toFixed(1)}s - ${bounds.endSeconds.toFixed(1)}s of ${durationSeconds.toFixed(1)}s`);
+  }
+
+  // loudnorm は内部で 192kHz に変換するため、-ar で最後に 16kHz に戻す
+  const filters = ['aformat=channel_layouts=mono'];
+  if (options.loudnorm) filters.push(`loudnorm=I=${options.targetLoudness}:TP=-1.5:LRA=11`);
+  await runFfmpeg([
+    ...trimArgs,
+    '-i', inputPath,
+    '-vn',
+    '-af', filters.join(','),
+    '-ac', String(AUDIO_CHANNELS),
+    '-ar', String(AUDIO_SAMPLE_RATE),
+    '-b:a', AUDIO_BITRATE,
+    outputPath,
+  ]);
+  return result;
+}
+
+// 音声ファイルの指定区間を切り出す (再エンコードして区間境界を正確にする)
+export async function cutAudioSegment(
+  inputPath: string,
+  outputPath: string,
+  startSeconds: number,
+  durationSeconds: number
+): Promise<void> {
+  await runFfmpeg([
+    '-ss', startSeconds.toFixed(3),
+    '-t', durationSeconds.toFixed(3),
+    '-i', inputPath,
+    '-ac', String(AUDIO_CHANNELS),
+    '-ar', String(AUDIO_SAMPLE_RATE),
+    '-b:a', AUDIO_BITRATE,
+    outputPath,
+  ]);
+}
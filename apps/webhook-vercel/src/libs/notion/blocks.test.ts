@@ -0,0 +1,43 @@
+// 文字起こし全文の段落への分割と、子ブロックのリクエストごとの分割 (件数・文字数の上限) を確認する
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BlockObjectRequest } from '@notionhq/client/build/src/api-endpoints';
+import { batchBlocks, splitTextForBlocks } from './blocks';
+import { NOTION_RICH_TEXT_MAX_CHARS } from './properties';
+
+function paragraphOf(length: number): BlockObjectRequest {
+  return { paragraph: { rich_text: [{ text: { content: 'あ'.repeat(length) } }] } };
+}
+
+describe('splitTextForBlocks', () => {
+  test('上限に収まる範囲で行をまとめ、改行位置で分割する', () => {
+    assert.deepEqual(splitTextForBlocks('aaa\nbbb\nccc', 7), ['aaa\nbbb', 'ccc']);
+    assert.deepEqual(splitTextForBlocks('短い文字起こし'), ['短い文字起こし']);
+  });
+
+  test('上限を超える1行は上限の長さごとに切る', () => {
+    assert.deepEqual(splitTextForBlocks(`ab\n${'x'.repeat(10)}\nc`, 4), ['ab', 'xxxx', 'xxxx', 'xx\nc']);
+  });
+
+  test('既定の上限は rich_text 1要素の文字数上限で、空の文字起こしは段落を作らない', () => {
+    const pieces = splitTextForBlocks('あ'.repeat(NOTION_RICH_TEXT_MAX_CHARS * 2 + 1));
+    assert.deepEqual(pieces.map((piece) => piece.length), [NOTION_RICH_TEXT_MAX_CHARS, NOTION_RICH_TEXT_MAX_CHARS, 1]);
+    assert.deepEqual(splitTextForBlocks(''), []);
+  });
+});
+
+describe('batchBlocks', () => {
+  test('1リクエストあたり100件ずつに分ける', () => {
+    const blocks = Array.from({ length: 250 }, () => paragraphOf(1));
+    assert.deepEqual(batchBlocks(blocks).map((batch) => batch.length), [100, 100, 50]);
+    assert.deepEqual(batchBlocks([]), []);
+  });
+
+  test('文字数の合計が上限を超える前に分け、上限を超える1件は単独で送る', () => {
+    const blocks = [paragraphOf(20000), paragraphOf(20000), paragraphOf(20000), paragraphOf(60000), paragraphOf(1)];
+    const batches = batchBlocks(blocks);
+    assert.deepEqual(batches.map((batch) => batch.length), [2, 1, 1, 1]);
+    assert.equal(batches.flat().length, blocks.length);
+    assert.equal(batches[2][0], blocks[3]);
+  });
+});
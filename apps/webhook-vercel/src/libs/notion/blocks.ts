@@ -0,0 +1,141 @@
+// 会議ページ本文のブロック (要約の見出し・箇条書き、文字起こし全文のトグル、元動画へのリンク) を組み立てる
+// Notion API の制限: rich_text 1要素あたり 2000 文字、1リクエストあたり子ブロック 100 件・ペイロード 500KB
+import type { Client as NotionClient } from '@notionhq/client';
+import type { BlockObjectRequest, BlockObjectRequestWithoutChildren } from '@notionhq/client/build/src/api-endpoints';
+import { formatSegmentsForPrompt } from '../transcription/segments';
+import { NOTION_RICH_TEXT_MAX_CHARS, NotionPageContext, toNotionRichText } from './properties';
+
+const NOTION_MAX_CHILDREN_PER_REQUEST = 100;
+// 日本語 (UTF-8 で1文字3バイト) でもペイロード上限に収まるよう、1リクエストの文字数も抑える
+const NOTION_MAX_CHARS_PER_REQUEST = 50000;
+
+function heading(text: string): BlockObjectRequest {
+  return { heading_2: { rich_text: [{ text: { content: text } }] } };
+}
+
+function paragraph(text: string): BlockObjectRequest {
+  return { paragraph: { rich_text: toNotionRichText(text) } };
+}
+
+function bullet(text: string): BlockObjectRequest {
+  return { bulleted_list_item: { rich_text: toNotionRichText(text) } };
+}
+
+// 「- 」「・」「* 」で始まる行は箇条書き、それ以外の行は段落にする
+function textToBlocks(text: string): BlockObjectRequest[] {
+  const blocks: BlockObjectRequest[] = [];
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const bulletMatch = line.match(/^(?:[-*・●]|\d+[.)])\s*(.*)$/);
+    blocks.push(bulletMatch ? bullet(bulletMatch[1]) : paragraph(line));
+  }
+  return blocks;
+}
+
+// 文字起こし全文を、改行位置を優先して rich_text の上限以下の段落に分割する
+export function splitTextForBlocks(text: string, maxChars: number = NOTION_RICH_TEXT_MAX_CHARS): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const line of text.split('\n')) {
+    const candidate = current ? `${current}\n${line}` : line;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) pieces.push(current);
+    current = line;
+    while (current.length > maxChars) {
+      pieces.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// ページ作成時に渡す本文 (要約の各項目と元動画へのリンク)
+export function buildSummaryBlocks(context: NotionPageContext): BlockObjectRequest[] {
+  const blocks: BlockObjectRequest[] = [];
+  if (context.videoUrl) {
+    blocks.push({ bookmark: { url: context.videoUrl, caption: [{ text: { content: '元動画' } }] } });
+  } else if (context.storagePath) {
+    blocks.push(paragraph(`元動画: ${context.storagePath}`));
+  }
+  if (context.artifactLinks.length > 0) {
+    // リンクは /api/artifacts を経由するため期限切れにならない
+    const richText = context.artifactLinks.flatMap((link, i) => [
+      ...(i > 0 ? [{ text: { content: ' / ' } }] : []),
+      { text: { content: link.label, link: { url: link.url } } },
+    ]);
+    blocks.push({ paragraph: { rich_text: [{ text: { content: 'ファイル: ' } }, ...richText] } });
+  }
+  for (const mapping of context.template.notionProperties) {
+    const value = context.summary[mapping.field];
+    if (!value || !value.trim()) continue;
+    blocks.push(heading(mapping.property));
+    blocks.push(...textToBlocks(value));
+  }
+  return blocks;
+}
+
+// 文字起こし全文の段落 (トグルの子ブロック)
+export function buildTranscriptBlocks(context: NotionPageContext): BlockObjectRequestWithoutChildren[] {
+  const transcript = context.transcriptSegments.length > 0
+    ? formatSegmentsForPrompt(context.transcriptSegments)
+    : context.transcriptText;
+  return splitTextForBlocks(transcript).map((piece) => ({
+    paragraph: { rich_text: [{ text: { content: piece } }] },
+  }));
+}
+
+// 子ブロックの件数・文字数の制限に収まるよう分割する
+export function batchBlocks<T extends BlockObjectRequest>(blocks: T[]): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentChars = 0;
+  for (const block of blocks) {
+    const chars = JSON.stringify(block).length;
+    if (current.length > 0 &&
+        (current.length >= NOTION_MAX_CHILDREN_PER_REQUEST || currentChars + chars > NOTION_MAX_CHARS_PER_REQUEST)) {
+      batches.push(current);
+      current = [];
+      currentChars = 0;
+    }
+    current.push(block);
+    currentChars += chars;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+// 1リクエストに収まらない子ブロックを順に追記する
+export async function appendBlocks(notion: NotionClient, blockId: string, blocks: BlockObjectRequest[]): Promise<void> {
+  for (const batch of batchBlocks(blocks)) {
+    await notion.blocks.children.append({ block_id: blockId, children: batch });
+  }
+}
+
+// 作成済みのページに、ページ作成時に渡しきれなかった要約ブロックと文字起こし全文のトグルを追記する
+export async function appendMeetingPageBody(
+  notion: NotionClient,
+  pageId: string,
+  remainingSummaryBlocks: BlockObjectRequest[],
+  transcriptBlocks: BlockObjectRequestWithoutChildren[]
+): Promise<void> {
+  await appendBlocks(notion, pageId, remainingSummaryBlocks);
+  if (transcriptBlocks.length === 0) return;
+
+  const [firstBatch, ...restBatches] = batchBlocks(transcriptBlocks);
+  const response = await notion.blocks.children.append({
+    block_id: pageId,
+    children: [{ toggle: { rich_text: [{ text: { content: '文字起こし全文' } }], children: firstBatch } }],
+  });
+  const toggleId = response.results[0]?.id;
+  if (!toggleId) {
+    throw new Error(`Notion did not return the transcript toggle block for page ${pageId}`);
+  }
+  for (const batch of restBatches) {
+    await notion.blocks.children.append({ block_id: toggleId, children: batch });
+  }
+}
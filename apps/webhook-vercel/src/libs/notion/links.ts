@@ -0,0 +1,5 @@
+// Notion ページIDからブラウザで開ける URL を作る
+// (ワークスペース名を含まない https://www.notion.so/<id> 形式でも、ログイン中のユーザーは正しいページにリダイレクトされる)
+export function notionPageUrl(pageId: string): string {
+  return `https://www.notion.so/${pageId.replace(/-/g, '')}`;
+}
@@ -0,0 +1,126 @@
+// ルーティング設定 (routing.ts) に従って Notion ページのプロパティを組み立てる
+import type { CreatePageParameters } from '@notionhq/client/build/src/api-endpoints';
+import { parseDateToISO } from '../date';
+import type { SummaryTemplate } from '../summarization/templates';
+import type { StructuredSummary } from '../summarization/types';
+import { splitTimestampCitations } from '../transcription/segments';
+import type { TranscriptSegment } from '../transcription/types';
+import type { TaskArtifactLink } from '../artifacts';
+import { NotionMetaSource, NotionPropertyRule, NotionRoute, SUMMARY_SOURCE_PREFIX } from './routing';
+
+type NotionPageProperties = CreatePageParameters['properties'];
+
+// プロパティ・ページ本文の値の取得元となるタスク・要約の情報
+export interface NotionPageContext {
+  taskId: string;
+  meetingDate: string | undefined;
+  consultantName: string | null | undefined;
+  clientName: string | null | undefined;
+  channelId: string | null | undefined;
+  fileName: string | null | undefined;
+  summary: StructuredSummary;
+  template: SummaryTemplate;
+  transcriptText: string;
+  transcriptSegments: TranscriptSegment[];
+  videoUrl: string | null | undefined; // 元動画の URL (Slack のファイルページ)
+  storagePath: string | null | undefined; // videoUrl がない場合に表示する Storage 上のパス
+  artifactLinks: TaskArtifactLink[]; // 文字起こし・要約ファイルへのリンク (/api/artifacts)
+}
+
+// Notion の rich_text 1要素あたりの文字数上限と、1つの rich_text 配列の要素数上限
+export const NOTION_RICH_TEXT_MAX_CHARS = 2000;
+const NOTION_RICH_TEXT_MAX_ITEMS = 100;
+
+// テキストを Notion の rich_text に変換する。[HH:MM:SS] の引用はコード表示にして目立たせる。
+// 上限を超える部分は要素を分け、要素数の上限を超えた分は切り捨てる (長文はページ本文のブロックに書く)
+export function toNotionRichText(text: string) {
+  const items: { text: { content: string }; annotations?: { code: boolean } }[] = [];
+  for (const part of splitTimestampCitations(text)) {
+    for (let i = 0; i < part.text.length; i += NOTION_RICH_TEXT_MAX_CHARS) {
+      items.push({
+        text: { content: part.text.slice(i, i + NOTION_RICH_TEXT_MAX_CHARS) },
+        ...(part.isCitation && { annotations: { code: true } }),
+      });
+    }
+  }
+  if (items.length > NOTION_RICH_TEXT_MAX_ITEMS) {
+    console.warn(`[Notion] Rich text truncated from ${items.length} to ${NOTION_RICH_TEXT_MAX_ITEMS} items.`);
+    return items.slice(0, NOTION_RICH_TEXT_MAX_ITEMS);
+  }
+  return items;
+}
+
+function resolveSourceValue(source: string, context: NotionPageContext): string | null {
+  if (source.indexOf(SUMMARY_SOURCE_PREFIX) === 0) {
+    // 要約の項目は空でもプロパティを書き込む (前回の値を空で上書きできるように)
+    return context.summary[source.slice(SUMMARY_SOURCE_PREFIX.length)] || '';
+  }
+  switch (source as NotionMetaSource) {
+    case 'meeting_title':
+      return context.summary.meeting_title || `${context.clientName || 'N/A'}様 ${context.meetingDate || '日付不明'}`;
+    case 'meeting_date':
+      return context.meetingDate || null;
+    case 'consultant_name':
+      return context.consultantName || null;
+    case 'client_name':
+      return context.clientName || null;
+    case 'template':
+      return context.template.name;
+    case 'template_label':
+      return context.template.label;
+    case 'file_name':
+      return context.fileName || null;
+    case 'channel_id':
+      return context.channelId || null;
+    case 'task_id':
+      return context.taskId;
+    default:
+      return null;
+  }
+}
+
+// 値が取得できない (null) プロパティは書き込まない
+function toPropertyValue(rule: NotionPropertyRule, value: string): NotionPageProperties[string] | undefined {
+  switch (rule.type) {
+    case 'title':
+      return { title: [{ text: { content: value.slice(0, NOTION_RICH_TEXT_MAX_CHARS) } }] };
+    case 'rich_text':
+      return { rich_text: toNotionRichText(value) };
+    case 'date': {
+      const isoDate = parseDateToISO(value);
+      return isoDate ? { date: { start: isoDate } } : undefined;
+    }
+    case 'select':
+      return value ? { select: { name: value } } : undefined;
+    case 'multi_select': {
+      const names = value.split(/[,、\n]/).map((name) => name.replace(/^[-・\s]+/, '').trim()).filter((name) => name);
+      return { multi_select: names.map((name) => ({ name })) };
+    }
+    case 'number': {
+      const num = Number(value);
+      return value !== '' && !isNaN(num) ? { number: num } : undefined;
+    }
+    case 'url':
+      return value ? { url: value } : undefined;
+  }
+}
+
+export function buildNotionProperties(route: NotionRoute, context: NotionPageContext): NotionPageProperties {
+  const rules: NotionPropertyRule[] = [...route.properties];
+  if (route.includeTemplateProperties) {
+    for (const mapping of context.template.notionProperties) {
+      // ルート側で同じプロパティが指定されている場合はルートの設定を優先する
+      if (rules.some((rule) => rule.property === mapping.property)) continue;
+      rules.push({ property: mapping.property, type: 'rich_text', source: `${SUMMARY_SOURCE_PREFIX}${mapping.field}` });
+    }
+  }
+
+  const properties: NotionPageProperties = {};
+  for (const rule of rules) {
+    const value = resolveSourceValue(rule.source, context);
+    if (value === null) continue;
+    const propertyValue = toPropertyValue(rule, value);
+    if (propertyValue) properties[rule.property] = propertyValue;
+  }
+  return properties;
+}
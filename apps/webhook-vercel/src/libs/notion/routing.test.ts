@@ -0,0 +1,132 @@
+// notion_routes の設定の読み込み (行の検証・従来の NOTION_DB_ID_1/2/3 への切り替え) とルートの選択を PGlite 上で確認する
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import process from "node:process";
+import { createTestDatabase, TestDatabase } from '../../test/database';
+import { restoreEnv } from '../../test/env';
+import { loadNotionRoutes, NotionRoute, NotionRouteTarget, selectNotionRoutes } from './routing';
+
+const LEGACY_ENV_NAMES = ['NOTION_DB_ID_1', 'NOTION_DB_ID_2', 'NOTION_DB_ID_3'];
+const originalLegacyEnv = LEGACY_ENV_NAMES.map((name) => process.env[name]);
+
+const TITLE = { property: '会議名', type: 'title', source: 'meeting_title' };
+
+let testDb: TestDatabase;
+
+async function insertRoute(route: {
+  name: string;
+  sortOrder?: number;
+  enabled?: boolean;
+  conditions?: unknown;
+  properties: unknown;
+  includeTemplateProperties?: boolean;
+}): Promise<void> {
+  await testDb.db.query(
+    `insert into public.notion_routes (name, database_id, enabled, sort_order, conditions, properties, include_template_properties)
+     values ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      route.name,
+      `db-${route.name}`,
+      route.enabled ?? true,
+      route.sortOrder ?? 0,
+      JSON.stringify(route.conditions ?? {}),
+      JSON.stringify(route.properties),
+      route.includeTemplateProperties ?? false,
+    ]
+  );
+}
+
+before(async () => {
+  testDb = await createTestDatabase(['20261019000800']);
+});
+
+after(async () => {
+  await testDb.db.close();
+});
+
+beforeEach(async () => {
+  await testDb.db.exec('delete from public.notion_routes;');
+});
+
+afterEach(() => {
+  LEGACY_ENV_NAMES.forEach((name, i) => restoreEnv(name, originalLegacyEnv[i]));
+});
+
+describe('loadNotionRoutes', () => {
+  test('reads enabled routes in sort_order and skips disabled or invalid rows', async () => {
+    await insertRoute({
+      name: 'sales',
+      sortOrder: 20,
+      conditions: { templates: ['sales'], channels: ['C1', 42] },
+      properties: [TITLE, { property: 'ニーズ', type: 'rich_text', source: 'summary.need' }],
+      includeTemplateProperties: true,
+    });
+    await insertRoute({ name: 'all', sortOrder: 10, properties: [TITLE] });
+    await insertRoute({ name: 'disabled', enabled: false, properties: [TITLE] });
+    await insertRoute({ name: 'no_title', properties: [{ property: '日付', type: 'date', source: 'meeting_date' }] });
+    await insertRoute({ name: 'bad_type', properties: [TITLE, { property: '担当', type: 'people', source: 'consultant_name' }] });
+    await insertRoute({ name: 'bad_source', properties: [TITLE, { property: '顧客', type: 'select', source: 'customer' }] });
+    await insertRoute({ name: 'empty_summary_key', properties: [TITLE, { property: '要約', type: 'rich_text', source: 'summary.' }] });
+    await insertRoute({ name: 'not_array', properties: { title: '会議名' } });
+
+    const routes = await loadNotionRoutes(testDb.supabase);
+
+    assert.deepEqual(routes, [
+      {
+        name: 'all',
+        databaseId: 'db-all',
+        conditions: { clients: undefined, consultants: undefined, channels: undefined, templates: undefined },
+        properties: [TITLE],
+        includeTemplateProperties: false,
+      },
+      {
+        name: 'sales',
+        databaseId: 'db-sales',
+        conditions: { clients: undefined, consultants: undefined, channels: ['C1'], templates: ['sales'] },
+        properties: [TITLE, { property: 'ニーズ', type: 'rich_text', source: 'summary.need' }],
+        includeTemplateProperties: true,
+      },
+    ]);
+  });
+
+  test('falls back to the NOTION_DB_ID_1/2/3 databases that are set when the table has no enabled routes', async () => {
+    await insertRoute({ name: 'disabled', enabled: false, properties: [TITLE] });
+    process.env.NOTION_DB_ID_1 = 'legacy-1';
+    delete process.env.NOTION_DB_ID_2;
+    process.env.NOTION_DB_ID_3 = 'legacy-3';
+
+    const routes = await loadNotionRoutes(testDb.supabase);
+
+    assert.deepEqual(routes.map((route) => [route.name, route.databaseId]), [['legacy_db_1', 'legacy-1'], ['legacy_db_3', 'legacy-3']]);
+    assert.deepEqual(routes[1].properties.map((p) => p.source), ['meeting_title', 'meeting_date', 'consultant_name']);
+    assert.deepEqual(routes[1].conditions, {});
+  });
+});
+
+describe('selectNotionRoutes', () => {
+  function route(name: string, conditions: NotionRoute['conditions']): NotionRoute {
+    return { name, databaseId: `db-${name}`, conditions, properties: [], includeTemplateProperties: false };
+  }
+
+  const routes = [
+    route('all', {}),
+    route('empty_lists', { clients: [], templates: [] }),
+    route('acme_sales', { clients: [' ACME '], templates: ['sales'] }),
+    route('channel', { channels: ['C1'] }),
+  ];
+
+  function select(target: Partial<NotionRouteTarget>): string[] {
+    const full: NotionRouteTarget = { clientName: null, consultantName: null, channelId: null, template: 'client_meeting', ...target };
+    return selectNotionRoutes(routes, full).map((r) => r.name);
+  }
+
+  test('requires every given condition to match, comparing names case-insensitively', () => {
+    assert.deepEqual(select({ clientName: 'acme', template: 'sales', channelId: 'C1' }), ['all', 'empty_lists', 'acme_sales', 'channel']);
+    assert.deepEqual(select({ clientName: 'acme', template: 'client_meeting' }), ['all', 'empty_lists']);
+    assert.deepEqual(select({ clientName: 'Other Inc.', template: 'sales', channelId: 'C2' }), ['all', 'empty_lists']);
+  });
+
+  test('does not match a condition when the task has no value for it', () => {
+    assert.deepEqual(select({ clientName: undefined, template: 'sales' }), ['all', 'empty_lists']);
+  });
+});
@@ -0,0 +1,179 @@
+// 要約を書き込む Notion データベースのルーティング設定
+// 設定は Supabase の notion_routes テーブルに保存し、DB の追加やプロパティ名の変更をコード変更なしで行えるようにする
+import process from "node:process";
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const NOTION_PROPERTY_TYPES = ['title', 'rich_text', 'date', 'select', 'multi_select', 'number', 'url'] as const;
+export type NotionPropertyType = typeof NOTION_PROPERTY_TYPES[number];
+
+// 要約以外の値の取得元。要約の項目は 'summary.<キー>' (例: summary.discussions_decisions) で指定する
+export const NOTION_META_SOURCES = [
+  'meeting_title',
+  'meeting_date',
+  'consultant_name',
+  'client_name',
+  'template',
+  'template_label',
+  'file_name',
+  'channel_id',
+  'task_id',
+] as const;
+export type NotionMetaSource = typeof NOTION_META_SOURCES[number];
+export const SUMMARY_SOURCE_PREFIX = 'summary.';
+
+export interface NotionPropertyRule {
+  property: string; // Notion データベースのプロパティ名
+  type: NotionPropertyType;
+  source: string; // NotionMetaSource または 'summary.<キー>'
+}
+
+// 指定された条件はすべて満たす必要がある。未指定 (または空配列) の条件は常に一致とみなす
+export interface NotionRouteConditions {
+  clients?: string[];
+  consultants?: string[];
+  channels?: string[];
+  templates?: string[];
+}
+
+export interface NotionRoute {
+  name: string;
+  databaseId: string;
+  conditions: NotionRouteConditions;
+  properties: NotionPropertyRule[];
+  // true の場合、テンプレートで定義された要約項目のプロパティ (templates.ts の notionProperties) も書き込む。
+  // 要約はページ本文 (blocks.ts) に書くため、通常は false でよい
+  includeTemplateProperties: boolean;
+}
+
+// ルーティングの条件判定に使うタスクの情報
+export interface NotionRouteTarget {
+  clientName: string | null | undefined;
+  consultantName: string | null | undefined;
+  channelId: string | null | undefined;
+  template: string;
+}
+
+interface NotionRouteRow {
+  name: string;
+  database_id: string;
+  conditions: unknown;
+  properties: unknown;
+  include_template_properties: boolean | null;
+}
+
+function isNotionPropertyType(value: unknown): value is NotionPropertyType {
+  return typeof value === 'string' && (NOTION_PROPERTY_TYPES as readonly string[]).indexOf(value) !== -1;
+}
+
+function isValidSource(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  if (value.indexOf(SUMMARY_SOURCE_PREFIX) === 0) return value.length > SUMMARY_SOURCE_PREFIX.length;
+  return (NOTION_META_SOURCES as readonly string[]).indexOf(value) !== -1;
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((item): item is string => typeof item === 'string');
+}
+
+// テーブルの1行をルートに変換する。設定に誤りがあればエラーメッセージを返す
+function parseRouteRow(row: NotionRouteRow): NotionRoute | string {
+  if (!row.database_id) return 'database_id is empty';
+
+  const conditionsRecord = (typeof row.conditions === 'object' && row.conditions !== null ? row.conditions : {}) as Record<string, unknown>;
+  const conditions: NotionRouteConditions = {
+    clients: toStringList(conditionsRecord.clients),
+    consultants: toStringList(conditionsRecord.consultants),
+    channels: toStringList(conditionsRecord.channels),
+    templates: toStringList(conditionsRecord.templates),
+  };
+
+  if (!Array.isArray(row.properties)) return 'properties must be an array';
+  const properties: NotionPropertyRule[] = [];
+  for (const entry of row.properties as Record<string, unknown>[]) {
+    if (!entry || typeof entry.property !== 'string' || !entry.property) return `invalid property entry: ${JSON.stringify(entry)}`;
+    if (!isNotionPropertyType(entry.type)) return `unsupported type '${entry.type}' for property '${entry.property}'`;
+    if (!isValidSource(entry.source)) return `unknown source '${entry.source}' for property '${entry.property}'`;
+    properties.push({ property: entry.property, type: entry.type, source: entry.source });
+  }
+  if (properties.filter((p) => p.type === 'title').length !== 1) return 'exactly one title property is required';
+
+  return {
+    name: row.name,
+    databaseId: row.database_id,
+    conditions,
+    properties,
+    includeTemplateProperties: row.include_template_properties === true,
+  };
+}
+
+// notion_routes にルートが1件もない場合の、従来の NOTION_DB_ID_1/2/3 による設定
+// (DB① はコンサルタント名とクライアント名、DB② はクライアント名のみ、DB③ はコンサルタント名のみを持つ。要約はページ本文に書く)
+function getLegacyRoutesFromEnv(): NotionRoute[] {
+  const base: NotionPropertyRule[] = [
+    { property: '会議名', type: 'title', source: 'meeting_title' },
+    { property: '日付', type: 'date', source: 'meeting_date' },
+  ];
+  const consultant: NotionPropertyRule = { property: 'コンサルタント名', type: 'rich_text', source: 'consultant_name' };
+  const client: NotionPropertyRule = { property: 'クライアント名', type: 'rich_text', source: 'client_name' };
+  const legacy: { name: string; databaseId: string | undefined; properties: NotionPropertyRule[] }[] = [
+    { name: 'legacy_db_1', databaseId: process.env.NOTION_DB_ID_1, properties: [...base, consultant, client] },
+    { name: 'legacy_db_2', databaseId: process.env.NOTION_DB_ID_2, properties: [...base, client] },
+    { name: 'legacy_db_3', databaseId: process.env.NOTION_DB_ID_3, properties: [...base, consultant] },
+  ];
+  return legacy
+    .filter((route) => !!route.databaseId)
+    .map((route) => ({
+      name: route.name,
+      databaseId: route.databaseId!,
+      conditions: {},
+      properties: route.properties,
+      includeTemplateProperties: false,
+    }));
+}
+
+// 有効なルートを sort_order 順に読み込む。設定に誤りのある行はログに出してスキップする
+export async function loadNotionRoutes(supabase: SupabaseClient): Promise<NotionRoute[]> {
+  const { data, error } = await supabase
+    .from('notion_routes')
+    .select('name, database_id, conditions, properties, include_template_properties')
+    .eq('enabled', true)
+    .order('sort_order', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load Notion routes: ${error.message}`);
+  }
+
+  const rows = (data || []) as NotionRouteRow[];
+  if (rows.length === 0) {
+    const legacyRoutes = getLegacyRoutesFromEnv();
+    console.log(`[Notion Routing] No routes in notion_routes. Using ${legacyRoutes.length} route(s) from NOTION_DB_ID_1/2/3.`);
+    return legacyRoutes;
+  }
+
+  const routes: NotionRoute[] = [];
+  for (const row of rows) {
+    const parsed = parseRouteRow(row);
+    if (typeof parsed === 'string') {
+      console.error(`[Notion Routing] Skipping invalid route '${row.name}': ${parsed}`);
+      continue;
+    }
+    routes.push(parsed);
+  }
+  return routes;
+}
+
+function matchesCondition(allowed: string[] | undefined, value: string | null | undefined): boolean {
+  if (!allowed || allowed.length === 0) return true;
+  if (!value) return false;
+  const normalized = value.trim().toLowerCase();
+  return allowed.some((candidate) => candidate.trim().toLowerCase() === normalized);
+}
+
+export function selectNotionRoutes(routes: NotionRoute[], target: NotionRouteTarget): NotionRoute[] {
+  return routes.filter((route) =>
+    matchesCondition(route.conditions.clients, target.clientName) &&
+    matchesCondition(route.conditions.consultants, target.consultantName) &&
+    matchesCondition(route.conditions.channels, target.channelId) &&
+    matchesCondition(route.conditions.templates, target.template)
+  );
+}
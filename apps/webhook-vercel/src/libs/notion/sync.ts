@@ -0,0 +1,206 @@
+// 会議ページの Notion への書き込み (作成・更新・再作成)
+// (タスク, 書き込み先DB) ごとのページを notion_page_mappings で管理し、再処理時は既存ページをその場で更新する
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { APIErrorCode, Client as NotionClient, collectPaginatedAPI, isFullPage, isNotionClientError } from '@notionhq/client';
+import { readPositiveIntEnv } from '../env';
+import { appendMeetingPageBody, batchBlocks, buildSummaryBlocks, buildTranscriptBlocks } from './blocks';
+import { buildNotionProperties, NotionPageContext } from './properties';
+import type { NotionRoute } from './routing';
+
+const DEFAULT_NOTION_SYNC_MAX_ATTEMPTS = 3;
+const NOTION_SYNC_RETRY_BASE_MS = 1000;
+
+export type NotionSyncAction = 'created' | 'updated' | 'recreated' | 'failed';
+
+export interface NotionSyncResult {
+  route: string;
+  databaseId: string;
+  pageId: string | null;
+  action: NotionSyncAction;
+  error?: string;
+}
+
+interface NotionPageMapping {
+  database_id: string;
+  page_id: string | null;
+  attempts: number;
+}
+
+export function getNotionSyncMaxAttemptsFromEnv(): number {
+  return readPositiveIntEnv('NOTION_SYNC_MAX_ATTEMPTS', DEFAULT_NOTION_SYNC_MAX_ATTEMPTS);
+}
+
+export function describeNotionError(e: unknown): string {
+  if (isNotionClientError(e)) {
+    // ValidationError の場合は body にどのプロパティが不正かが含まれる
+    const body = 'body' in e && typeof e.body === 'string' ? ` ${e.body}` : '';
+    return `Code: ${e.code}, Message: ${e.message}${e.code === APIErrorCode.ValidationError ? body : ''}`;
+  }
+  return (e instanceof Error) ? e.message : String(e);
+}
+
+// 入力内容の誤りなど、再試行しても成功しないエラー
+function isPermanentNotionError(e: unknown): boolean {
+  return isNotionClientError(e) && (
+    e.code === APIErrorCode.ValidationError ||
+    e.code === APIErrorCode.Unauthorized ||
+    e.code === APIErrorCode.RestrictedResource
+  );
+}
+
+async function loadNotionPageMappings(supabase: SupabaseClient, taskId: string): Promise<Map<string, NotionPageMapping>> {
+  const { data, error } = await supabase
+    .from('notion_page_mappings')
+    .select('database_id, page_id, attempts')
+    .eq('task_id', taskId);
+  if (error) {
+    throw new Error(`Failed to load Notion page mappings for task ${taskId}: ${error.message}`);
+  }
+  const mappings = new Map<string, NotionPageMapping>();
+  for (const row of (data || []) as NotionPageMapping[]) {
+    mappings.set(row.database_id, row);
+  }
+  return mappings;
+}
+
+async function saveNotionPageMapping(
+  supabase: SupabaseClient,
+  taskId: string,
+  route: NotionRoute,
+  result: NotionSyncResult,
+  attempts: number
+): Promise<void> {
+  const { error } = await supabase
+    .from('notion_page_mappings')
+    .upsert({
+      task_id: taskId,
+      database_id: route.databaseId,
+      route_name: route.name,
+      // 失敗した場合も前回のページIDは残し、次回の再試行で更新対象にする
+      ...(result.pageId && { page_id: result.pageId }),
+      status: result.action === 'failed' ? 'failed' : 'synced',
+      last_action: result.action,
+      last_error: result.error ?? null,
+      attempts,
+      ...(result.action !== 'failed' && { synced_at: new Date().toISOString() }),
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'task_id,database_id' });
+  if (error) {
+    console.error(`[Notion Sync] Failed to save page mapping for task ${taskId}, DB ${route.databaseId}:`, error.message);
+  }
+}
+
+// Notion API の呼び出しを最大 maxAttempts 回まで指数バックオフで再試行する (入力の誤りなど再試行しても成功しないエラーは1回で諦める)
+export async function withNotionRetries<T>(
+  label: string,
+  maxAttempts: number,
+  fn: () => Promise<T>
+): Promise<{ ok: true; value: T; attempts: number } | { ok: false; error: string; attempts: number }> {
+  let attempt = 0;
+  for (;;) {
+    attempt++;
+    try {
+      return { ok: true, value: await fn(), attempts: attempt };
+    } catch (e: unknown) {
+      const message = describeNotionError(e);
+      console.error(`[Notion Sync] ${label} attempt ${attempt}/${maxAttempts} failed: ${message}`);
+      if (attempt >= maxAttempts || isPermanentNotionError(e)) {
+        return { ok: false, error: message, attempts: attempt };
+      }
+      await new Promise((resolve) => setTimeout(resolve, NOTION_SYNC_RETRY_BASE_MS * Math.pow(2, attempt - 1)));
+    }
+  }
+}
+
+// ページが存在し、ゴミ箱に入っていないか
+export async function isLivePage(notion: NotionClient, pageId: string): Promise<boolean> {
+  try {
+    const page = await notion.pages.retrieve({ page_id: pageId });
+    return !isFullPage(page) || !(page.archived || page.in_trash);
+  } catch (e: unknown) {
+    if (isNotionClientError(e) && e.code === APIErrorCode.ObjectNotFound) return false;
+    throw e;
+  }
+}
+
+async function createMeetingPage(notion: NotionClient, route: NotionRoute, context: NotionPageContext): Promise<string> {
+  // 1リクエストで渡せる子ブロックには上限があるため、ページ作成時は最初の分だけ渡し、残りは作成後に追記する
+  const summaryBlocks = buildSummaryBlocks(context);
+  const initialBlocks = batchBlocks(summaryBlocks)[0] || [];
+  const response = await notion.pages.create({
+    parent: { database_id: route.databaseId },
+    properties: buildNotionProperties(route, context),
+    children: initialBlocks,
+  });
+  const pageId = (response as {id: string}).id;
+  console.log(`[Notion Sync] Page created in DB ${route.databaseId}: ${pageId}`);
+
+  // 本文の追記に失敗してもページ自体は作成済みなので、ページIDは返す (次回の同期で本文ごと更新される)
+  try {
+    await appendMeetingPageBody(notion, pageId, summaryBlocks.slice(initialBlocks.length), buildTranscriptBlocks(context));
+  } catch (e: unknown) {
+    console.error(`[Notion Sync] Error appending body blocks to page ${pageId}: ${describeNotionError(e)}`);
+  }
+  return pageId;
+}
+
+// プロパティを更新し、本文は既存のブロックを削除してから書き直す
+async function updateMeetingPage(
+  notion: NotionClient,
+  pageId: string,
+  route: NotionRoute,
+  context: NotionPageContext
+): Promise<void> {
+  await notion.pages.update({ page_id: pageId, properties: buildNotionProperties(route, context) });
+  const existingBlocks = await collectPaginatedAPI(notion.blocks.children.list, { block_id: pageId });
+  for (const block of existingBlocks) {
+    await notion.blocks.delete({ block_id: block.id });
+  }
+  await appendMeetingPageBody(notion, pageId, buildSummaryBlocks(context), buildTranscriptBlocks(context));
+  console.log(`[Notion Sync] Page ${pageId} in DB ${route.databaseId} updated (${existingBlocks.length} old block(s) replaced).`);
+}
+
+async function syncRoute(
+  notion: NotionClient,
+  route: NotionRoute,
+  existingPageId: string | null,
+  context: NotionPageContext
+): Promise<NotionSyncResult> {
+  const base = { route: route.name, databaseId: route.databaseId };
+  if (existingPageId) {
+    if (await isLivePage(notion, existingPageId)) {
+      await updateMeetingPage(notion, existingPageId, route, context);
+      return { ...base, pageId: existingPageId, action: 'updated' };
+    }
+    console.warn(`[Notion Sync] Page ${existingPageId} in DB ${route.databaseId} was deleted in Notion. Recreating.`);
+    return { ...base, pageId: await createMeetingPage(notion, route, context), action: 'recreated' };
+  }
+  return { ...base, pageId: await createMeetingPage(notion, route, context), action: 'created' };
+}
+
+// 各ルートのページを作成または更新する。DBごとに独立して再試行し、失敗は notion_page_mappings に記録する
+export async function syncNotionPages(
+  notion: NotionClient,
+  supabase: SupabaseClient,
+  taskId: string,
+  routes: NotionRoute[],
+  context: NotionPageContext
+): Promise<NotionSyncResult[]> {
+  const maxAttempts = getNotionSyncMaxAttemptsFromEnv();
+  const mappings = await loadNotionPageMappings(supabase, taskId);
+  const results: NotionSyncResult[] = [];
+
+  for (const route of routes) {
+    const mapping = mappings.get(route.databaseId);
+    const previousAttempts = mapping?.attempts ?? 0;
+    const outcome = await withNotionRetries(`Route ${route.name} (DB ${route.databaseId})`, maxAttempts,
+      () => syncRoute(notion, route, mapping?.page_id ?? null, context));
+    const result: NotionSyncResult = outcome.ok
+      ? outcome.value
+      : { route: route.name, databaseId: route.databaseId, pageId: mapping?.page_id ?? null, action: 'failed', error: outcome.error };
+
+    await saveNotionPageMapping(supabase, taskId, route, result, previousAttempts + outcome.attempts);
+    results.push(result);
+  }
+  return results;
+}
@@ -0,0 +1,64 @@
+// タスクDBの設定 (notion_task_databases の行) の解釈と、設定したプロパティ名でのプロパティの組み立てを確認する
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SavedActionItem } from '../summarization/action-items';
+import { buildNotionTaskProperties, NotionTaskDatabase, parseNotionTaskDatabaseRow } from './tasks';
+
+function item(overrides: Partial<SavedActionItem> = {}): SavedActionItem {
+  return {
+    id: 'item-1',
+    index: 0,
+    description: '見積書を送付する',
+    assignee: '田中',
+    dueDateText: '10月30日',
+    dueDate: '2026-10-30',
+    sourceTimestamp: '00:12:34',
+    sourceSeconds: 754,
+    notionPageId: null,
+    notionSyncAttempts: 0,
+    ...overrides,
+  };
+}
+
+describe('parseNotionTaskDatabaseRow', () => {
+  test('項目ごとのプロパティ名を読み、null の項目は書き込まない', () => {
+    const parsed = parseNotionTaskDatabaseRow({
+      name: 'tasks',
+      database_id: 'db-1',
+      properties: { title: 'Task', assignee: 'Owner', due_date: 'Due', meeting: null },
+    });
+    assert.deepEqual(parsed, { name: 'tasks', databaseId: 'db-1', properties: { title: 'Task', assignee: 'Owner', due_date: 'Due' } });
+  });
+
+  test('title がない・未知の項目・文字列以外のプロパティ名はエラー', () => {
+    const row = { name: 'tasks', database_id: 'db-1' };
+    assert.equal(parseNotionTaskDatabaseRow({ ...row, properties: { assignee: 'Owner' } }), 'title property is required');
+    assert.equal(parseNotionTaskDatabaseRow({ ...row, properties: { title: 'Task', priority: 'P' } }), "unknown field 'priority'");
+    assert.match(parseNotionTaskDatabaseRow({ ...row, properties: { title: 'Task', due_date: 1 } }) as string, /invalid property name for 'due_date'/);
+    assert.equal(parseNotionTaskDatabaseRow({ ...row, properties: [] }), 'properties must be an object');
+    assert.equal(parseNotionTaskDatabaseRow({ ...row, database_id: '', properties: { title: 'Task' } }), 'database_id is empty');
+  });
+});
+
+describe('buildNotionTaskProperties', () => {
+  const database: NotionTaskDatabase = {
+    name: 'tasks',
+    databaseId: 'db-1',
+    properties: { title: 'Task', assignee: 'Owner', due_date: 'Due', due_date_text: 'Due note', meeting: 'Meeting' },
+  };
+
+  test('設定したプロパティ名で書き込み、設定のない項目 (発言時刻) は書き込まない', () => {
+    assert.deepEqual(buildNotionTaskProperties(database, item(), 'page-1'), {
+      Task: { title: [{ text: { content: '見積書を送付する' } }] },
+      Owner: { rich_text: [{ text: { content: '田中' } }] },
+      Due: { date: { start: '2026-10-30' } },
+      Meeting: { relation: [{ id: 'page-1' }] },
+    });
+  });
+
+  test('日付として解釈できなかった期日は表記のまま期日メモに書く', () => {
+    const properties = buildNotionTaskProperties(database, item({ dueDate: null, dueDateText: '来週中', assignee: null }), null);
+    assert.deepEqual(Object.keys(properties), ['Task', 'Due note']);
+    assert.deepEqual(properties['Due note'], { rich_text: [{ text: { content: '来週中' } }] });
+  });
+});
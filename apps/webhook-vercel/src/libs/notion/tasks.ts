@@ -0,0 +1,138 @@
+// アクションアイテムの Notion タスクDBへの書き込み (1件1ページ。会議ページにリレーションで紐付ける)
+// 書き込み先DBとプロパティ名は notion_task_databases テーブルの設定で決まる (行がなければ従来の NOTION_TASKS_DB_ID)
+// 結果はアイテムごとに action_items に記録し、再処理時は既存ページをその場で更新する
+import process from "node:process";
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Client as NotionClient } from '@notionhq/client';
+import type { CreatePageParameters } from '@notionhq/client/build/src/api-endpoints';
+import { recordActionItemNotionSync, SavedActionItem } from '../summarization/action-items';
+import { getNotionSyncMaxAttemptsFromEnv, isLivePage, withNotionRetries } from './sync';
+
+// 書き込むアイテムの項目。プロパティの型は項目ごとに決まっている (notion_task_databases.properties のコメント参照)
+export const NOTION_TASK_FIELDS = ['title', 'assignee', 'due_date', 'due_date_text', 'source_timestamp', 'meeting'] as const;
+export type NotionTaskField = typeof NOTION_TASK_FIELDS[number];
+
+export type NotionTaskProperties = Partial<Record<NotionTaskField, string>> & { title: string };
+
+export interface NotionTaskDatabase {
+  name: string;
+  databaseId: string;
+  properties: NotionTaskProperties; // 項目 → Notion データベースのプロパティ名 (指定のない項目は書き込まない)
+}
+
+export interface NotionTaskSyncSummary {
+  written: number;
+  failed: number;
+}
+
+interface NotionTaskDatabaseRow {
+  name: string;
+  database_id: string;
+  properties: unknown;
+}
+
+// notion_task_databases に行がない場合の、従来の NOTION_TASKS_DB_ID のプロパティ名
+const LEGACY_TASK_PROPERTIES: NotionTaskProperties = {
+  title: 'タスク名',
+  assignee: '担当者',
+  due_date: '期日',
+  due_date_text: '期日メモ',
+  source_timestamp: '発言時刻',
+  meeting: '会議',
+};
+
+function isNotionTaskField(value: string): value is NotionTaskField {
+  return (NOTION_TASK_FIELDS as readonly string[]).indexOf(value) !== -1;
+}
+
+// テーブルの1行を設定に変換する。設定に誤りがあればエラーメッセージを返す
+export function parseNotionTaskDatabaseRow(row: NotionTaskDatabaseRow): NotionTaskDatabase | string {
+  if (!row.database_id) return 'database_id is empty';
+  if (typeof row.properties !== 'object' || row.properties === null || Array.isArray(row.properties)) {
+    return 'properties must be an object';
+  }
+  const properties: Partial<Record<NotionTaskField, string>> = {};
+  for (const [field, property] of Object.entries(row.properties as Record<string, unknown>)) {
+    if (!isNotionTaskField(field)) return `unknown field '${field}'`;
+    if (property === null) continue;
+    if (typeof property !== 'string' || !property) return `invalid property name for '${field}': ${JSON.stringify(property)}`;
+    properties[field] = property;
+  }
+  if (!properties.title) return 'title property is required';
+  return { name: row.name, databaseId: row.database_id, properties: { ...properties, title: properties.title } };
+}
+
+// 有効な設定のうち sort_order が最も小さいものを読み込む。書き込み先がなければ null
+export async function loadNotionTaskDatabase(supabase: SupabaseClient): Promise<NotionTaskDatabase | null> {
+  const { data, error } = await supabase
+    .from('notion_task_databases')
+    .select('name, database_id, properties')
+    .eq('enabled', true)
+    .order('sort_order', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load Notion task database: ${error.message}`);
+  }
+
+  const rows = (data || []) as NotionTaskDatabaseRow[];
+  if (rows.length === 0) {
+    const databaseId = process.env.NOTION_TASKS_DB_ID;
+    return databaseId ? { name: 'legacy_tasks_db', databaseId, properties: LEGACY_TASK_PROPERTIES } : null;
+  }
+  if (rows.length > 1) {
+    console.warn(`[Notion Tasks] ${rows.length} task databases are enabled. Using '${rows[0].name}'.`);
+  }
+  const parsed = parseNotionTaskDatabaseRow(rows[0]);
+  if (typeof parsed === 'string') {
+    console.error(`[Notion Tasks] Skipping invalid task database '${rows[0].name}': ${parsed}`);
+    return null;
+  }
+  return parsed;
+}
+
+function richText(content: string) {
+  return { rich_text: [{ text: { content } }] };
+}
+
+export function buildNotionTaskProperties(
+  database: NotionTaskDatabase,
+  item: SavedActionItem,
+  meetingPageId: string | null
+): CreatePageParameters['properties'] {
+  const names = database.properties;
+  return {
+    [names.title]: { title: [{ text: { content: item.description } }] },
+    ...(names.assignee && item.assignee && { [names.assignee]: richText(item.assignee) }),
+    ...(names.due_date && item.dueDate && { [names.due_date]: { date: { start: item.dueDate } } }),
+    // 日付として解釈できなかった期日 (例: 来週中) は表記のまま残す
+    ...(names.due_date_text && !item.dueDate && item.dueDateText && { [names.due_date_text]: richText(item.dueDateText) }),
+    ...(names.source_timestamp && item.sourceTimestamp && { [names.source_timestamp]: richText(item.sourceTimestamp) }),
+    ...(names.meeting && meetingPageId && { [names.meeting]: { relation: [{ id: meetingPageId }] } }),
+  };
+}
+
+// 各アイテムのタスクページを作成 (作成済みで Notion 側に残っていれば更新) する。
+// アイテムごとに独立して再試行し、失敗は action_items に記録して次の publish で書き込み直す
+export async function syncNotionTaskPages(
+  notion: NotionClient,
+  supabase: SupabaseClient,
+  database: NotionTaskDatabase,
+  items: SavedActionItem[],
+  meetingPageId: string | null
+): Promise<NotionTaskSyncSummary> {
+  const maxAttempts = getNotionSyncMaxAttemptsFromEnv();
+  const summary: NotionTaskSyncSummary = { written: 0, failed: 0 };
+  for (const item of items) {
+    const outcome = await withNotionRetries(`Task page of action item ${item.id} (DB ${database.databaseId})`, maxAttempts, async () => {
+      const properties = buildNotionTaskProperties(database, item, meetingPageId);
+      if (item.notionPageId && await isLivePage(notion, item.notionPageId)) {
+        await notion.pages.update({ page_id: item.notionPageId, properties });
+        return item.notionPageId;
+      }
+      const response = await notion.pages.create({ parent: { database_id: database.databaseId }, properties });
+      return response.id;
+    });
+    await recordActionItemNotionSync(supabase, item, outcome.ok ? { pageId: outcome.value } : { error: outcome.error }, outcome.attempts);
+    summary[outcome.ok ? 'written' : 'failed']++;
+  }
+  return summary;
+}
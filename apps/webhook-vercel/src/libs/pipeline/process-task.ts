@@ -0,0 +1,628 @@
+// process-task パイプライン (動画のダウンロード → 音声抽出 → 文字起こし → 要約 → Notion への書き込み → Slack 通知)
+// 段階ごとにチェックポイントを記録し (stages.ts)、再試行時は未完了の段階から再開する
+// ジョブキューのワーカー (queue/worker.ts) から呼ばれる。失敗時は例外を投げ、再試行と失敗の通知は呼び出し側で行う
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Client as NotionClient } from '@notionhq/client';
+import process from "node:process";
+import { Readable } from 'node:stream'; // Node.js Readable ストリーム
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import {
+  AUDIO_EXTENSION,
+  AUDIO_MIME_TYPE,
+  createWorkDir,
+  cutAudioSegment,
+  extractAudioTrack,
+  getAudioNormalizationOptionsFromEnv,
+  getFileSize,
+  probeDurationSeconds,
+  removeWorkDir,
+  writeStreamToFile,
+} from '../media';
+import { getChunkingOptionsFromEnv, planAudioChunks } from '../transcription/chunking';
+import { offsetTranscript, stitchChunkTranscripts, TranscribedChunk } from '../transcription/stitch';
+import { loadTranscriptSegments, saveTranscriptSegments } from '../transcription/segments';
+import { formatSrt, formatVtt } from '../transcription/subtitles';
+import type { Transcript } from '../transcription/types';
+import {
+  getTranscriptionProvider,
+  resolveTranscriptionProviderName,
+  TranscriptionProvider,
+} from '../transcription/provider';
+import { getSummarizer } from '../summarization/summarizer';
+import { getMapReduceOptionsFromEnv, summarizeWithMapReduce } from '../summarization/map-reduce';
+import { clearSummaryIntermediates, saveSummaryIntermediate } from '../summarization/intermediates';
+import { getSummaryTemplate, SummaryTemplate } from '../summarization/templates';
+import { formatSummaryMarkdown } from '../summarization/markdown';
+import type { SummarizeInput } from '../summarization/prompt';
+import type { StructuredSummary, Summarizer } from '../summarization/types';
+import {
+  loadActionItemNotionPageIds,
+  loadActionItems,
+  normalizeActionItems,
+  saveActionItems,
+} from '../summarization/action-items';
+import { loadNotionRoutes, selectNotionRoutes } from '../notion/routing';
+import type { NotionPageContext } from '../notion/properties';
+import { describeNotionError, NotionSyncResult, syncNotionPages } from '../notion/sync';
+import { loadNotionTaskDatabase, syncNotionTaskPages } from '../notion/tasks';
+import { parseDateToISO } from '../date';
+import { notifySlack } from '../slack';
+import { buildCompletedNotification } from '../task-notification';
+import { postTaskProgress } from '../slack-thread';
+import { updateTaskInSupabase } from '../tasks';
+import { recordProviderCall, recordTaskEvent, toTaskEventError } from '../task-events';
+import { createTaskArtifactLinks, uploadTaskArtifact } from '../artifacts';
+import {
+  firstPendingStage,
+  loadStageCheckpoints,
+  PipelineStage,
+  resetStagesFrom,
+  saveStageCheckpoint,
+  StageCheckpoints,
+  stagesFrom,
+} from './stages';
+
+// 要約を書き込む Notion データベースは notion_routes テーブルの設定で決まる (notion/routing.ts)
+// アクションアイテムを書き込むタスクDBは notion_task_databases テーブルの設定で決まる (notion/tasks.ts。未設定の場合はSupabaseへの保存のみ)
+
+// 動画と抽出した音声を置く Storage バケット
+const STORAGE_BUCKET = 'videos';
+const AUDIO_STORAGE_PREFIX = 'audio';
+
+export interface PipelineDeps {
+  supabase: SupabaseClient;
+  notion: NotionClient;
+}
+
+export interface ProcessTaskOptions {
+  fromStage?: PipelineStage; // 完了済みでもこの段階以降をやり直す (例: summarize で要約以降のみ再実行)
+  attempt?: number; // ジョブの試行回数 (task_events に記録する)
+}
+
+export interface ProcessTaskResult {
+  taskId: string;
+  stagesRun: PipelineStage[];
+  notionPages: NotionSyncResult[]; // この実行で publish を行わなかった場合は空
+}
+
+// 環境変数から Supabase・Notion クライアントを作る
+// 文字起こし・要約プロバイダのAPIキー (OPENAI_API_KEY, GEMINI_API_KEY 等) は選択されたプロバイダ側でチェックする
+export function createPipelineDepsFromEnv(): PipelineDeps {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
+  const notionApiKey = process.env.NOTION_API_KEY;
+  if (!supabaseUrl || !supabaseAnonKey || !notionApiKey) {
+    console.error(
+      'Missing environment variables:',
+      {
+        supabaseUrl: !!supabaseUrl,
+        supabaseAnonKey: !!supabaseAnonKey,
+        notionApiKey: !!notionApiKey,
+      }
+    );
+    throw new Error('Server configuration error: Missing API keys.');
+  }
+  return {
+    supabase: createClient(supabaseUrl, supabaseAnonKey),
+    notion: new NotionClient({ auth: notionApiKey }),
+  };
+}
+
+async function downloadFromStorage(supabase: SupabaseClient, filePathOnBucket: string): Promise<Readable> {
+  const bucketName = STORAGE_BUCKET;
+  console.log(`[Stream Download] Downloading from Supabase Storage: bucket '${bucketName}', path '${filePathOnBucket}'`);
+
+  if (!filePathOnBucket) { // ファイルパスが空でないかチェック
+    throw new Error(`Invalid filePathOnBucket: ${filePathOnBucket}. Expected format: path/to/file.mp4`);
+  }
+
+  const { data: blobData, error } = await supabase.storage
+    .from(bucketName)
+    .download(filePathOnBucket); // filePathOnBucket をそのまま使用
+
+  if (error) {
+    console.error('[Stream Download] Error downloading from Supabase:', error);
+    if (error.cause) console.error('[Stream Download] Error cause:', error.cause);
+    throw new Error(`[Stream Download] Failed to download file (bucket: ${bucketName}, path: ${filePathOnBucket}): ${error.message}`);
+  }
+  if (!blobData) {
+    throw new Error(`[Stream Download] No data returned when downloading file (bucket: ${bucketName}, path: ${filePathOnBucket})`);
+  }
+  console.log(`[Stream Download] Blob for ${filePathOnBucket} from bucket ${bucketName} obtained. Size: ${blobData.size}`);
+
+  // BlobからReadableStream (Web Stream) を取得し、Node.jsのReadableストリームに変換
+  // VercelのNode.js環境 (Node 18+) では Readable.fromWeb が利用可能
+  const webStream = blobData.stream();
+  const nodeStream = Readable.fromWeb(webStream as any); // as anyで型互換性の問題を一旦回避（要確認）
+  
+  console.log(`[Stream Download] Converted Blob to Node.js Readable stream for ${filePathOnBucket}`);
+  return nodeStream;
+}
+
+// 抽出した音声を Storage に保存する (文字起こしから再開する場合に動画のダウンロードと音声抽出を省くため)
+async function uploadAudioToStorage(supabase: SupabaseClient, filePathOnBucket: string, localPath: string): Promise<void> {
+  const body = await fs.readFile(localPath);
+  const { error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(filePathOnBucket, body, { contentType: AUDIO_MIME_TYPE, upsert: true });
+  if (error) {
+    throw new Error(`Failed to upload extracted audio (bucket: ${STORAGE_BUCKET}, path: ${filePathOnBucket}): ${error.message}`);
+  }
+  console.log(`[Pipeline] Extracted audio uploaded to ${STORAGE_BUCKET}/${filePathOnBucket} (${body.length} bytes)`);
+}
+
+// 音声をプロバイダの上限に収まる重なり付きチャンクに分割して文字起こしする
+async function transcribeAudio(
+  supabase: SupabaseClient,
+  taskId: string,
+  provider: TranscriptionProvider,
+  audioPath: string,
+  workDir: string,
+  fileName: string,
+  attempt?: number
+): Promise<Transcript> {
+  console.log(`[Transcription Start] Called transcribeAudio for ${fileName}, Provider: ${provider.name}`);
+  const audioDuration = await probeDurationSeconds(audioPath);
+  const audioSize = await getFileSize(audioPath);
+  const chunkPlans = planAudioChunks(audioDuration, audioSize, getChunkingOptionsFromEnv(provider.maxChunkBytes));
+  console.log(`[Transcription Detail] Audio: ${audioDuration.toFixed(1)}s, ${audioSize} bytes, ${chunkPlans.length} chunk(s)`);
+
+  await updateTaskInSupabase(supabase, taskId, 'processing_in_vercel', {
+    transcription_chunks_total: chunkPlans.length,
+    transcription_chunks_completed: 0,
+  });
+
+  const transcribedChunks: TranscribedChunk[] = [];
+  for (const plan of chunkPlans) {
+    const chunkLabel = `${fileName} [chunk ${plan.index + 1}/${chunkPlans.length}]`;
+    let chunkPath = audioPath;
+    if (chunkPlans.length > 1) {
+      chunkPath = path.join(workDir, `chunk_${plan.index}.${AUDIO_EXTENSION}`);
+      await cutAudioSegment(audioPath, chunkPath, plan.startSeconds, plan.durationSeconds);
+    }
+
+    const transcript = await recordProviderCall(supabase, taskId, {
+      stage: 'transcribe',
+      attempt,
+      details: { provider: provider.name, chunk: plan.index, chunks: chunkPlans.length, durationSeconds: plan.durationSeconds },
+    }, () => provider.transcribeChunk({
+      filePath: chunkPath,
+      mimeType: AUDIO_MIME_TYPE,
+      durationSeconds: plan.durationSeconds,
+      label: chunkLabel,
+    }));
+    transcribedChunks.push({ plan, transcript });
+    if (chunkPath !== audioPath) await fs.rm(chunkPath, { force: true });
+
+    await updateTaskInSupabase(supabase, taskId, 'processing_in_vercel', {
+      transcription_chunks_completed: transcribedChunks.length,
+    });
+  }
+
+  const stitched = stitchChunkTranscripts(transcribedChunks, audioDuration);
+  console.log(`[Transcription Success] Transcription for ${fileName} completed. Text length: ${stitched.text.length}, Segments: ${stitched.segments.length}`);
+  return stitched;
+}
+
+// タスクの入力 (transcription_tasks の行) と、1回の実行の中で段階をまたいで使う中間結果
+interface PipelineRun {
+  deps: PipelineDeps;
+  taskId: string;
+  storagePath: string;
+  fileName: string;
+  meetingDate: string | undefined;
+  consultantName: string | null | undefined;
+  clientName: string | null | undefined;
+  channelId: string | null | undefined;
+  videoUrl: string | null | undefined;
+  transcriptionProvider: TranscriptionProvider;
+  summaryTemplate: SummaryTemplate;
+  checkpoints: StageCheckpoints;
+  attempt: number | undefined;
+  workDir: string;
+  // 以下はこの実行で作成・読み込みしたもの。前の段階が以前の実行で完了している場合は必要になった時点で読み込む
+  sourcePath?: string;
+  audioPath?: string;
+  transcript?: SummarizeInput;
+  summary?: StructuredSummary;
+  notionPages: NotionSyncResult[];
+}
+
+function checkpointString(run: PipelineRun, stage: PipelineStage, key: string): string | undefined {
+  const value = run.checkpoints[stage]?.[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function checkpointStrings(run: PipelineRun, stage: PipelineStage, key: string): string[] {
+  const value = run.checkpoints[stage]?.[key];
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+// 元動画を作業ディレクトリに取得する
+async function runDownloadStage(run: PipelineRun): Promise<Record<string, unknown>> {
+  // storagePath は "uploads/file.mp4" のようなバケット以下のパス
+  const videoStream = await downloadFromStorage(run.deps.supabase, run.storagePath);
+  const sourcePath = path.join(run.workDir, `source${path.extname(run.fileName)}`);
+  const sourceSize = await writeStreamToFile(videoStream, sourcePath);
+  console.log(`[Pipeline] Source written to ${sourcePath} (${sourceSize} bytes)`);
+  run.sourcePath = sourcePath;
+  return { storagePath: run.storagePath, bytes: sourceSize };
+}
+
+// 動画から Whisper 向けの圧縮音声 (モノラル / 16kHz、音量を正規化) を取り出して Storage に保存する
+// 以降の段階は元動画ではなくこの音声を使う
+async function runExtractAudioStage(run: PipelineRun): Promise<Record<string, unknown>> {
+  if (!run.sourcePath) {
+    // /tmp は実行ごとに別のため、ダウンロード済みでもこの実行で取得し直す
+    console.log(`[Pipeline] Task ${run.taskId}: source is not in this run's work dir. Downloading it again.`);
+    await runDownloadStage(run);
+  }
+  const sourcePath = run.sourcePath!;
+  const audioPath = path.join(run.workDir, `audio.${AUDIO_EXTENSION}`);
+  const extracted = await extractAudioTrack(sourcePath, audioPath, getAudioNormalizationOptionsFromEnv());
+  await fs.rm(sourcePath, { force: true }); // /tmp の容量節約のため元動画はすぐ削除
+  run.sourcePath = undefined;
+  run.audioPath = audioPath;
+
+  const audioStoragePath = `${AUDIO_STORAGE_PREFIX}/${run.taskId}.${AUDIO_EXTENSION}`;
+  await uploadAudioToStorage(run.deps.supabase, audioStoragePath, audioPath);
+  return {
+    audioStoragePath,
+    durationSeconds: await probeDurationSeconds(audioPath),
+    bytes: await getFileSize(audioPath),
+    trimStartSeconds: extracted.trimStartSeconds, // transcribe で文字起こしのタイムスタンプに加える
+    trimEndSeconds: extracted.trimEndSeconds,
+  };
+}
+
+async function runTranscribeStage(run: PipelineRun): Promise<Record<string, unknown>> {
+  const { supabase } = run.deps;
+  if (!run.audioPath) {
+    const audioStoragePath = checkpointString(run, 'extract_audio', 'audioStoragePath');
+    if (!audioStoragePath) {
+      throw new Error(`Task ${run.taskId}: extract_audio checkpoint has no audioStoragePath.`);
+    }
+    const audioPath = path.join(run.workDir, `audio.${AUDIO_EXTENSION}`);
+    await writeStreamToFile(await downloadFromStorage(supabase, audioStoragePath), audioPath);
+    run.audioPath = audioPath;
+  }
+
+  // 無音を除去した音声のタイムスタンプを元動画の時刻に戻す (除去前のチェックポイントには値がない)
+  const trimStartSeconds = run.checkpoints.extract_audio?.trimStartSeconds;
+  const transcript = offsetTranscript(
+    await transcribeAudio(supabase, run.taskId, run.transcriptionProvider, run.audioPath, run.workDir, run.fileName, run.attempt),
+    typeof trimStartSeconds === 'number' ? trimStartSeconds : 0
+  );
+  await saveTranscriptSegments(supabase, run.taskId, transcript.segments);
+  // 文字起こしテキストは本文のみ (発言時刻は字幕ファイルに含める)
+  const transcriptPath = await uploadTaskArtifact(supabase, run.taskId, 'transcript_text', transcript.text);
+  if (transcript.segments.length > 0) {
+    await uploadTaskArtifact(supabase, run.taskId, 'transcript_srt', formatSrt(transcript.segments));
+    await uploadTaskArtifact(supabase, run.taskId, 'transcript_vtt', formatVtt(transcript.segments));
+  }
+  await updateTaskInSupabase(supabase, run.taskId, 'transcribed_in_vercel', {
+    transcription_result: transcript.text,
+    transcript_path: transcriptPath,
+  });
+  run.transcript = { text: transcript.text, segments: transcript.segments };
+  return {
+    provider: run.transcriptionProvider.name,
+    segments: transcript.segments.length,
+    durationSeconds: transcript.durationSeconds,
+    transcriptPath,
+  };
+}
+
+async function loadTranscript(run: PipelineRun): Promise<SummarizeInput> {
+  if (run.transcript) return run.transcript;
+  const { supabase } = run.deps;
+  const { data, error } = await supabase
+    .from('transcription_tasks')
+    .select('transcription_result')
+    .eq('id', run.taskId)
+    .single();
+  if (error || !data) {
+    throw new Error(`Failed to load transcription result for task ${run.taskId}: ${error?.message}`);
+  }
+  run.transcript = {
+    text: (data.transcription_result as string | null) || '',
+    segments: await loadTranscriptSegments(supabase, run.taskId),
+  };
+  console.log(`[Pipeline] Task ${run.taskId}: loaded saved transcript (${run.transcript.segments.length} segment(s)).`);
+  return run.transcript;
+}
+
+// 要約器の呼び出し (部分要約・統合) を provider_call イベントとして記録する
+function instrumentSummarizer(run: PipelineRun, summarizer: Summarizer): Summarizer {
+  const call = (details: Record<string, unknown>) => ({
+    stage: 'summarize',
+    attempt: run.attempt,
+    details: { provider: summarizer.name, model: summarizer.model, ...details },
+  });
+  return {
+    name: summarizer.name,
+    model: summarizer.model,
+    summarize: (input, template) => recordProviderCall(run.deps.supabase, run.taskId,
+      call({ call: 'summarize', section: input.section?.index ?? null, chars: input.text.length }),
+      () => summarizer.summarize(input, template)),
+    mergeSummaries: (partials, template) => recordProviderCall(run.deps.supabase, run.taskId,
+      call({ call: 'merge', partials: partials.length }),
+      () => summarizer.mergeSummaries(partials, template)),
+  };
+}
+
+async function runSummarizeStage(run: PipelineRun): Promise<Record<string, unknown>> {
+  const { supabase } = run.deps;
+  const transcript = await loadTranscript(run);
+
+  await clearSummaryIntermediates(supabase, run.taskId);
+  const summaryResult = await summarizeWithMapReduce(
+    instrumentSummarizer(run, getSummarizer()),
+    transcript,
+    run.summaryTemplate,
+    getMapReduceOptionsFromEnv(),
+    (intermediate) => saveSummaryIntermediate(supabase, run.taskId, intermediate)
+  );
+  await updateTaskInSupabase(supabase, run.taskId, 'summarized_in_vercel', {
+    summary_result: JSON.stringify(summaryResult.summary),
+    summary_missing_fields: summaryResult.missingFields,
+    summary_attempts: summaryResult.attempts,
+    summary_section_count: summaryResult.sectionCount,
+    summary_template: run.summaryTemplate.name,
+  });
+  run.summary = summaryResult.summary;
+
+  // アクションアイテムは期日を会議日基準で正規化してから専用テーブルに保存する
+  // 置き換える前のアイテムの Notion タスクページは publish でアーカイブするためチェックポイントに残す
+  const actionItems = normalizeActionItems(summaryResult.actionItems, run.meetingDate);
+  const supersededTaskPageIds = await loadActionItemNotionPageIds(supabase, run.taskId);
+  await saveActionItems(supabase, run.taskId, actionItems);
+  return {
+    template: run.summaryTemplate.name,
+    attempts: summaryResult.attempts,
+    actionItems: actionItems.length,
+    supersededTaskPageIds,
+  };
+}
+
+async function loadSummary(run: PipelineRun): Promise<StructuredSummary> {
+  if (run.summary) return run.summary;
+  const { data, error } = await run.deps.supabase
+    .from('transcription_tasks')
+    .select('summary_result')
+    .eq('id', run.taskId)
+    .single();
+  if (error || !data?.summary_result) {
+    throw new Error(`Failed to load summary result for task ${run.taskId}: ${error?.message || 'summary_result is empty'}`);
+  }
+  run.summary = JSON.parse(data.summary_result as string) as StructuredSummary;
+  return run.summary;
+}
+
+// ルーティング設定に一致するすべてのデータベースに会議ページを作成 (作成済みなら更新) し、アクションアイテムをタスクDBに書き込む
+async function runPublishStage(run: PipelineRun): Promise<Record<string, unknown>> {
+  const { supabase, notion } = run.deps;
+  const transcript = await loadTranscript(run);
+  const summary = await loadSummary(run);
+  const actionItems = await loadActionItems(supabase, run.taskId);
+
+  // 要約の Markdown は会議情報 (クライアント・日付など) を含むため、情報の修正で publish からやり直す場合も書き直す
+  const summaryPath = await uploadTaskArtifact(supabase, run.taskId, 'summary_markdown', formatSummaryMarkdown(
+    summary,
+    run.summaryTemplate,
+    actionItems,
+    { fileName: run.fileName, meetingDate: run.meetingDate, clientName: run.clientName, consultantName: run.consultantName }
+  ));
+  await uploadTaskArtifact(supabase, run.taskId, 'summary_json', JSON.stringify(summary, null, 2));
+
+  const notionContext: NotionPageContext = {
+    taskId: run.taskId,
+    meetingDate: run.meetingDate,
+    consultantName: run.consultantName,
+    clientName: run.clientName,
+    channelId: run.channelId,
+    fileName: run.fileName,
+    summary,
+    template: run.summaryTemplate,
+    transcriptText: transcript.text,
+    transcriptSegments: transcript.segments,
+    videoUrl: run.videoUrl,
+    storagePath: run.storagePath,
+    artifactLinks: await createTaskArtifactLinks(supabase, run.taskId),
+  };
+  const notionRoutes = selectNotionRoutes(await loadNotionRoutes(supabase), {
+    clientName: run.clientName,
+    consultantName: run.consultantName,
+    channelId: run.channelId,
+    template: run.summaryTemplate.name,
+  });
+  if (notionRoutes.length === 0) {
+    console.warn(`No Notion route matched task ${run.taskId}. No Notion page will be created.`);
+  }
+  const notionPages = await syncNotionPages(notion, supabase, run.taskId, notionRoutes, notionContext);
+  run.notionPages = notionPages;
+  for (const page of notionPages) {
+    await recordTaskEvent(supabase, run.taskId, {
+      type: 'provider_call',
+      stage: 'publish',
+      attempt: run.attempt,
+      error: page.error ? { message: page.error } : null,
+      details: { provider: 'notion', route: page.route, databaseId: page.databaseId, action: page.action, pageId: page.pageId },
+    });
+  }
+  const failedNotionPages = notionPages.filter((page) => page.action === 'failed');
+  if (failedNotionPages.length > 0) {
+    console.error(`Notion sync failed for ${failedNotionPages.length}/${notionPages.length} route(s) of task ${run.taskId}:`,
+      failedNotionPages.map((page) => `${page.route}: ${page.error}`));
+  }
+  const createdNotionPageIds = notionPages
+    .filter((page) => page.action !== 'failed')
+    .map((page) => page.pageId)
+    .filter((id): id is string => id !== null);
+
+  // 要約で置き換えられたアイテムのタスクページをアーカイブする (現在のアイテムのページは作成済みならその場で更新する)
+  for (const pageId of checkpointStrings(run, 'summarize', 'supersededTaskPageIds')) {
+    try {
+      await notion.pages.update({ page_id: pageId, archived: true });
+    } catch (e: unknown) {
+      console.warn(`Failed to archive previous Notion task page ${pageId}: ${describeNotionError(e)}`);
+    }
+  }
+
+  const taskDatabase = actionItems.length > 0 ? await loadNotionTaskDatabase(supabase) : null;
+  let failedTaskPages = 0;
+  if (taskDatabase) {
+    // タスクは最初に作成できた会議ページ (sort_order が最も小さいルート) に紐付ける
+    const taskPages = await syncNotionTaskPages(notion, supabase, taskDatabase, actionItems, createdNotionPageIds[0] || null);
+    failedTaskPages = taskPages.failed;
+    console.log(`Wrote ${taskPages.written}/${actionItems.length} Notion task page(s) for task ${run.taskId}.`);
+  }
+
+  const notionPageIdsToStore = createdNotionPageIds.join(',');
+  const failedRoutes = failedNotionPages.map((page) => page.route);
+  // 一部のDBへの書き込みに失敗した場合は記録しておく (詳細は notion_page_mappings と action_items)
+  const syncErrors = [
+    ...(failedRoutes.length > 0 ? [`Notion sync failed for route(s): ${failedRoutes.join(', ')}`] : []),
+    ...(failedTaskPages > 0 ? [`Notion task pages failed for ${failedTaskPages}/${actionItems.length} action item(s)`] : []),
+  ];
+
+  await updateTaskInSupabase(supabase, run.taskId, 'completed', { 
+      notion_page_id: notionPageIdsToStore || null,
+      summary_path: summaryPath,
+      error_message: syncErrors.join('; ') || null,
+      // summary_result は既にsummarized_in_vercelで保存済み
+  });
+  console.log(`Task ${run.taskId} processed successfully by Vercel.`);
+
+  return {
+    notionPageIds: notionPageIdsToStore,
+    // 通知でルート名とページを対応付けるため
+    notionPages: notionPages
+      .filter((page) => page.action !== 'failed' && page.pageId !== null)
+      .map((page) => ({ route: page.route, pageId: page.pageId })),
+    failedRoutes,
+    failedTaskPages,
+    summaryPath,
+  };
+}
+
+// Slackへの成功通知
+async function runNotifyStage(run: PipelineRun): Promise<Record<string, unknown>> {
+  // 要約・アクションアイテムは通知を受けた側が DB から読み込む。
+  // 通知に失敗すると例外が伝わり、チェックポイントを保存せずにジョブが notify から再試行する
+  await notifySlack(buildCompletedNotification(run.taskId, run.fileName, run.checkpoints.publish));
+  return {};
+}
+
+const STAGE_RUNNERS: Record<PipelineStage, (run: PipelineRun) => Promise<Record<string, unknown>>> = {
+  download: runDownloadStage,
+  extract_audio: runExtractAudioStage,
+  transcribe: runTranscribeStage,
+  summarize: runSummarizeStage,
+  publish: runPublishStage,
+  notify: runNotifyStage,
+};
+
+// チェックポイントのない最初の段階から最後まで実行する。options.fromStage を指定した場合はその段階以降を完了済みでもやり直す
+export async function processTask(
+  deps: PipelineDeps,
+  taskId: string,
+  storagePath: string,
+  options: ProcessTaskOptions = {}
+): Promise<ProcessTaskResult> {
+  const { supabase } = deps;
+  const fileNameFromPath = storagePath.split('/').pop(); // "file.mp4"
+
+  const { data: taskData, error: taskError } = await supabase
+    .from('transcription_tasks')
+    .select('meeting_date, consultant_name, client_name, original_file_name, transcription_provider, summary_template, slack_channel_id, slack_file_permalink')
+    .eq('id', taskId)
+    .single();
+
+  if (taskError || !taskData) {
+    console.error(`Error fetching task details for ${taskId} from Supabase:`, taskError);
+    throw new Error(`Failed to fetch task details: ${taskError?.message}`);
+  }
+
+  if (options.fromStage) {
+    await resetStagesFrom(supabase, taskId, options.fromStage);
+  }
+  let checkpoints = await loadStageCheckpoints(supabase, taskId);
+  // 動画が差し替えられた (storage_path が変わった) 場合は最初からやり直す
+  const downloadedPath = checkpoints.download?.storagePath;
+  if (downloadedPath !== undefined && downloadedPath !== storagePath) {
+    console.log(`[Pipeline] Task ${taskId}: storage path changed from ${downloadedPath} to ${storagePath}. Starting over.`);
+    await resetStagesFrom(supabase, taskId, 'download');
+    checkpoints = {};
+  }
+
+  const startStage = firstPendingStage(checkpoints);
+  if (!startStage) {
+    console.log(`[Pipeline] Task ${taskId}: all stages are already completed. Nothing to do.`);
+    return { taskId, stagesRun: [], notionPages: [] };
+  }
+
+  // タスクで指定がなければ環境変数のプロバイダを使い、使用したプロバイダをタスクに記録する
+  const transcriptionProviderName = resolveTranscriptionProviderName(taskData.transcription_provider as string | null | undefined);
+  await updateTaskInSupabase(supabase, taskId, 'processing_in_vercel', { transcription_provider: transcriptionProviderName });
+  console.log(`[Pipeline] Task ${taskId}: starting from stage ${startStage}.`);
+
+  const run: PipelineRun = {
+    deps,
+    taskId,
+    storagePath,
+    // original_file_name はDBから取得したものを優先、なければstoragePathから
+    fileName: taskData.original_file_name || fileNameFromPath || 'audio.mp4',
+    meetingDate: parseDateToISO(taskData.meeting_date as string | null | undefined),
+    consultantName: taskData.consultant_name as string | null | undefined,
+    clientName: taskData.client_name as string | null | undefined,
+    channelId: taskData.slack_channel_id as string | null | undefined,
+    videoUrl: taskData.slack_file_permalink as string | null | undefined,
+    transcriptionProvider: getTranscriptionProvider(transcriptionProviderName),
+    summaryTemplate: getSummaryTemplate(taskData.summary_template as string | null | undefined),
+    checkpoints,
+    attempt: options.attempt,
+    workDir: await createWorkDir(`task-${taskId}`),
+    notionPages: [],
+  };
+
+  const stagesRun: PipelineStage[] = [];
+  try {
+    for (const stage of stagesFrom(startStage)) {
+      await recordTaskEvent(supabase, taskId, { type: 'stage_started', stage, attempt: run.attempt });
+      // 完了・失敗の表示は notify で行う
+      if (stage !== 'notify') {
+        await postTaskProgress(supabase, taskId, run.fileName, stage);
+      }
+      const stageStartedAt = Date.now();
+      let output: Record<string, unknown>;
+      try {
+        output = await STAGE_RUNNERS[stage](run);
+      } catch (e: unknown) {
+        await recordTaskEvent(supabase, taskId, {
+          type: 'stage_failed',
+          stage,
+          attempt: run.attempt,
+          durationMs: Date.now() - stageStartedAt,
+          error: toTaskEventError(e),
+        });
+        throw e;
+      }
+      await recordTaskEvent(supabase, taskId, {
+        type: 'stage_completed',
+        stage,
+        attempt: run.attempt,
+        durationMs: Date.now() - stageStartedAt,
+        details: output,
+      });
+      await saveStageCheckpoint(supabase, taskId, stage, output);
+      run.checkpoints[stage] = output;
+      stagesRun.push(stage);
+    }
+  } finally {
+    await removeWorkDir(run.workDir);
+  }
+
+  return { taskId, stagesRun, notionPages: run.notionPages };
+}
@@ -0,0 +1,73 @@
+// process-task パイプラインの段階と、段階ごとのチェックポイント (task_stage_checkpoints テーブル)
+// 完了した段階の出力を記録しておき、再試行時はチェックポイントのない最初の段階から再開する
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// 実行順。後の段階は前の段階の出力を使う
+export const PIPELINE_STAGES = ['download', 'extract_audio', 'transcribe', 'summarize', 'publish', 'notify'] as const;
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+export type StageCheckpoints = Partial<Record<PipelineStage, Record<string, unknown>>>;
+
+export function isPipelineStage(value: unknown): value is PipelineStage {
+  return typeof value === 'string' && (PIPELINE_STAGES as readonly string[]).includes(value);
+}
+
+// stage とそれより後の段階 (stage の出力に依存する段階)
+export function stagesFrom(stage: PipelineStage): PipelineStage[] {
+  return PIPELINE_STAGES.slice(PIPELINE_STAGES.indexOf(stage));
+}
+
+// チェックポイントのない最初の段階。すべて完了していれば null
+export function firstPendingStage(checkpoints: StageCheckpoints): PipelineStage | null {
+  return PIPELINE_STAGES.find((stage) => !checkpoints[stage]) ?? null;
+}
+
+export async function loadStageCheckpoints(supabase: SupabaseClient, taskId: string): Promise<StageCheckpoints> {
+  const { data, error } = await supabase
+    .from('task_stage_checkpoints')
+    .select('stage, output')
+    .eq('task_id', taskId);
+  if (error) {
+    throw new Error(`Failed to load stage checkpoints for task ${taskId}: ${error.message}`);
+  }
+  const checkpoints: StageCheckpoints = {};
+  for (const row of data || []) {
+    if (isPipelineStage(row.stage)) {
+      checkpoints[row.stage] = (row.output as Record<string, unknown> | null) || {};
+    }
+  }
+  return checkpoints;
+}
+
+export async function saveStageCheckpoint(
+  supabase: SupabaseClient,
+  taskId: string,
+  stage: PipelineStage,
+  output: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from('task_stage_checkpoints')
+    .upsert({
+      task_id: taskId,
+      stage,
+      output,
+      completed_at: new Date().toISOString(),
+    }, { onConflict: 'task_id,stage' });
+  if (error) {
+    throw new Error(`Failed to save ${stage} checkpoint for task ${taskId}: ${error.message}`);
+  }
+  console.log(`[Pipeline] Task ${taskId}: stage ${stage} completed.`);
+}
+
+// 指定した段階からやり直すため、その段階以降のチェックポイントを削除する (例: summarize を指定すると要約から再実行)
+export async function resetStagesFrom(supabase: SupabaseClient, taskId: string, stage: PipelineStage): Promise<void> {
+  const { error } = await supabase
+    .from('task_stage_checkpoints')
+    .delete()
+    .eq('task_id', taskId)
+    .in('stage', stagesFrom(stage));
+  if (error) {
+    throw new Error(`Failed to reset stages from ${stage} for task ${taskId}: ${error.message}`);
+  }
+  console.log(`[Pipeline] Task ${taskId}: checkpoints from stage ${stage} cleared.`);
+}
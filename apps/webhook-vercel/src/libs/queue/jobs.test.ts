@@ -0,0 +1,162 @@
+// ジョブキューの DB 関数 (enqueue_job / claim_jobs / fail_job / reap_expired_jobs) を PGlite 上で確認する
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestDatabase, TestDatabase } from '../../test/database';
+import { claimJobs, enqueueJob, failJob, Job, QueueOptions, reapExpiredJobs } from './jobs';
+
+const OPTIONS: QueueOptions = {
+  maxAttempts: 3,
+  visibilityTimeoutSeconds: 960,
+  retryBaseDelaySeconds: 60,
+  retryMaxDelaySeconds: 200,
+};
+
+let testDb: TestDatabase;
+
+async function createTask(): Promise<string> {
+  const { rows } = await testDb.db.query<{ id: string }>('insert into public.transcription_tasks default values returning id');
+  return rows[0].id;
+}
+
+// run_at - updated_at (どちらも fail_job の now()) が再試行までの待ち時間
+async function retryDelaySeconds(jobId: string): Promise<number> {
+  const { rows } = await testDb.db.query<{ delay: number }>(
+    'select extract(epoch from run_at - updated_at)::float8 as delay from public.jobs where id = $1',
+    [jobId]
+  );
+  return rows[0].delay;
+}
+
+// 再試行待ちのジョブをすぐに取得できるようにする
+async function makeRunnable(jobId: string): Promise<void> {
+  await testDb.db.query('update public.jobs set run_at = now() where id = $1', [jobId]);
+}
+
+async function expireLease(jobId: string): Promise<void> {
+  await testDb.db.query(`update public.jobs set locked_until = now() - interval '1 second' where id = $1`, [jobId]);
+}
+
+before(async () => {
+  testDb = await createTestDatabase(['20261019001100']);
+});
+
+after(async () => {
+  await testDb.db.close();
+});
+
+beforeEach(async () => {
+  await testDb.db.exec('delete from public.jobs; delete from public.transcription_tasks;');
+});
+
+describe('enqueue_job', () => {
+  test('returns the active job instead of adding a duplicate', async () => {
+    const taskId = await createTask();
+    const first = await enqueueJob(testDb.supabase, taskId, 'process_task', { storagePath: 'uploads/a.mp4' }, OPTIONS);
+    const second = await enqueueJob(testDb.supabase, taskId, 'process_task', { storagePath: 'uploads/a.mp4' }, OPTIONS);
+    assert.equal(second.id, first.id);
+    assert.equal(first.max_attempts, OPTIONS.maxAttempts);
+  });
+});
+
+describe('claim_jobs', () => {
+  test('concurrent workers never claim the same job', async () => {
+    const taskIds = await Promise.all([createTask(), createTask(), createTask()]);
+    for (const taskId of taskIds) {
+      await enqueueJob(testDb.supabase, taskId, 'process_task', {}, OPTIONS);
+    }
+    const [a, b] = await Promise.all([
+      claimJobs(testDb.supabase, 'worker-a', 'process_task', 2, OPTIONS),
+      claimJobs(testDb.supabase, 'worker-b', 'process_task', 2, OPTIONS),
+    ]);
+    const claimedIds = [...a, ...b].map((job) => job.id);
+    assert.equal(claimedIds.length, 3);
+    assert.equal(new Set(claimedIds).size, 3);
+    for (const job of a) assert.equal(job.locked_by, 'worker-a');
+    for (const job of b) assert.equal(job.locked_by, 'worker-b');
+    assert.deepEqual(await claimJobs(testDb.supabase, 'worker-c', 'process_task', 1, OPTIONS), []);
+  });
+
+  test('leases the job and counts the attempt', async () => {
+    const taskId = await createTask();
+    await enqueueJob(testDb.supabase, taskId, 'process_task', {}, OPTIONS);
+    const [job] = await claimJobs(testDb.supabase, 'worker-a', 'process_task', 1, OPTIONS);
+    assert.equal(job.status, 'running');
+    assert.equal(job.attempts, 1);
+    const leaseSeconds = (Date.parse(job.locked_until!) - Date.now()) / 1000;
+    assert.ok(leaseSeconds > OPTIONS.visibilityTimeoutSeconds - 60 && leaseSeconds <= OPTIONS.visibilityTimeoutSeconds);
+  });
+
+  test('skips jobs of other kinds and jobs scheduled in the future', async () => {
+    const uploadTask = await createTask();
+    const laterTask = await createTask();
+    await enqueueJob(testDb.supabase, uploadTask, 'upload_file', {}, OPTIONS);
+    const later = await enqueueJob(testDb.supabase, laterTask, 'process_task', {}, OPTIONS);
+    await testDb.db.query(`update public.jobs set run_at = now() + interval '1 hour' where id = $1`, [later.id]);
+    assert.deepEqual(await claimJobs(testDb.supabase, 'worker-a', 'process_task', 5, OPTIONS), []);
+    const claimed = await claimJobs(testDb.supabase, 'worker-a', 'upload_file', 5, OPTIONS);
+    assert.deepEqual(claimed.map((job) => job.task_id), [uploadTask]);
+  });
+});
+
+describe('fail_job', () => {
+  test('backs off exponentially up to the maximum delay, then dead-letters the job', async () => {
+    const taskId = await createTask();
+    const { id } = await enqueueJob(testDb.supabase, taskId, 'process_task', {}, { ...OPTIONS, maxAttempts: 4 });
+    const delays: number[] = [];
+    let last: Job | null = null;
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      await makeRunnable(id);
+      const [job] = await claimJobs(testDb.supabase, 'worker-a', 'process_task', 1, OPTIONS);
+      assert.equal(job.attempts, attempt);
+      last = await failJob(testDb.supabase, job, 'worker-a', `error ${attempt}`, OPTIONS);
+      assert.ok(last);
+      if (last.status === 'queued') delays.push(await retryDelaySeconds(id));
+    }
+    // 60 * 2^(attempts-1) 秒、最大 200 秒
+    assert.deepEqual(delays, [60, 120, 200]);
+    assert.equal(last?.status, 'dead');
+    assert.equal(last?.last_error, 'error 4');
+    assert.deepEqual(await claimJobs(testDb.supabase, 'worker-a', 'process_task', 1, OPTIONS), []);
+  });
+
+  test('does not touch a job whose lease was lost to another worker', async () => {
+    const taskId = await createTask();
+    await enqueueJob(testDb.supabase, taskId, 'process_task', {}, OPTIONS);
+    const [job] = await claimJobs(testDb.supabase, 'worker-a', 'process_task', 1, OPTIONS);
+    assert.equal(await failJob(testDb.supabase, job, 'worker-b', 'not mine', OPTIONS), null);
+    const { rows } = await testDb.db.query<{ status: string }>('select status from public.jobs where id = $1', [job.id]);
+    assert.equal(rows[0].status, 'running');
+  });
+});
+
+describe('reap_expired_jobs', () => {
+  test('returns expired jobs with attempts left to the queue', async () => {
+    const taskId = await createTask();
+    await enqueueJob(testDb.supabase, taskId, 'process_task', {}, OPTIONS);
+    const [job] = await claimJobs(testDb.supabase, 'worker-a', 'process_task', 1, OPTIONS);
+    await expireLease(job.id);
+    assert.deepEqual(await reapExpiredJobs(testDb.supabase, 'process_task'), []);
+    const [reclaimed] = await claimJobs(testDb.supabase, 'worker-b', 'process_task', 1, OPTIONS);
+    assert.equal(reclaimed.id, job.id);
+    assert.equal(reclaimed.attempts, 2);
+    assert.match(reclaimed.last_error ?? '', /Lease expired/);
+  });
+
+  test('dead-letters expired jobs that used up their attempts and returns them', async () => {
+    const taskId = await createTask();
+    await enqueueJob(testDb.supabase, taskId, 'process_task', {}, { ...OPTIONS, maxAttempts: 1 });
+    const [job] = await claimJobs(testDb.supabase, 'worker-a', 'process_task', 1, OPTIONS);
+    await expireLease(job.id);
+    const dead = await reapExpiredJobs(testDb.supabase, 'process_task');
+    assert.deepEqual(dead.map((j) => [j.id, j.status]), [[job.id, 'dead']]);
+  });
+
+  test('leaves jobs with a live lease alone', async () => {
+    const taskId = await createTask();
+    await enqueueJob(testDb.supabase, taskId, 'process_task', {}, OPTIONS);
+    const [job] = await claimJobs(testDb.supabase, 'worker-a', 'process_task', 1, OPTIONS);
+    assert.deepEqual(await reapExpiredJobs(testDb.supabase, 'process_task'), []);
+    const { rows } = await testDb.db.query<{ locked_by: string }>('select locked_by from public.jobs where id = $1', [job.id]);
+    assert.equal(rows[0].locked_by, 'worker-a');
+  });
+});
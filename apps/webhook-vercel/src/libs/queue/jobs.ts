@@ -0,0 +1,161 @@
+// Postgres ベースのジョブキュー (jobs テーブルと enqueue_job / claim_jobs などの関数) の呼び出し
+// キューの状態遷移はすべて DB 側の関数で行う (supabase/migrations/20261019001100_create_job_queue.sql)
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { readPositiveIntEnv } from '../env';
+
+// ワーカーはこの順に取得する (保存済みの動画の処理より先に保存を進める)
+export const JOB_KINDS = ['upload_file', 'process_task'] as const;
+export type JobKind = typeof JOB_KINDS[number];
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead';
+
+export interface Job {
+  id: string;
+  task_id: string;
+  kind: JobKind;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  last_error: string | null;
+}
+
+export interface QueueOptions {
+  maxAttempts: number;
+  visibilityTimeoutSeconds: number; // リース期間。処理中はハートビートで延長する
+  retryBaseDelaySeconds: number; // 再試行までの待ち時間は retryBaseDelaySeconds * 2^(attempts-1)
+  retryMaxDelaySeconds: number;
+}
+
+// process-task の maxDuration (900秒) より長くし、実行中のジョブが他のワーカーに取られないようにする
+const DEFAULT_VISIBILITY_TIMEOUT_SECONDS = 960;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_BASE_DELAY_SECONDS = 60;
+const DEFAULT_RETRY_MAX_DELAY_SECONDS = 3600;
+
+export function getQueueOptionsFromEnv(): QueueOptions {
+  return {
+    maxAttempts: readPositiveIntEnv('JOB_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS),
+    visibilityTimeoutSeconds: readPositiveIntEnv('JOB_VISIBILITY_TIMEOUT_SECONDS', DEFAULT_VISIBILITY_TIMEOUT_SECONDS),
+    retryBaseDelaySeconds: readPositiveIntEnv('JOB_RETRY_BASE_DELAY_SECONDS', DEFAULT_RETRY_BASE_DELAY_SECONDS),
+    retryMaxDelaySeconds: readPositiveIntEnv('JOB_RETRY_MAX_DELAY_SECONDS', DEFAULT_RETRY_MAX_DELAY_SECONDS),
+  };
+}
+
+// 同じタスク・種類の未完了ジョブがあれば、新しく登録せずにそのジョブを返す
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  taskId: string,
+  kind: JobKind,
+  payload: Record<string, unknown>,
+  options: QueueOptions
+): Promise<Job> {
+  const { data, error } = await supabase.rpc('enqueue_job', {
+    p_task_id: taskId,
+    p_kind: kind,
+    p_payload: payload,
+    p_max_attempts: options.maxAttempts,
+  });
+  if (error || !data) {
+    throw new Error(`Failed to enqueue ${kind} job for task ${taskId}: ${error?.message}`);
+  }
+  return data as Job;
+}
+
+export async function claimJobs(
+  supabase: SupabaseClient,
+  workerId: string,
+  kind: JobKind,
+  limit: number,
+  options: QueueOptions
+): Promise<Job[]> {
+  const { data, error } = await supabase.rpc('claim_jobs', {
+    p_worker: workerId,
+    p_kind: kind,
+    p_limit: limit,
+    p_visibility_seconds: options.visibilityTimeoutSeconds,
+  });
+  if (error) {
+    throw new Error(`Failed to claim ${kind} jobs: ${error.message}`);
+  }
+  return (data || []) as Job[];
+}
+
+// リースを延長する。false の場合はリースが切れて他のワーカーに渡った可能性がある
+export async function extendJobLease(
+  supabase: SupabaseClient,
+  job: Job,
+  workerId: string,
+  options: QueueOptions
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('extend_job_lease', {
+    p_job_id: job.id,
+    p_worker: workerId,
+    p_visibility_seconds: options.visibilityTimeoutSeconds,
+  });
+  if (error) {
+    console.error(`[Job Queue] Failed to extend lease of job ${job.id}:`, error.message);
+    return false;
+  }
+  return data === true;
+}
+
+export async function completeJob(supabase: SupabaseClient, job: Job, workerId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('complete_job', { p_job_id: job.id, p_worker: workerId });
+  if (error) {
+    throw new Error(`Failed to complete job ${job.id}: ${error.message}`);
+  }
+  if (data !== true) {
+    console.warn(`[Job Queue] Job ${job.id} was no longer leased by ${workerId} when completing.`);
+  }
+}
+
+// 失敗を記録し、更新後のジョブを返す (status が queued なら再試行予定、dead なら再試行の上限に達した)
+export async function failJob(
+  supabase: SupabaseClient,
+  job: Job,
+  workerId: string,
+  errorMessage: string,
+  options: QueueOptions
+): Promise<Job | null> {
+  const { data, error } = await supabase.rpc('fail_job', {
+    p_job_id: job.id,
+    p_worker: workerId,
+    p_error: errorMessage,
+    p_base_delay_seconds: options.retryBaseDelaySeconds,
+    p_max_delay_seconds: options.retryMaxDelaySeconds,
+  });
+  if (error) {
+    throw new Error(`Failed to record failure of job ${job.id}: ${error.message}`);
+  }
+  // リースを失っていた場合は更新されず、id が null の行が返る
+  const updated = data as Job | null;
+  return updated && updated.id ? updated : null;
+}
+
+// リースが切れたジョブをキューに戻し、再試行の上限に達して dead になったジョブを返す
+export async function reapExpiredJobs(supabase: SupabaseClient, kind: JobKind): Promise<Job[]> {
+  const { data, error } = await supabase.rpc('reap_expired_jobs', { p_kind: kind });
+  if (error) {
+    throw new Error(`Failed to reap expired ${kind} jobs: ${error.message}`);
+  }
+  return (data || []) as Job[];
+}
+
+// タスクの未完了 (queued / running) のジョブ。なければ null
+export async function loadActiveJob(supabase: SupabaseClient, taskId: string, kind: JobKind = 'process_task'): Promise<Job | null> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('*')
+    .eq('task_id', taskId)
+    .eq('kind', kind)
+    .in('status', ['queued', 'running'])
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load active ${kind} job for task ${taskId}: ${error.message}`);
+  }
+  return data as Job | null;
+}
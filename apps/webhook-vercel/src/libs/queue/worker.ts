@@ -0,0 +1,171 @@
+// ジョブキューのワーカー。upload_file ジョブで動画を Storage に保存し、process_task ジョブで processTask を実行して、結果をキューに記録する
+// Vercel Cron から定期的に呼ばれる (/api/jobs/worker) ほか、/api/process-task の登録直後にも呼ばれる
+import process from "node:process";
+import { randomUUID } from 'node:crypto';
+import { notifySlack } from '../slack';
+import { buildRetryMessage } from '../slack-blocks';
+import { postTaskStatusMessage } from '../slack-thread';
+import { uploadTaskFileToStorage } from '../storage-upload';
+import { buildFailedNotification } from '../task-notification';
+import type { TaskStatus } from '../task-status';
+import { updateTaskInSupabase } from '../tasks';
+import { recordTaskEvent } from '../task-events';
+import { PipelineDeps, processTask } from '../pipeline/process-task';
+import {
+  claimJobs,
+  completeJob,
+  extendJobLease,
+  failJob,
+  getQueueOptionsFromEnv,
+  Job,
+  JOB_KINDS,
+  JobKind,
+  QueueOptions,
+  reapExpiredJobs,
+} from './jobs';
+
+export interface WorkerRunSummary {
+  workerId: string;
+  processed: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+}
+
+export function createWorkerId(): string {
+  return `${process.env.VERCEL_REGION || 'local'}-${randomUUID().slice(0, 8)}`;
+}
+
+// ジョブの種類ごとの処理
+const JOB_HANDLERS: Record<JobKind, (deps: PipelineDeps, job: Job) => Promise<void>> = {
+  upload_file: async (deps, job) => {
+    await uploadTaskFileToStorage(deps.supabase, job.task_id, job.attempts);
+  },
+  process_task: async (deps, job) => {
+    const storagePath = job.payload.storagePath;
+    if (typeof storagePath !== 'string' || !storagePath) {
+      throw new Error(`Job ${job.id} has no storagePath in its payload.`);
+    }
+    await processTask(deps, job.task_id, storagePath, { attempt: job.attempts });
+  },
+};
+
+// 再試行の上限に達したときのタスクのステータス
+const DEAD_JOB_TASK_STATUS: Record<JobKind, TaskStatus> = {
+  upload_file: 'upload_failed',
+  process_task: 'failed_in_vercel',
+};
+
+// 再試行待ちの間のタスクのステータス (保存の再試行中は upload_file_to_storage が設定したステータスのままにする)
+const RETRY_TASK_STATUS: Record<JobKind, TaskStatus | null> = {
+  upload_file: null,
+  process_task: 'retry_scheduled',
+};
+
+function jobFileName(job: Job): string {
+  if (typeof job.payload.fileName === 'string' && job.payload.fileName) return job.payload.fileName;
+  const storagePath = typeof job.payload.storagePath === 'string' ? job.payload.storagePath : undefined;
+  return storagePath?.split('/').pop() || 'N/A';
+}
+
+// 再試行の上限に達したジョブのタスクを失敗にして通知する
+async function handleDeadJob(deps: PipelineDeps, job: Job): Promise<void> {
+  const errorMessage = job.last_error || 'Job failed';
+  console.error(`[Job Worker] Job ${job.id} for task ${job.task_id} is dead after ${job.attempts} attempt(s): ${errorMessage}`);
+  await recordTaskEvent(deps.supabase, job.task_id, {
+    type: 'job_dead',
+    attempt: job.attempts,
+    error: { message: errorMessage },
+    details: { jobId: job.id, maxAttempts: job.max_attempts },
+  });
+  await updateTaskInSupabase(deps.supabase, job.task_id, DEAD_JOB_TASK_STATUS[job.kind], { error_message: errorMessage });
+  // ジョブは再試行しないため、通知に失敗しても記録だけして次のジョブに進む
+  try {
+    await notifySlack(buildFailedNotification(job.task_id, jobFileName(job), errorMessage, job.attempts));
+  } catch (e: unknown) {
+    console.error(`[Job Worker] Failed to notify Slack of dead job ${job.id}:`, (e instanceof Error) ? e.message : String(e));
+  }
+}
+
+async function runJob(deps: PipelineDeps, job: Job, workerId: string, options: QueueOptions): Promise<'succeeded' | 'retried' | 'dead'> {
+  console.log(`[Job Worker] ${workerId} processing ${job.kind} job ${job.id} (task ${job.task_id}, attempt ${job.attempts}/${job.max_attempts})`);
+
+  // 処理中はリース期間の 1/3 ごとにリースを延長する
+  const heartbeat = setInterval(() => {
+    extendJobLease(deps.supabase, job, workerId, options).then((extended) => {
+      if (!extended) console.warn(`[Job Worker] Lost lease of job ${job.id}.`);
+    });
+  }, (options.visibilityTimeoutSeconds * 1000) / 3);
+
+  try {
+    await JOB_HANDLERS[job.kind](deps, job);
+    await completeJob(deps.supabase, job, workerId);
+    return 'succeeded';
+  } catch (e: unknown) {
+    const errorMessage = (e instanceof Error) ? e.message : String(e);
+    console.error(`[Job Worker] Job ${job.id} (task ${job.task_id}) failed on attempt ${job.attempts}:`, errorMessage, (e instanceof Error) ? e.stack : undefined);
+    const updated = await failJob(deps.supabase, job, workerId, errorMessage, options);
+    if (!updated) {
+      console.warn(`[Job Worker] Job ${job.id} was no longer leased by ${workerId}. Leaving it to the current owner.`);
+      return 'retried';
+    }
+    if (updated.status === 'dead') {
+      await handleDeadJob(deps, updated);
+      return 'dead';
+    }
+    console.log(`[Job Worker] Job ${job.id} will be retried at ${updated.run_at}.`);
+    await recordTaskEvent(deps.supabase, job.task_id, {
+      type: 'retry_scheduled',
+      attempt: job.attempts,
+      error: { message: errorMessage },
+      details: { jobId: job.id, maxAttempts: job.max_attempts, runAt: updated.run_at },
+    });
+    const retryStatus = RETRY_TASK_STATUS[job.kind];
+    if (retryStatus) {
+      await updateTaskInSupabase(deps.supabase, job.task_id, retryStatus, {
+        error_message: `Attempt ${job.attempts}/${job.max_attempts} failed: ${errorMessage}`,
+      });
+    }
+    await postTaskStatusMessage(
+      deps.supabase,
+      job.task_id,
+      buildRetryMessage(jobFileName(job), job.attempts, job.max_attempts, updated.run_at)
+    );
+    return 'retried';
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// JOB_KINDS の順に、実行可能なジョブを1件取得する
+async function claimNextJob(deps: PipelineDeps, workerId: string, options: QueueOptions): Promise<Job | null> {
+  for (const kind of JOB_KINDS) {
+    const [job] = await claimJobs(deps.supabase, workerId, kind, 1, options);
+    if (job) return job;
+  }
+  return null;
+}
+
+// リース切れのジョブを回収してから、キューが空になるか maxJobs 件を処理するまでジョブを1件ずつ処理する
+export async function runJobWorker(deps: PipelineDeps, maxJobs: number, workerId: string = createWorkerId()): Promise<WorkerRunSummary> {
+  const options = getQueueOptionsFromEnv();
+  const summary: WorkerRunSummary = { workerId, processed: 0, succeeded: 0, retried: 0, dead: 0 };
+
+  for (const kind of JOB_KINDS) {
+    for (const deadJob of await reapExpiredJobs(deps.supabase, kind)) {
+      await handleDeadJob(deps, deadJob);
+      summary.dead++;
+    }
+  }
+
+  while (summary.processed < maxJobs) {
+    const job = await claimNextJob(deps, workerId, options);
+    if (!job) break;
+    const outcome = await runJob(deps, job, workerId, options);
+    summary.processed++;
+    summary[outcome]++;
+  }
+
+  console.log(`[Job Worker] ${workerId} finished:`, summary);
+  return summary;
+}
@@ -0,0 +1,256 @@
+// Slack に投稿するメッセージの Block Kit (処理の進捗・完了・失敗、スラッシュコマンドの応答、メタデータ編集のモーダル)
+// Slack の制限: section のテキストは 3000 文字、header は 150 文字、1メッセージ 50 ブロック、ボタンのテキストは 75 文字
+import type { ActionsBlock, KnownBlock, ModalView } from '@slack/web-api';
+import type { TaskArtifactLink } from './artifacts';
+import type { PipelineStage } from './pipeline/stages';
+import type { SavedActionItem } from './summarization/action-items';
+import { getSummaryTemplate, SUMMARY_TEMPLATE_NAMES, SummaryTemplate } from './summarization/templates';
+import type { StructuredSummary } from './summarization/types';
+import type { TaskNotificationNotionPage } from './task-notification';
+
+const SECTION_MAX_CHARS = 3000;
+const HEADER_MAX_CHARS = 150;
+const BUTTON_TEXT_MAX_CHARS = 75;
+const MAX_BLOCKS = 50;
+const MAX_ACTION_ITEMS = 20;
+
+// ボタン・モーダルの識別子 (/api/slack/interactions で処理する)
+export const TASK_ACTION_IDS = {
+  retry: 'task_retry', // value: タスクID
+  resummarize: 'task_resummarize', // 選択肢の value: "<タスクID>:<テンプレート名>"
+  editMetadata: 'task_edit_metadata', // value: タスクID
+} as const;
+export const EDIT_METADATA_CALLBACK_ID = 'task_edit_metadata_modal'; // private_metadata: タスクID
+export const EDIT_METADATA_BLOCK_IDS = {
+  clientName: 'client_name',
+  consultantName: 'consultant_name',
+  meetingDate: 'meeting_date',
+} as const;
+
+export interface TaskMetadata {
+  clientName: string | null;
+  consultantName: string | null;
+  meetingDate: string | null; // YYYY-MM-DD
+}
+
+export interface SlackMessage {
+  text: string; // 通知やブロックを表示できないクライアント向けの代替テキスト
+  blocks: KnownBlock[];
+}
+
+// 完了通知に載せるタスクの情報
+export interface TaskResultForSlack {
+  taskId: string;
+  fileName: string;
+  clientName: string | null;
+  consultantName: string | null;
+  meetingDate: string | null;
+  summary: StructuredSummary | null;
+  template: SummaryTemplate;
+  actionItems: SavedActionItem[];
+  notionPages: TaskNotificationNotionPage[];
+  notionFailedRoutes: string[];
+  artifactLinks: TaskArtifactLink[]; // 文字起こし・要約ファイルへのリンク (/api/artifacts)
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
+
+export function section(text: string): KnownBlock {
+  return { type: 'section', text: { type: 'mrkdwn', text: truncate(text, SECTION_MAX_CHARS) } };
+}
+
+export function context(text: string): KnownBlock {
+  return { type: 'context', elements: [{ type: 'mrkdwn', text: truncate(text, SECTION_MAX_CHARS) }] };
+}
+
+function header(text: string): KnownBlock {
+  return { type: 'header', text: { type: 'plain_text', text: truncate(text, HEADER_MAX_CHARS), emoji: true } };
+}
+
+// 処理中の段階ごとの表示 (1つのメッセージを更新して表示する)
+const PROGRESS_LABELS: Record<PipelineStage, string> = {
+  download: '動画を取得しています…',
+  extract_audio: '音声を抽出しています…',
+  transcribe: '文字起こし中…',
+  summarize: '要約中…',
+  publish: 'Notion に書き込み中…',
+  notify: '完了処理中…',
+};
+
+export function buildProgressMessage(fileName: string, stage: PipelineStage): SlackMessage {
+  const text = `:hourglass_flowing_sand: 「${fileName}」 ${PROGRESS_LABELS[stage]}`;
+  return { text, blocks: [section(text)] };
+}
+
+export function buildRetryMessage(fileName: string, attempt: number, maxAttempts: number, runAt: string): SlackMessage {
+  const text = `:repeat: 「${fileName}」の処理に失敗したため再試行します (${attempt}/${maxAttempts} 回目が失敗)`;
+  return { text, blocks: [section(text), context(`次の実行予定: ${runAt}`)] };
+}
+
+// 受け付け時の検証で断ったファイルへの返信 (タスクは作成していない)
+export function buildRejectedMessage(rejectionMessage: string): SlackMessage {
+  const text = `:warning: ${rejectionMessage}`;
+  return { text, blocks: [section(text), context('このファイルの文字起こしは行いません。動画・音声ファイルを共有し直してください。')] };
+}
+
+function editMetadataButton(taskId: string) {
+  return {
+    type: 'button' as const,
+    text: { type: 'plain_text' as const, text: 'クライアント・担当・日付を修正' },
+    action_id: TASK_ACTION_IDS.editMetadata,
+    value: taskId,
+  };
+}
+
+export function buildFailedMessage(fileName: string, taskId: string, errorMessage: string): SlackMessage {
+  const text = `:x: 「${fileName}」の処理中にエラーが発生しました`;
+  const actions: ActionsBlock = {
+    type: 'actions',
+    elements: [
+      {
+        type: 'button',
+        text: { type: 'plain_text', text: '再実行' },
+        action_id: TASK_ACTION_IDS.retry,
+        value: taskId,
+        style: 'primary',
+      },
+      editMetadataButton(taskId),
+    ],
+  };
+  return {
+    text,
+    blocks: [
+      section(`${text}\n\`\`\`${truncate(errorMessage, SECTION_MAX_CHARS - 200)}\`\`\``),
+      actions,
+      context(`タスクID: \`${taskId}\``),
+    ],
+  };
+}
+
+export function buildCompletedMessage(result: TaskResultForSlack): SlackMessage {
+  const title = result.summary?.meeting_title || result.fileName;
+  const blocks: KnownBlock[] = [header(`:white_check_mark: ${title}`)];
+
+  const facts = [
+    result.clientName && `*クライアント:* ${result.clientName}`,
+    result.meetingDate && `*日付:* ${result.meetingDate}`,
+    result.consultantName && `*担当:* ${result.consultantName}`,
+    `*種別:* ${result.template.label}`,
+  ].filter((fact): fact is string => Boolean(fact));
+  blocks.push({ type: 'section', fields: facts.map((fact) => ({ type: 'mrkdwn' as const, text: fact })) });
+
+  if (result.notionPages.length > 0) {
+    blocks.push({
+      type: 'actions',
+      elements: result.notionPages.slice(0, 5).map((page, i) => ({
+        type: 'button' as const,
+        text: { type: 'plain_text' as const, text: truncate(`Notion: ${page.label}`, BUTTON_TEXT_MAX_CHARS) },
+        url: page.url,
+        action_id: `open_notion_page_${i}`,
+        ...(i === 0 && { style: 'primary' as const }),
+      })),
+    });
+  }
+  if (result.notionFailedRoutes.length > 0) {
+    blocks.push(context(`:warning: Notion への書き込みに失敗: ${result.notionFailedRoutes.join(', ')}`));
+  }
+  if (result.artifactLinks.length > 0) {
+    // context() で切り詰めるとリンクが壊れるため直接組み立てる (リンクは5件なので上限には収まる)
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `:page_facing_up: ${result.artifactLinks.map((link) => `<${link.url}|${link.label}>`).join(' / ')}` }],
+    });
+  }
+
+  // 要約の各項目 (Notion ページ本文と同じ見出し)
+  if (result.summary) {
+    for (const mapping of result.template.notionProperties) {
+      const value = result.summary[mapping.field];
+      if (!value || !value.trim()) continue;
+      blocks.push({ type: 'divider' });
+      blocks.push(section(`*${mapping.property}*\n${value.trim()}`));
+    }
+  }
+
+  if (result.actionItems.length > 0) {
+    const lines = result.actionItems.slice(0, MAX_ACTION_ITEMS).map((item) => {
+      const meta = [item.assignee, item.dueDate || item.dueDateText].filter(Boolean).join(' / ');
+      return `• ${item.description}${meta ? ` (${meta})` : ''}`;
+    });
+    if (result.actionItems.length > MAX_ACTION_ITEMS) {
+      lines.push(`…ほか ${result.actionItems.length - MAX_ACTION_ITEMS} 件`);
+    }
+    blocks.push({ type: 'divider' });
+    blocks.push(section(`*アクションアイテム*\n${lines.join('\n')}`));
+  }
+
+  const actions: ActionsBlock = {
+    type: 'actions',
+    elements: [
+      {
+        type: 'static_select',
+        placeholder: { type: 'plain_text', text: 'テンプレートを変えて再要約…' },
+        action_id: TASK_ACTION_IDS.resummarize,
+        options: SUMMARY_TEMPLATE_NAMES.map((name) => ({
+          text: { type: 'plain_text' as const, text: getSummaryTemplate(name).label },
+          value: `${result.taskId}:${name}`,
+        })),
+      },
+      editMetadataButton(result.taskId),
+    ],
+  };
+  const footer = context(`「${result.fileName}」 タスクID: \`${result.taskId}\``);
+  // ブロック数の上限を超える場合は要約の後半を省略する
+  const trimmed = blocks.length + 2 > MAX_BLOCKS ? [...blocks.slice(0, MAX_BLOCKS - 3), context('…(続きは Notion を参照)')] : blocks;
+  return { text: `:white_check_mark: ${title} の要約が完了しました`, blocks: [...trimmed, actions, footer] };
+}
+
+// クライアント名・担当者名・会議日を修正するモーダル (現在の値を初期値にする)
+export function buildEditMetadataModal(taskId: string, current: TaskMetadata): ModalView {
+  return {
+    type: 'modal',
+    callback_id: EDIT_METADATA_CALLBACK_ID,
+    private_metadata: taskId,
+    title: { type: 'plain_text', text: '会議情報の修正' },
+    submit: { type: 'plain_text', text: '保存して再処理' },
+    close: { type: 'plain_text', text: 'キャンセル' },
+    blocks: [
+      {
+        type: 'input',
+        block_id: EDIT_METADATA_BLOCK_IDS.clientName,
+        optional: true,
+        label: { type: 'plain_text', text: 'クライアント' },
+        element: {
+          type: 'plain_text_input',
+          action_id: EDIT_METADATA_BLOCK_IDS.clientName,
+          ...(current.clientName && { initial_value: current.clientName }),
+        },
+      },
+      {
+        type: 'input',
+        block_id: EDIT_METADATA_BLOCK_IDS.consultantName,
+        optional: true,
+        label: { type: 'plain_text', text: '担当' },
+        element: {
+          type: 'plain_text_input',
+          action_id: EDIT_METADATA_BLOCK_IDS.consultantName,
+          ...(current.consultantName && { initial_value: current.consultantName }),
+        },
+      },
+      {
+        type: 'input',
+        block_id: EDIT_METADATA_BLOCK_IDS.meetingDate,
+        optional: true,
+        label: { type: 'plain_text', text: '会議日' },
+        element: {
+          type: 'datepicker',
+          action_id: EDIT_METADATA_BLOCK_IDS.meetingDate,
+          ...(current.meetingDate && { initial_date: current.meetingDate }),
+        },
+      },
+      context('保存すると、会議日を変えた場合は要約から、それ以外は Notion への書き込みからやり直します。'),
+    ],
+  };
+}
@@ -0,0 +1,272 @@
+// Slack のスラッシュコマンド /mtglog の処理 (/api/slack/commands から呼ばれる)
+// 応答は実行したユーザーにのみ表示される ephemeral メッセージ (Block Kit) で返す
+// 再実行・再要約は通知メッセージのボタン (slack-interactions.ts) からも同じ処理で行う
+import type { KnownBlock } from '@slack/web-api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PipelineDeps } from './pipeline/process-task';
+import { loadStageCheckpoints, PIPELINE_STAGES, PipelineStage, resetStagesFrom } from './pipeline/stages';
+import { enqueueJob, getQueueOptionsFromEnv, loadActiveJob } from './queue/jobs';
+import { isSummaryTemplateName, SUMMARY_TEMPLATE_NAMES, SummaryTemplateName } from './summarization/templates';
+import { canTransitionTaskStatus, TaskStatus } from './task-status';
+import { updateTaskInSupabase } from './tasks';
+import { notionPageUrl } from './notion/links';
+import { context, section } from './slack-blocks';
+
+export interface SlackCommandResponse {
+  response_type: 'ephemeral';
+  text: string; // 通知やブロックを表示できないクライアント向けの代替テキスト
+  blocks: KnownBlock[];
+}
+
+export interface SlackCommandResult {
+  response: SlackCommandResponse;
+  runWorker: boolean; // ジョブを登録したため、応答後にワーカーを動かす
+}
+
+const LIST_LIMIT = 10;
+const SEARCH_LIMIT = 10;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const HELP_TEXT = [
+  '*使い方*',
+  '`/mtglog status <タスクID>` 処理状況を表示',
+  '`/mtglog retry <タスクID>` 失敗したタスクを未完了の段階から再実行',
+  '`/mtglog list` このチャンネルの最近のタスクとステータスを表示',
+  '`/mtglog search <キーワード>` このチャンネルのタスクを要約から検索',
+  `\`/mtglog resummarize <タスクID> <テンプレート>\` テンプレートを変えて要約し直す (${SUMMARY_TEMPLATE_NAMES.join(', ')})`,
+].join('\n');
+
+const STATUS_EMOJI: Partial<Record<TaskStatus, string>> = {
+  upload_pending: ':inbox_tray:',
+  uploaded: ':inbox_tray:',
+  queued: ':hourglass_flowing_sand:',
+  processing_in_vercel: ':gear:',
+  transcribed_in_vercel: ':gear:',
+  summarized_in_vercel: ':gear:',
+  retry_scheduled: ':repeat:',
+  completed: ':white_check_mark:',
+  failed_in_vercel: ':x:',
+  upload_failed: ':x:',
+  function_error: ':x:',
+};
+
+interface TaskRow {
+  id: string;
+  status: TaskStatus;
+  storage_path: string | null;
+  original_file_name: string | null;
+  client_name: string | null;
+  meeting_date: string | null;
+  summary_template: string | null;
+  summary_result: string | null;
+  notion_page_id: string | null;
+  error_message: string | null;
+  updated_at: string;
+}
+
+function reply(text: string, blocks: KnownBlock[] = [section(text)], runWorker = false): SlackCommandResult {
+  return { response: { response_type: 'ephemeral', text, blocks }, runWorker };
+}
+
+function formatStatus(status: TaskStatus): string {
+  return `${STATUS_EMOJI[status] || ':grey_question:'} \`${status}\``;
+}
+
+function meetingTitle(task: TaskRow): string | null {
+  if (!task.summary_result) return null;
+  try {
+    const summary = JSON.parse(task.summary_result) as { meeting_title?: unknown };
+    return typeof summary.meeting_title === 'string' && summary.meeting_title ? summary.meeting_title : null;
+  } catch {
+    return null;
+  }
+}
+
+function describeTask(task: TaskRow): string {
+  const title = meetingTitle(task) || task.original_file_name || task.storage_path || task.id;
+  const details = [task.client_name, task.meeting_date].filter(Boolean).join(' / ');
+  const notionLinks = (task.notion_page_id || '').split(',').filter(Boolean)
+    .map((pageId, i) => `<${notionPageUrl(pageId)}|Notion${i > 0 ? ` ${i + 1}` : ''}>`);
+  return [`*${title}*${details ? ` (${details})` : ''}`, [formatStatus(task.status), ...notionLinks].join('  '), `\`${task.id}\``].join('\n');
+}
+
+const TASK_COLUMNS = 'id, status, storage_path, original_file_name, client_name, meeting_date, summary_template, summary_result, notion_page_id, error_message, updated_at';
+
+async function loadTask(supabase: SupabaseClient, taskId: string): Promise<TaskRow | null> {
+  const { data, error } = await supabase
+    .from('transcription_tasks')
+    .select(TASK_COLUMNS)
+    .eq('id', taskId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load task ${taskId}: ${error.message}`);
+  }
+  return data as TaskRow | null;
+}
+
+async function statusCommand(deps: PipelineDeps, task: TaskRow): Promise<SlackCommandResult> {
+  const checkpoints = await loadStageCheckpoints(deps.supabase, task.id);
+  const activeJob = await loadActiveJob(deps.supabase, task.id);
+  const stages = PIPELINE_STAGES
+    .map((stage) => `${checkpoints[stage] ? ':white_check_mark:' : ':white_circle:'} ${stage}`)
+    .join('  ');
+  const blocks: KnownBlock[] = [section(describeTask(task)), context(stages)];
+  if (activeJob) {
+    blocks.push(context(`ジョブ: \`${activeJob.status}\` (試行 ${activeJob.attempts}/${activeJob.max_attempts}, 実行予定 ${activeJob.run_at})`));
+  }
+  if (task.error_message) {
+    blocks.push(section(`:warning: ${task.error_message}`));
+  }
+  return reply(`${task.id}: ${task.status}`, blocks);
+}
+
+// ジョブを登録して、応答後にワーカーで処理させる
+async function enqueueTask(deps: PipelineDeps, task: TaskRow, label: string): Promise<SlackCommandResult> {
+  if (!task.storage_path) {
+    // Storage への保存に失敗したタスクは upload_pending に戻すと、DB トリガーが保存のジョブを登録し直す
+    if (task.status === 'upload_failed') {
+      await updateTaskInSupabase(deps.supabase, task.id, 'upload_pending');
+      console.log(`[Slack Command] ${label} task ${task.id}: upload requeued.`);
+      return reply(`:repeat: タスク \`${task.id}\` の動画の保存をやり直します。`, undefined, true);
+    }
+    return reply(`タスク \`${task.id}\` の動画はまだ Storage に保存されていません (${task.status})。`);
+  }
+  const job = await enqueueJob(deps.supabase, task.id, 'process_task', { storagePath: task.storage_path }, getQueueOptionsFromEnv());
+  if (task.status !== 'queued' && canTransitionTaskStatus(task.status, 'queued')) {
+    await updateTaskInSupabase(deps.supabase, task.id, 'queued');
+  }
+  console.log(`[Slack Command] ${label} task ${task.id} as job ${job.id} (status: ${job.status}).`);
+  return reply(`:repeat: タスク \`${task.id}\` を${label}キューに登録しました (ジョブ \`${job.status}\`)。`, undefined, true);
+}
+
+async function retryCommand(deps: PipelineDeps, task: TaskRow): Promise<SlackCommandResult> {
+  const activeJob = await loadActiveJob(deps.supabase, task.id);
+  if (activeJob) {
+    return reply(`タスク \`${task.id}\` はすでに処理待ちまたは処理中です (ジョブ \`${activeJob.status}\`)。`);
+  }
+  if (task.status === 'completed') {
+    return reply(`タスク \`${task.id}\` は完了しています。要約し直す場合は \`/mtglog resummarize ${task.id} <テンプレート>\` を使ってください。`);
+  }
+  return enqueueTask(deps, task, '再実行の');
+}
+
+// 処理中にチェックポイントを消すと結果が混ざるため、未完了のジョブがある間は受け付けない
+async function busyReply(deps: PipelineDeps, task: TaskRow): Promise<SlackCommandResult | null> {
+  const activeJob = await loadActiveJob(deps.supabase, task.id);
+  if (!activeJob) return null;
+  return reply(`タスク \`${task.id}\` は処理待ちまたは処理中です (ジョブ \`${activeJob.status}\`)。完了後にもう一度実行してください。`);
+}
+
+async function resummarizeCommand(deps: PipelineDeps, task: TaskRow, templateName: SummaryTemplateName): Promise<SlackCommandResult> {
+  const busy = await busyReply(deps, task);
+  if (busy) return busy;
+  const { error } = await deps.supabase
+    .from('transcription_tasks')
+    .update({ summary_template: templateName })
+    .eq('id', task.id);
+  if (error) {
+    throw new Error(`Failed to update summary template of task ${task.id}: ${error.message}`);
+  }
+  await resetStagesFrom(deps.supabase, task.id, 'summarize');
+  return enqueueTask(deps, task, `テンプレート \`${templateName}\` での再要約の`);
+}
+
+async function withTask(deps: PipelineDeps, taskId: string, fn: (task: TaskRow) => Promise<SlackCommandResult>): Promise<SlackCommandResult> {
+  const task = await loadTask(deps.supabase, taskId);
+  if (!task) return reply(`タスク \`${taskId}\` は見つかりませんでした。`);
+  return fn(task);
+}
+
+export async function retryTaskById(deps: PipelineDeps, taskId: string): Promise<SlackCommandResult> {
+  return withTask(deps, taskId, (task) => retryCommand(deps, task));
+}
+
+export async function resummarizeTaskById(deps: PipelineDeps, taskId: string, templateName: SummaryTemplateName): Promise<SlackCommandResult> {
+  return withTask(deps, taskId, (task) => resummarizeCommand(deps, task, templateName));
+}
+
+// 指定した段階以降をやり直す (会議情報を修正した後など)
+export async function rerunTaskFromStage(deps: PipelineDeps, taskId: string, fromStage: PipelineStage): Promise<SlackCommandResult> {
+  return withTask(deps, taskId, async (task) => {
+    const busy = await busyReply(deps, task);
+    if (busy) return busy;
+    await resetStagesFrom(deps.supabase, task.id, fromStage);
+    return enqueueTask(deps, task, `${fromStage} からの再実行の`);
+  });
+}
+
+// 一覧・検索は、コマンドを実行したチャンネルで共有されたタスクに限る (他のチャンネルの会議の内容を表示しないため)
+async function listCommand(deps: PipelineDeps, channelId: string): Promise<SlackCommandResult> {
+  const { data, error } = await deps.supabase
+    .from('transcription_tasks')
+    .select(TASK_COLUMNS)
+    .eq('slack_channel_id', channelId)
+    .order('updated_at', { ascending: false })
+    .limit(LIST_LIMIT);
+  if (error) {
+    throw new Error(`Failed to list tasks: ${error.message}`);
+  }
+  const tasks = (data || []) as TaskRow[];
+  if (tasks.length === 0) return reply('このチャンネルのタスクはまだありません。');
+  return reply(`最近のタスク ${tasks.length} 件`, [
+    section(`*このチャンネルの最近のタスク (${tasks.length} 件)*`),
+    ...tasks.map((task) => section(describeTask(task))),
+  ]);
+}
+
+// LIKE のワイルドカードとして解釈されないようにエスケープする
+function escapeLikePattern(keyword: string): string {
+  return keyword.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+async function searchCommand(deps: PipelineDeps, channelId: string, keyword: string): Promise<SlackCommandResult> {
+  const { data, error } = await deps.supabase
+    .from('transcription_tasks')
+    .select(TASK_COLUMNS)
+    .eq('slack_channel_id', channelId)
+    .ilike('summary_result', `%${escapeLikePattern(keyword)}%`)
+    .order('updated_at', { ascending: false })
+    .limit(SEARCH_LIMIT);
+  if (error) {
+    throw new Error(`Failed to search summaries: ${error.message}`);
+  }
+  const tasks = (data || []) as TaskRow[];
+  if (tasks.length === 0) return reply(`このチャンネルに「${keyword}」を含む要約は見つかりませんでした。`);
+  return reply(`「${keyword}」の検索結果 ${tasks.length} 件`, [
+    section(`*「${keyword}」を含む要約 (${tasks.length} 件${tasks.length === SEARCH_LIMIT ? '、新しい順に上限まで表示' : ''})*`),
+    ...tasks.map((task) => section(describeTask(task))),
+  ]);
+}
+
+// コマンドのテキスト (例: "status 0b8f...") を解釈して実行する。channelId はコマンドを実行したチャンネル
+export async function handleMtglogCommand(deps: PipelineDeps, text: string, channelId: string | null): Promise<SlackCommandResult> {
+  const [subcommand, ...args] = text.trim().split(/\s+/).filter(Boolean);
+  switch (subcommand) {
+    case 'list':
+      if (!channelId) return reply('チャンネルが分からないため、タスクを表示できません。');
+      return listCommand(deps, channelId);
+    case 'search': {
+      const keyword = args.join(' ');
+      if (!keyword) return reply(`検索キーワードを指定してください。\n${HELP_TEXT}`);
+      if (!channelId) return reply('チャンネルが分からないため、要約を検索できません。');
+      return searchCommand(deps, channelId, keyword);
+    }
+    case 'status':
+    case 'retry':
+    case 'resummarize': {
+      const taskId = args[0];
+      if (!taskId || !UUID_PATTERN.test(taskId)) {
+        return reply(`タスクID (UUID) を指定してください。\n${HELP_TEXT}`);
+      }
+      if (subcommand === 'status') return withTask(deps, taskId, (task) => statusCommand(deps, task));
+      if (subcommand === 'retry') return retryTaskById(deps, taskId);
+      const templateName = args[1];
+      if (!isSummaryTemplateName(templateName)) {
+        return reply(`テンプレートを指定してください: ${SUMMARY_TEMPLATE_NAMES.map((name) => `\`${name}\``).join(', ')}`);
+      }
+      return resummarizeTaskById(deps, taskId, templateName);
+    }
+    default:
+      return reply(HELP_TEXT);
+  }
+}
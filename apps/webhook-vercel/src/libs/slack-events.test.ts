@@ -0,0 +1,89 @@
+// Slack イベントの重複排除 (record_slack_event) と、エラー・途中終了した記録の解放を PGlite 上で確認する
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestDatabase, TestDatabase } from '../test/database';
+import { recordSlackEvent, SlackEventReceipt } from './slack-events';
+
+const STALE_SECONDS = 900;
+
+let testDb: TestDatabase;
+
+function receipt(eventId: string, slackFileId: string | null = 'F1'): SlackEventReceipt {
+  return { eventId, eventType: 'file_shared', slackFileId, channelId: 'C1', retryNum: null };
+}
+
+function record(eventId: string, slackFileId?: string | null) {
+  return recordSlackEvent(testDb.supabase, receipt(eventId, slackFileId), STALE_SECONDS);
+}
+
+// 応答後の処理の結果を記録する (finishSlackEvent と同じ列を更新する)
+async function finish(eventId: string, result: { error?: string; rejectionReason?: string }): Promise<void> {
+  await testDb.db.query(
+    'update public.slack_events set error = $2, rejection_reason = $3, processed_at = now() where event_id = $1',
+    [eventId, result.error ?? null, result.rejectionReason ?? null]
+  );
+}
+
+async function receivedSecondsAgo(eventId: string, seconds: number): Promise<void> {
+  await testDb.db.query(
+    'update public.slack_events set received_at = now() - make_interval(secs => $2) where event_id = $1',
+    [eventId, seconds]
+  );
+}
+
+async function eventIds(): Promise<string[]> {
+  const { rows } = await testDb.db.query<{ event_id: string }>('select event_id from public.slack_events order by event_id');
+  return rows.map((row) => row.event_id);
+}
+
+before(async () => {
+  testDb = await createTestDatabase(['20261019001700', '20261019001800', '20261019002300']);
+});
+
+after(async () => {
+  await testDb.db.close();
+});
+
+beforeEach(async () => {
+  await testDb.db.exec('delete from public.slack_events;');
+});
+
+describe('recordSlackEvent', () => {
+  test('ignores a redelivered event and another event for the same file', async () => {
+    assert.deepEqual(await record('Ev1'), { recorded: true });
+    assert.deepEqual(await record('Ev1'), { recorded: false, duplicateOf: 'event_id' });
+    assert.deepEqual(await record('Ev2'), { recorded: false, duplicateOf: 'slack_file_id' });
+    assert.deepEqual(await record('Ev3', null), { recorded: true });
+    assert.deepEqual(await eventIds(), ['Ev1', 'Ev3']);
+  });
+
+  test('accepts the event or file again when the earlier processing ended with an error', async () => {
+    await record('Ev1');
+    await finish('Ev1', { error: 'files.info failed' });
+
+    assert.deepEqual(await record('Ev2'), { recorded: true });
+    assert.deepEqual(await eventIds(), ['Ev2']);
+  });
+
+  test('accepts the file again when the earlier processing never finished within the stale period', async () => {
+    await record('Ev1');
+    await receivedSecondsAgo('Ev1', STALE_SECONDS - 60);
+    assert.deepEqual(await record('Ev2'), { recorded: false, duplicateOf: 'slack_file_id' });
+
+    await receivedSecondsAgo('Ev1', STALE_SECONDS + 60);
+    assert.deepEqual(await record('Ev1'), { recorded: true });
+    assert.deepEqual(await eventIds(), ['Ev1']);
+  });
+
+  test('keeps finished events without an error as duplicates however old they are', async () => {
+    await record('Ev1', 'F1');
+    await finish('Ev1', {});
+    await record('Ev2', 'F2');
+    await finish('Ev2', { rejectionReason: 'unsupported_type' });
+    await receivedSecondsAgo('Ev1', STALE_SECONDS * 10);
+    await receivedSecondsAgo('Ev2', STALE_SECONDS * 10);
+
+    assert.deepEqual(await record('Ev3', 'F1'), { recorded: false, duplicateOf: 'slack_file_id' });
+    assert.deepEqual(await record('Ev2', 'F2'), { recorded: false, duplicateOf: 'event_id' });
+  });
+});
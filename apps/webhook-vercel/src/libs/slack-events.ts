@@ -0,0 +1,69 @@
+// 受信した Slack イベントの記録 (slack_events テーブル) による重複排除
+// event_id と slack_file_id の一意制約に違反したイベントは、再送または処理済みのファイルとして無視する
+// ただしタスクの作成がエラーで終わった、または途中で終了して結果が記録されなかったイベント・ファイルは、次の配信 (再送や共有し直し) で処理し直す
+// 判定は DB 側の関数で行う (supabase/migrations/20261019002300_create_record_slack_event.sql)
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { readPositiveNumberEnv } from './env';
+import type { MediaRejectionReason } from './media-validation';
+
+// 結果が記録されないままこの時間が過ぎた記録は、応答後の処理が途中で終了したものとみなす
+// (Vercel の関数の実行時間の上限より長くし、処理中のイベントを受け付け直さないようにする)
+const DEFAULT_STALE_MINUTES = 15;
+const SLACK_EVENT_STALE_SECONDS = Math.round(readPositiveNumberEnv('SLACK_EVENT_STALE_MINUTES', DEFAULT_STALE_MINUTES) * 60);
+
+export interface SlackEventReceipt {
+  eventId: string;
+  eventType: string;
+  slackFileId: string | null;
+  channelId: string | null;
+  retryNum: number | null;
+}
+
+export type SlackEventRecordResult = { recorded: true } | { recorded: false; duplicateOf: string };
+
+// 初めてのイベントなら記録する。重複の場合は一致した制約 (event_id または slack_file_id) を返す。
+// 前回の処理がエラーで終わった、または途中で終了したイベント・ファイルは、記録を消して受け付け直す
+export async function recordSlackEvent(
+  supabase: SupabaseClient,
+  receipt: SlackEventReceipt,
+  staleSeconds: number = SLACK_EVENT_STALE_SECONDS
+): Promise<SlackEventRecordResult> {
+  const { data, error } = await supabase.rpc('record_slack_event', {
+    p_event_id: receipt.eventId,
+    p_event_type: receipt.eventType,
+    p_slack_file_id: receipt.slackFileId,
+    p_channel_id: receipt.channelId,
+    p_retry_num: receipt.retryNum,
+    p_stale_seconds: staleSeconds,
+  });
+  if (error || !data) {
+    throw new Error(`Failed to record Slack event ${receipt.eventId}: ${error?.message}`);
+  }
+  const result = data as { recorded: boolean; released: number; duplicate_of?: string };
+  if (result.released > 0) {
+    console.log(`[Slack Events] Released ${result.released} failed or abandoned record(s) of event ${receipt.eventId} (file ${receipt.slackFileId}).`);
+  }
+  if (result.recorded) return { recorded: true };
+  return { recorded: false, duplicateOf: result.duplicate_of || 'event_id' };
+}
+
+// 応答後の処理の結果 (作成したタスク、受け付け時の検証で断った理由、またはエラー) を記録する
+// エラーを記録したイベント (と、記録しないまま時間が過ぎたイベント) は recordSlackEvent で受け付け直せる
+export async function finishSlackEvent(
+  supabase: SupabaseClient,
+  eventId: string,
+  result: { taskId: string } | { rejectionReason: MediaRejectionReason } | { error: string }
+): Promise<void> {
+  const { error } = await supabase
+    .from('slack_events')
+    .update({
+      task_id: 'taskId' in result ? result.taskId : null,
+      rejection_reason: 'rejectionReason' in result ? result.rejectionReason : null,
+      error: 'error' in result ? result.error : null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('event_id', eventId);
+  if (error) {
+    console.error(`[Slack Events] Failed to record result of event ${eventId}:`, error.message);
+  }
+}
@@ -0,0 +1,193 @@
+// 通知メッセージのボタン・モーダルの操作 (/api/slack/interactions から呼ばれる)
+// 再実行・再要約は /mtglog と同じ処理 (slack-commands.ts) で行い、結果は押したユーザーにのみ ephemeral で返す
+import type { PipelineDeps } from './pipeline/process-task';
+import type { PipelineStage } from './pipeline/stages';
+import { loadActiveJob } from './queue/jobs';
+import { isSummaryTemplateName } from './summarization/templates';
+import { parseDateToISO } from './date';
+import {
+  buildEditMetadataModal,
+  EDIT_METADATA_BLOCK_IDS,
+  EDIT_METADATA_CALLBACK_ID,
+  section,
+  TASK_ACTION_IDS,
+  TaskMetadata,
+} from './slack-blocks';
+import { rerunTaskFromStage, resummarizeTaskById, retryTaskById, SlackCommandResponse, SlackCommandResult } from './slack-commands';
+import { getSlackClient } from './slack-thread';
+
+interface BlockAction {
+  action_id: string;
+  value?: string;
+  selected_option?: { value: string };
+}
+
+interface ViewStateValue {
+  value?: string | null;
+  selected_date?: string | null;
+}
+
+// 必要な項目のみ (https://api.slack.com/reference/interaction-payloads)
+export interface SlackInteractionPayload {
+  type: string; // block_actions, view_submission など
+  user?: { id: string };
+  trigger_id?: string;
+  response_url?: string;
+  actions?: BlockAction[];
+  view?: {
+    callback_id?: string;
+    private_metadata?: string;
+    state?: { values: Record<string, Record<string, ViewStateValue>> };
+  };
+}
+
+export interface SlackInteractionResult {
+  response: Record<string, unknown> | null; // HTTP 応答の本文 (モーダルの入力エラーなど)。null の場合は空で 200 を返す
+  runWorker: boolean; // ジョブを登録したため、応答後にワーカーを動かす
+}
+
+const NO_RESPONSE: SlackInteractionResult = { response: null, runWorker: false };
+
+// ボタンを押したユーザーにのみ結果を表示する (元のメッセージは置き換えない)
+function ephemeral(text: string): SlackCommandResponse {
+  return { response_type: 'ephemeral', text, blocks: [section(text)] };
+}
+
+async function postToResponseUrl(responseUrl: string | undefined, response: SlackCommandResponse): Promise<void> {
+  if (!responseUrl) return;
+  try {
+    const res = await fetch(responseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...response, replace_original: false }),
+    });
+    if (!res.ok) {
+      console.error(`[Slack Interaction] Failed to post to response_url: ${res.status} ${res.statusText}`);
+    }
+  } catch (e: unknown) {
+    console.error('[Slack Interaction] Failed to post to response_url:', (e instanceof Error) ? e.message : String(e));
+  }
+}
+
+async function loadTaskMetadata(deps: PipelineDeps, taskId: string): Promise<TaskMetadata | null> {
+  const { data, error } = await deps.supabase
+    .from('transcription_tasks')
+    .select('client_name, consultant_name, meeting_date')
+    .eq('id', taskId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load task ${taskId}: ${error.message}`);
+  }
+  if (!data) return null;
+  return {
+    clientName: data.client_name as string | null,
+    consultantName: data.consultant_name as string | null,
+    meetingDate: parseDateToISO(data.meeting_date as string | null) ?? null,
+  };
+}
+
+async function openEditMetadataModal(deps: PipelineDeps, taskId: string, triggerId: string | undefined): Promise<SlackCommandResult | null> {
+  const client = getSlackClient();
+  if (!client || !triggerId) {
+    throw new Error('Cannot open modal: SLACK_BOT_TOKEN is not set or trigger_id is missing.');
+  }
+  const metadata = await loadTaskMetadata(deps, taskId);
+  if (!metadata) {
+    return { response: ephemeral(`タスク \`${taskId}\` は見つかりませんでした。`), runWorker: false };
+  }
+  await client.views.open({ trigger_id: triggerId, view: buildEditMetadataModal(taskId, metadata) });
+  return null;
+}
+
+async function handleBlockAction(deps: PipelineDeps, payload: SlackInteractionPayload, action: BlockAction): Promise<SlackCommandResult | null> {
+  switch (action.action_id) {
+    case TASK_ACTION_IDS.retry:
+      return action.value ? retryTaskById(deps, action.value) : null;
+    case TASK_ACTION_IDS.resummarize: {
+      const [taskId, templateName] = (action.selected_option?.value || '').split(':');
+      if (!taskId || !isSummaryTemplateName(templateName)) return null;
+      return resummarizeTaskById(deps, taskId, templateName);
+    }
+    case TASK_ACTION_IDS.editMetadata:
+      return action.value ? openEditMetadataModal(deps, action.value, payload.trigger_id) : null;
+    default:
+      // Notion を開くボタンなど、アプリ側の処理が不要な操作
+      return null;
+  }
+}
+
+function inputValue(payload: SlackInteractionPayload, blockId: string): ViewStateValue | undefined {
+  return payload.view?.state?.values[blockId]?.[blockId];
+}
+
+function normalizeText(value: string | null | undefined): string | null {
+  const trimmed = (value || '').trim();
+  return trimmed ? trimmed : null;
+}
+
+// モーダルで修正した会議情報を保存し、会議日を変えた場合は要約 (期日の解釈に使う) から、それ以外は Notion への書き込みからやり直す
+async function handleEditMetadataSubmission(deps: PipelineDeps, payload: SlackInteractionPayload): Promise<SlackInteractionResult> {
+  const taskId = payload.view?.private_metadata;
+  if (!taskId) return NO_RESPONSE;
+  const current = await loadTaskMetadata(deps, taskId);
+  if (!current) return NO_RESPONSE;
+
+  const updated: TaskMetadata = {
+    clientName: normalizeText(inputValue(payload, EDIT_METADATA_BLOCK_IDS.clientName)?.value),
+    consultantName: normalizeText(inputValue(payload, EDIT_METADATA_BLOCK_IDS.consultantName)?.value),
+    meetingDate: inputValue(payload, EDIT_METADATA_BLOCK_IDS.meetingDate)?.selected_date || null,
+  };
+  const meetingDateChanged = updated.meetingDate !== current.meetingDate;
+  if (!meetingDateChanged && updated.clientName === current.clientName && updated.consultantName === current.consultantName) {
+    return NO_RESPONSE;
+  }
+
+  const activeJob = await loadActiveJob(deps.supabase, taskId);
+  if (activeJob) {
+    return {
+      response: {
+        response_action: 'errors',
+        errors: { [EDIT_METADATA_BLOCK_IDS.clientName]: `処理待ちまたは処理中のため修正できません (ジョブ ${activeJob.status})。完了後にもう一度実行してください。` },
+      },
+      runWorker: false,
+    };
+  }
+
+  const { error } = await deps.supabase
+    .from('transcription_tasks')
+    .update({
+      client_name: updated.clientName,
+      consultant_name: updated.consultantName,
+      meeting_date: updated.meetingDate,
+    })
+    .eq('id', taskId);
+  if (error) {
+    throw new Error(`Failed to update metadata of task ${taskId}: ${error.message}`);
+  }
+  const fromStage: PipelineStage = meetingDateChanged ? 'summarize' : 'publish';
+  console.log(`[Slack Interaction] User ${payload.user?.id} updated metadata of task ${taskId}. Rerunning from ${fromStage}.`);
+  const result = await rerunTaskFromStage(deps, taskId, fromStage);
+  return { response: null, runWorker: result.runWorker };
+}
+
+export async function handleSlackInteraction(deps: PipelineDeps, payload: SlackInteractionPayload): Promise<SlackInteractionResult> {
+  if (payload.type === 'view_submission' && payload.view?.callback_id === EDIT_METADATA_CALLBACK_ID) {
+    return handleEditMetadataSubmission(deps, payload);
+  }
+  if (payload.type !== 'block_actions' || !payload.actions || payload.actions.length === 0) {
+    return NO_RESPONSE;
+  }
+
+  const action = payload.actions[0];
+  try {
+    const result = await handleBlockAction(deps, payload, action);
+    if (!result) return NO_RESPONSE;
+    await postToResponseUrl(payload.response_url, result.response);
+    return { response: null, runWorker: result.runWorker };
+  } catch (e: unknown) {
+    const errorMessage = (e instanceof Error) ? e.message : String(e);
+    console.error(`[Slack Interaction] Failed to handle ${action.action_id}:`, errorMessage);
+    await postToResponseUrl(payload.response_url, ephemeral(`:x: 操作に失敗しました: ${errorMessage}`));
+    return NO_RESPONSE;
+  }
+}
@@ -0,0 +1,37 @@
+// Slack からのリクエストの署名 (X-Slack-Signature) 検証
+// https://api.slack.com/authentication/verifying-requests-from-slack
+import crypto from 'node:crypto';
+import { Buffer } from 'node:buffer';
+
+// リプレイ攻撃を防ぐため、タイムスタンプが5分より古いリクエストは拒否する
+const MAX_REQUEST_AGE_SECONDS = 60 * 5;
+
+export type SlackSignatureResult = 'valid' | 'missing_headers' | 'expired' | 'invalid';
+
+export function verifySlackSignature(
+  signingSecret: string,
+  headers: Headers,
+  rawBody: string
+): SlackSignatureResult {
+  const signature = headers.get('x-slack-signature');
+  const timestamp = headers.get('x-slack-request-timestamp');
+  if (!signature || !timestamp) {
+    return 'missing_headers';
+  }
+
+  const oldestAllowed = Math.floor(Date.now() / 1000) - MAX_REQUEST_AGE_SECONDS;
+  if (parseInt(timestamp, 10) < oldestAllowed) {
+    return 'expired';
+  }
+
+  const sigBasestring = `v0:${timestamp}:${rawBody}`;
+  const mySignature = `v0=${crypto
+    .createHmac('sha256', signingSecret)
+    .update(sigBasestring, 'utf8')
+    .digest('hex')}`;
+
+  // timingSafeEqual は長さが異なると例外を投げるため先に比較する
+  const expected = Buffer.from(mySignature, 'utf8');
+  const received = Buffer.from(signature, 'utf8');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received) ? 'valid' : 'invalid';
+}
@@ -0,0 +1,146 @@
+// タスクごとの Slack ステータスメッセージ
+// 動画が共有されたメッセージのスレッドに1つだけ返信し、以降の進捗・完了・失敗はそのメッセージを更新して表示する
+import process from "node:process";
+import { WebClient } from '@slack/web-api';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createTaskArtifactLinks } from './artifacts';
+import type { PipelineStage } from './pipeline/stages';
+import { loadActionItems } from './summarization/action-items';
+import { getSummaryTemplate } from './summarization/templates';
+import type { StructuredSummary } from './summarization/types';
+import { buildProgressMessage, SlackMessage, TaskResultForSlack } from './slack-blocks';
+import type { TaskCompletedNotification } from './task-notification';
+
+const SLACK_BOT_TOKEN = process.env.SLACK_BOT_TOKEN;
+// 共有されたチャンネルが分からないタスク (チャンネル情報を保存する前に作成されたタスクなど) の通知先
+const SLACK_CHANNEL_ID = process.env.SLACK_CHANNEL_ID;
+
+let slackClient: WebClient | null = null;
+
+export function getSlackClient(): WebClient | null {
+  if (!SLACK_BOT_TOKEN) return null;
+  if (!slackClient) slackClient = new WebClient(SLACK_BOT_TOKEN);
+  return slackClient;
+}
+
+interface TaskSlackThread {
+  channelId: string | null;
+  threadTs: string | null;
+  statusChannelId: string | null;
+  statusMessageTs: string | null;
+}
+
+async function loadTaskSlackThread(supabase: SupabaseClient, taskId: string): Promise<TaskSlackThread> {
+  const { data, error } = await supabase
+    .from('transcription_tasks')
+    .select('slack_channel_id, slack_thread_ts, slack_status_channel_id, slack_status_message_ts')
+    .eq('id', taskId)
+    .single();
+  if (error || !data) {
+    throw new Error(`Failed to load Slack thread of task ${taskId}: ${error?.message}`);
+  }
+  return {
+    channelId: data.slack_channel_id as string | null,
+    threadTs: data.slack_thread_ts as string | null,
+    statusChannelId: data.slack_status_channel_id as string | null,
+    statusMessageTs: data.slack_status_message_ts as string | null,
+  };
+}
+
+// posted: 投稿・更新した / not_configured: トークン・投稿先がないため送らなかった / failed: Slack API の呼び出しに失敗した
+export type SlackStatusPostResult = 'posted' | 'not_configured' | 'failed';
+
+// ステータスメッセージを更新する (まだなければスレッドに投稿する)。
+// 進捗の表示の失敗で処理を止めないよう例外は投げず、結果を返す (完了・失敗の通知では呼び出し元が failed を再試行する)
+export async function postTaskStatusMessage(supabase: SupabaseClient, taskId: string, message: SlackMessage): Promise<SlackStatusPostResult> {
+  const client = getSlackClient();
+  if (!client) {
+    console.warn('SLACK_BOT_TOKEN is not set. Slack status message is not sent:', message.text);
+    return 'not_configured';
+  }
+
+  try {
+    const thread = await loadTaskSlackThread(supabase, taskId);
+    if (thread.statusChannelId && thread.statusMessageTs) {
+      try {
+        await client.chat.update({
+          channel: thread.statusChannelId,
+          ts: thread.statusMessageTs,
+          text: message.text,
+          blocks: message.blocks,
+        });
+        return 'posted';
+      } catch (e: unknown) {
+        // メッセージが削除されていた場合などは新しく投稿し直す
+        console.warn(`[Slack Thread] Failed to update status message of task ${taskId}. Posting a new one:`, (e instanceof Error) ? e.message : String(e));
+      }
+    }
+
+    const channel = thread.channelId || SLACK_CHANNEL_ID;
+    if (!channel) {
+      console.warn(`[Slack Thread] Task ${taskId} has no Slack channel and SLACK_CHANNEL_ID is not set. Message is not sent:`, message.text);
+      return 'not_configured';
+    }
+    const response = await client.chat.postMessage({
+      channel,
+      text: message.text,
+      blocks: message.blocks,
+      // スレッドは共有されたチャンネルでのみ有効 (フォールバック先のチャンネルには通常の投稿になる)
+      ...(thread.threadTs && channel === thread.channelId && { thread_ts: thread.threadTs }),
+      unfurl_links: false,
+    });
+    if (!response.ts) return 'posted';
+
+    const { error } = await supabase
+      .from('transcription_tasks')
+      .update({ slack_status_channel_id: response.channel || channel, slack_status_message_ts: response.ts })
+      .eq('id', taskId);
+    if (error) {
+      console.error(`[Slack Thread] Failed to save status message ts of task ${taskId}:`, error.message);
+    }
+    return 'posted';
+  } catch (e: unknown) {
+    console.error(`[Slack Thread] Failed to post status message of task ${taskId}:`, (e instanceof Error) ? e.message : String(e));
+    return 'failed';
+  }
+}
+
+export async function postTaskProgress(supabase: SupabaseClient, taskId: string, fileName: string, stage: PipelineStage): Promise<void> {
+  await postTaskStatusMessage(supabase, taskId, buildProgressMessage(fileName, stage));
+}
+
+// 完了通知に載せる要約・アクションアイテムを読み込む (Notion ページは通知に含まれる)
+export async function loadTaskResultForSlack(supabase: SupabaseClient, notification: TaskCompletedNotification): Promise<TaskResultForSlack> {
+  const { taskId } = notification;
+  const { data: task, error } = await supabase
+    .from('transcription_tasks')
+    .select('client_name, consultant_name, meeting_date, summary_template, summary_result')
+    .eq('id', taskId)
+    .single();
+  if (error || !task) {
+    throw new Error(`Failed to load task ${taskId} for Slack notification: ${error?.message}`);
+  }
+
+  let summary: StructuredSummary | null = null;
+  if (task.summary_result) {
+    try {
+      summary = JSON.parse(task.summary_result as string) as StructuredSummary;
+    } catch {
+      console.warn(`[Slack Thread] summary_result of task ${taskId} is not valid JSON.`);
+    }
+  }
+
+  return {
+    taskId,
+    fileName: notification.fileName,
+    clientName: task.client_name as string | null,
+    consultantName: task.consultant_name as string | null,
+    meetingDate: task.meeting_date as string | null,
+    summary,
+    template: getSummaryTemplate(task.summary_template as string | null),
+    actionItems: await loadActionItems(supabase, taskId),
+    notionPages: notification.notionPages,
+    notionFailedRoutes: notification.notionFailedRoutes,
+    artifactLinks: await createTaskArtifactLinks(supabase, taskId),
+  };
+}
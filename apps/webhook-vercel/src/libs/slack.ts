@@ -1,3 +1,5 @@
+import process from "node:process";
+import type { TaskNotification } from './task-notification';
 // Slack APIクライアントの初期化や関連する関数をここに記述します
 // const SLACK_BOT_TOKEN = process.env.SLACK_BOT_TOKEN; // 型定義エラーのため一時コメントアウト
 
@@ -7,4 +9,27 @@ export async function postMessage(channel: string, text: string) {
   console.log(`Posting message to ${channel}: ${text}`);
   // console.log(`Posting message to ${channel}: ${text} using token: ${SLACK_BOT_TOKEN ? '********' : 'NOT SET'}`);
   return { ok: true };
-} 
\ No newline at end of file
+}
+
+// /api/slack/notify 経由で処理結果を Slack に通知する。
+// 通知が届かなかった場合は例外を投げる (notify 段階はチェックポイントを保存せず、ジョブが再試行する)
+export async function notifySlack(payload: TaskNotification): Promise<void> {
+  // VERCEL_URL は Vercel のシステム環境変数で、デプロイされたベースURL (https://<project-name>-<unique-hash>-<scope>.vercel.app) が入る
+  // ローカル開発時は VERCEL_URL はセットされないため、フォールバックURLが必要
+  const baseUrl = process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000'; 
+  const notifyUrl = `${baseUrl}/api/slack/notify`;
+
+  console.log(`Sending Slack notification to ${notifyUrl} with payload:`, payload);
+  const response = await fetch(notifyUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`Slack notification for task ${payload.taskId} failed: ${response.status} ${response.statusText} ${errorBody.substring(0, 200)}`);
+  }
+  console.log('Slack notification sent successfully.');
+}
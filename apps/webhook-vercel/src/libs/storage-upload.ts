@@ -0,0 +1,61 @@
+// Slack から受け取った動画の Storage への保存 (Supabase Edge Function の upload_file_to_storage を呼ぶ)
+// upload_file ジョブとしてワーカー (queue/worker.ts) から呼ばれる。保存して storage_path が設定されると DB トリガーが process_task ジョブを登録する
+import process from "node:process";
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { recordProviderCall } from './task-events';
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY;
+// Edge Function の実行時間の上限 (有料プランで 400 秒) より少し長く待つ
+const UPLOAD_TIMEOUT_MS = 420 * 1000;
+
+// 保存先の storage_path を返す
+export async function uploadTaskFileToStorage(supabase: SupabaseClient, taskId: string, attempt?: number): Promise<string> {
+  const { data: task, error } = await supabase
+    .from('transcription_tasks')
+    .select('storage_path, slack_file_id, slack_download_url, original_file_name, mimetype, filetype')
+    .eq('id', taskId)
+    .single();
+  if (error || !task) {
+    throw new Error(`Failed to load task ${taskId} for upload: ${error?.message}`);
+  }
+  // 前回の試行で保存済み (ジョブの完了を記録する前に中断した場合など)
+  if (task.storage_path) {
+    console.log(`[Upload] Task ${taskId} is already stored at ${task.storage_path}.`);
+    return task.storage_path as string;
+  }
+  if (!task.slack_download_url) {
+    throw new Error(`Task ${taskId} has no slack_download_url to upload from.`);
+  }
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('Server configuration error: NEXT_PUBLIC_SUPABASE_URL or SUPABASE_ANON_KEY is not set.');
+  }
+
+  console.log(`[Upload] Calling upload_file_to_storage for task ${taskId} (${task.original_file_name}).`);
+  return recordProviderCall(
+    supabase,
+    taskId,
+    { stage: 'upload', attempt, details: { provider: 'supabase_functions', function: 'upload_file_to_storage' } },
+    async () => {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/upload_file_to_storage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${SUPABASE_ANON_KEY}` },
+        body: JSON.stringify({
+          taskId,
+          slack_file_id: task.slack_file_id,
+          slack_download_url: task.slack_download_url,
+          original_file_name: task.original_file_name || 'unknown_file',
+          mimetype: task.mimetype || 'application/octet-stream',
+          filetype: task.filetype || 'dat',
+        }),
+        signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS),
+      });
+      const body = await response.json().catch(() => ({})) as { storagePath?: unknown; error?: unknown };
+      if (!response.ok || typeof body.storagePath !== 'string') {
+        throw new Error(`upload_file_to_storage failed for task ${taskId}: ${response.status} ${body.error ?? response.statusText}`);
+      }
+      console.log(`[Upload] Task ${taskId} stored at ${body.storagePath}.`);
+      return body.storagePath;
+    }
+  );
+}
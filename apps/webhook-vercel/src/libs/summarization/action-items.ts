@@ -0,0 +1,235 @@
+// 要約と同時に抽出するアクションアイテム (担当者・期日付きのタスク) の型・検証・保存
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { parseDateToISO } from '../date';
+import { formatTimestamp, parseTimestamp } from '../transcription/segments';
+import type { SummaryValidationIssue } from './schema';
+
+// 要約 JSON 中でアクションアイテムの配列を返させるキー
+export const ACTION_ITEMS_KEY = 'action_items';
+
+export interface ActionItem {
+  description: string;
+  assignee: string | null;
+  dueDateText: string | null; // モデルが出力した期日の表記そのまま (例: 6月30日, 来週中)
+  sourceTimestamp: string | null; // 根拠となる発言時刻 (HH:MM:SS)
+}
+
+// 保存時に期日・発言時刻を正規化したアクションアイテム
+export interface StoredActionItem extends ActionItem {
+  index: number;
+  dueDate: string | null; // YYYY-MM-DD。解釈できない表記の場合は null
+  sourceSeconds: number | null;
+}
+
+// action_items テーブルに保存済みのアクションアイテム
+export interface SavedActionItem extends StoredActionItem {
+  id: string;
+  notionPageId: string | null;
+  notionSyncAttempts: number;
+}
+
+// プロンプトに埋め込む JSON の雛形
+export function describeActionItemsAsJson(): string {
+  const example = {
+    description: 'やるべきこと（1件につき1つの具体的な作業）',
+    assignee: '担当者名（文字起こしから判断できない場合は null）',
+    due_date: '期日（YYYY-MM-DD 形式を推奨。判断できない場合は null）',
+    source_timestamp: '根拠となる発言時刻（HH:MM:SS 形式。発言時刻がない場合は null）',
+  };
+  return `[\n    ${JSON.stringify(example)}\n  ]`;
+}
+
+// プロンプト (統合時) に渡すための JSON 表現
+export function actionItemsToJson(items: ActionItem[]): Record<string, string | null>[] {
+  return items.map((item) => ({
+    description: item.description,
+    assignee: item.assignee,
+    due_date: item.dueDateText,
+    source_timestamp: item.sourceTimestamp,
+  }));
+}
+
+function optionalString(value: unknown): string | null {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed && trimmed.toLowerCase() !== 'null' ? trimmed : null;
+  }
+  if (typeof value === 'number') return String(value);
+  return null;
+}
+
+// モデル出力の action_items を検証する。形式が崩れた要素は除外し、検証エラーとして返す
+export function validateActionItems(value: unknown): { items: ActionItem[]; issues: SummaryValidationIssue[] } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { items: [], issues: [] }; // ルートの形式エラーは validateSummary 側で報告される
+  }
+  const raw = (value as Record<string, unknown>)[ACTION_ITEMS_KEY];
+  if (raw === undefined) {
+    return { items: [], issues: [{ field: ACTION_ITEMS_KEY, message: 'Required key is missing. Use [] if there are no action items.' }] };
+  }
+  if (!Array.isArray(raw)) {
+    return { items: [], issues: [{ field: ACTION_ITEMS_KEY, message: 'Expected an array of objects.' }] };
+  }
+
+  const items: ActionItem[] = [];
+  const issues: SummaryValidationIssue[] = [];
+  raw.forEach((entry, i) => {
+    const field = `${ACTION_ITEMS_KEY}[${i}]`;
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      issues.push({ field, message: 'Expected an object.' });
+      return;
+    }
+    const record = entry as Record<string, unknown>;
+    const description = optionalString(record.description);
+    if (!description) {
+      issues.push({ field: `${field}.description`, message: 'Must not be empty.' });
+      return;
+    }
+    const sourceTimestamp = optionalString(record.source_timestamp);
+    if (sourceTimestamp && parseTimestamp(sourceTimestamp.replace(/^\[|\]$/g, '')) === undefined) {
+      issues.push({ field: `${field}.source_timestamp`, message: 'Expected HH:MM:SS or null.' });
+      return;
+    }
+    items.push({
+      description,
+      assignee: optionalString(record.assignee),
+      dueDateText: optionalString(record.due_date),
+      sourceTimestamp: sourceTimestamp ? sourceTimestamp.replace(/^\[|\]$/g, '') : null,
+    });
+  });
+  return { items, issues };
+}
+
+// 期日は会議日を基準に共通の日付パーサで YYYY-MM-DD に変換する (年の省略された「6/30」なども解釈する)
+export function normalizeActionItems(items: ActionItem[], meetingDate?: string | null): StoredActionItem[] {
+  return items.map((item, index) => ({
+    ...item,
+    index,
+    dueDate: parseDateToISO(item.dueDateText, meetingDate) ?? null,
+    sourceSeconds: item.sourceTimestamp ? parseTimestamp(item.sourceTimestamp) ?? null : null,
+  }));
+}
+
+function normalizeKeyPart(value: string | null): string {
+  return (value || '').normalize('NFKC').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// 同じアクションアイテムとみなすキー (内容・担当者・期日。期日は年のある表記なら日付として比べる)
+function actionItemKey(item: ActionItem): string {
+  const dueDate = parseDateToISO(item.dueDateText) ?? normalizeKeyPart(item.dueDateText);
+  return JSON.stringify([normalizeKeyPart(item.description), normalizeKeyPart(item.assignee), dueDate]);
+}
+
+// 部分要約のアクションアイテムを順に並べ、重複 (内容・担当者・期日が同じもの) を除いて1つにする。
+// 統合時のモデル出力に頼ると取りこぼしや言い換えが起きるため、統合要約のアクションアイテムはこの結果を使う
+export function mergeActionItems(lists: ActionItem[][]): ActionItem[] {
+  const merged: ActionItem[] = [];
+  const indexByKey = new Map<string, number>();
+  for (const items of lists) {
+    for (const item of items) {
+      const key = actionItemKey(item);
+      const existing = indexByKey.get(key);
+      if (existing === undefined) {
+        indexByKey.set(key, merged.length);
+        merged.push({ ...item });
+      } else if (!merged[existing].sourceTimestamp && item.sourceTimestamp) {
+        // 先に出たものに発言時刻がなければ、後のものの発言時刻を使う
+        merged[existing].sourceTimestamp = item.sourceTimestamp;
+      }
+    }
+  }
+  return merged;
+}
+
+// 再処理時は前回のアクションアイテムを置き換える。保存した行の id を item_index 順に返す
+export async function saveActionItems(
+  supabase: SupabaseClient,
+  taskId: string,
+  items: StoredActionItem[]
+): Promise<string[]> {
+  const { error: deleteError } = await supabase
+    .from('action_items')
+    .delete()
+    .eq('task_id', taskId);
+  if (deleteError) {
+    throw new Error(`Failed to clear action items for task ${taskId}: ${deleteError.message}`);
+  }
+  if (items.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('action_items')
+    .insert(items.map((item) => ({
+      task_id: taskId,
+      item_index: item.index,
+      description: item.description,
+      assignee: item.assignee,
+      due_date: item.dueDate,
+      due_date_text: item.dueDateText,
+      source_seconds: item.sourceSeconds,
+    })))
+    .select('id, item_index');
+  if (error) {
+    throw new Error(`Failed to save action items for task ${taskId}: ${error.message}`);
+  }
+  console.log(`[Action Items] Saved ${items.length} action item(s) for task ${taskId}`);
+  return (data || [])
+    .sort((a, b) => a.item_index - b.item_index)
+    .map((row) => row.id as string);
+}
+
+// 保存済みのアクションアイテムを item_index 順に読み込む (要約をやり直さずに Notion への書き込みから再開する場合)
+export async function loadActionItems(supabase: SupabaseClient, taskId: string): Promise<SavedActionItem[]> {
+  const { data, error } = await supabase
+    .from('action_items')
+    .select('id, item_index, description, assignee, due_date, due_date_text, source_seconds, notion_page_id, notion_sync_attempts')
+    .eq('task_id', taskId)
+    .order('item_index', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load action items for task ${taskId}: ${error.message}`);
+  }
+  return (data || []).map((row) => ({
+    id: row.id as string,
+    index: row.item_index as number,
+    description: row.description as string,
+    assignee: row.assignee as string | null,
+    dueDate: row.due_date as string | null,
+    dueDateText: row.due_date_text as string | null,
+    sourceSeconds: row.source_seconds as number | null,
+    sourceTimestamp: row.source_seconds !== null ? formatTimestamp(row.source_seconds as number) : null,
+    notionPageId: row.notion_page_id as string | null,
+    notionSyncAttempts: (row.notion_sync_attempts as number | null) ?? 0,
+  }));
+}
+
+// 前回の処理で Notion に作成したタスクページ (再処理時にアーカイブするため、saveActionItems の前に取得する)
+export async function loadActionItemNotionPageIds(supabase: SupabaseClient, taskId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('action_items')
+    .select('notion_page_id')
+    .eq('task_id', taskId)
+    .not('notion_page_id', 'is', null);
+  if (error) {
+    throw new Error(`Failed to load action item Notion pages for task ${taskId}: ${error.message}`);
+  }
+  return (data || []).map((row) => row.notion_page_id as string);
+}
+
+// タスクページの書き込み結果を記録する。失敗した場合も前回のページIDは残し、次回の再試行で更新対象にする
+export async function recordActionItemNotionSync(
+  supabase: SupabaseClient,
+  item: SavedActionItem,
+  result: { pageId: string } | { error: string },
+  attempts: number
+): Promise<void> {
+  const { error } = await supabase
+    .from('action_items')
+    .update({
+      ...('pageId' in result && { notion_page_id: result.pageId }),
+      notion_sync_error: 'error' in result ? result.error : null,
+      notion_sync_attempts: item.notionSyncAttempts + attempts,
+    })
+    .eq('id', item.id);
+  if (error) {
+    console.error(`[Action Items] Failed to record Notion sync of action item ${item.id}:`, error.message);
+  }
+}
@@ -0,0 +1,41 @@
+// 分割要約の途中経過 (部分要約・統合要約) を summary_intermediates テーブルへ保存する
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { actionItemsToJson } from './action-items';
+import type { SummaryIntermediate } from './map-reduce';
+
+// 再処理時に前回の途中経過が混ざらないよう、要約開始前に削除する
+export async function clearSummaryIntermediates(supabase: SupabaseClient, taskId: string): Promise<void> {
+  const { error } = await supabase
+    .from('summary_intermediates')
+    .delete()
+    .eq('task_id', taskId);
+  if (error) {
+    throw new Error(`Failed to clear summary intermediates for task ${taskId}: ${error.message}`);
+  }
+}
+
+export async function saveSummaryIntermediate(
+  supabase: SupabaseClient,
+  taskId: string,
+  intermediate: SummaryIntermediate
+): Promise<void> {
+  console.log(`[Summary Intermediates] Saving ${intermediate.step} level ${intermediate.level} #${intermediate.index} for task ${taskId}`);
+  const { error } = await supabase
+    .from('summary_intermediates')
+    .insert({
+      task_id: taskId,
+      step: intermediate.step,
+      level: intermediate.level,
+      item_index: intermediate.index,
+      start_seconds: intermediate.startSeconds,
+      end_seconds: intermediate.endSeconds,
+      source_chars: intermediate.sourceChars,
+      summary: intermediate.result.summary,
+      action_items: actionItemsToJson(intermediate.result.actionItems),
+      missing_fields: intermediate.result.missingFields,
+      attempts: intermediate.result.attempts,
+    });
+  if (error) {
+    throw new Error(`Failed to save summary intermediate for task ${taskId}: ${error.message}`);
+  }
+}
@@ -0,0 +1,72 @@
+// 分割要約の統合で、アクションアイテムを部分要約から重複を除いてまとめることを確認する
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ActionItem, mergeActionItems } from './action-items';
+import { summarizeWithMapReduce } from './map-reduce';
+import type { SummarizeInput } from './prompt';
+import { getSummaryTemplate } from './templates';
+import type { SummarizeResult, Summarizer, SummaryWithActionItems } from './types';
+
+function item(description: string, assignee: string | null = null, dueDateText: string | null = null, sourceTimestamp: string | null = null): ActionItem {
+  return { description, assignee, dueDateText, sourceTimestamp };
+}
+
+function result(actionItems: ActionItem[]): SummarizeResult {
+  return { summary: { meeting_title: 'title' }, actionItems, missingFields: [], attempts: 1 };
+}
+
+describe('mergeActionItems', () => {
+  test('部分要約の順に並べ、内容・担当者・期日が同じものを1件にする', () => {
+    const merged = mergeActionItems([
+      [item('見積書を送付する', '田中', '2026-10-30'), item('議事録をPDFで共有する', '佐藤')],
+      [item(' 見積書を送付する', '田中 ', '2026/10/30'), item('次回の日程を調整する')],
+      [item('議事録をＰＤＦで共有する', '佐藤'), item('見積書を送付する', '鈴木', '2026-10-30')],
+    ]);
+    assert.deepEqual(merged.map((i) => [i.description, i.assignee, i.dueDateText]), [
+      ['見積書を送付する', '田中', '2026-10-30'],
+      ['議事録をPDFで共有する', '佐藤', null],
+      ['次回の日程を調整する', null, null],
+      ['見積書を送付する', '鈴木', '2026-10-30'],
+    ]);
+  });
+
+  test('期日が異なるものは別のアクションアイテムとして残す', () => {
+    const merged = mergeActionItems([[item('資料を更新する', '田中', '来週中')], [item('資料を更新する', '田中', '月末')]]);
+    assert.equal(merged.length, 2);
+  });
+
+  test('先に出たものに発言時刻がなければ後のものの発言時刻を使う (入力は変更しない)', () => {
+    const first = item('資料を更新する', '田中', null, null);
+    const merged = mergeActionItems([[first], [item('資料を更新する', '田中', null, '00:12:34')]]);
+    assert.deepEqual(merged, [item('資料を更新する', '田中', null, '00:12:34')]);
+    assert.equal(first.sourceTimestamp, null);
+  });
+});
+
+describe('summarizeWithMapReduce', () => {
+  test('統合要約のアクションアイテムはモデルの統合結果ではなく部分要約の和集合になる', async () => {
+    const sectionItems: ActionItem[][] = [
+      [item('見積書を送付する', '田中', '2026-10-30')],
+      [item('議事録を共有する', '佐藤'), item('見積書を送付する', '田中', '2026-10-30')],
+      [item('次回の日程を調整する')],
+    ];
+    const mergeInputs: SummaryWithActionItems[][] = [];
+    // 統合時に取りこぼし・言い換えをするモデルを模す
+    const summarizer: Summarizer = {
+      name: 'fake',
+      model: 'fake',
+      summarize: async (input: SummarizeInput) => result(sectionItems[input.section!.index]),
+      mergeSummaries: async (partials) => {
+        mergeInputs.push(partials);
+        return result([item('見積もりを送る')]);
+      },
+    };
+    const input: SummarizeInput = { text: ['あ'.repeat(90), 'い'.repeat(90), 'う'.repeat(90)].join('。'), segments: [] };
+
+    const summary = await summarizeWithMapReduce(summarizer, input, getSummaryTemplate('client_meeting'), { sectionMaxChars: 100, mergeFanIn: 2 });
+
+    assert.equal(summary.sectionCount, 3);
+    assert.equal(mergeInputs.length, 3); // 3件 → 2件 → 1件の2段階
+    assert.deepEqual(summary.actionItems.map((i) => i.description), ['見積書を送付する', '議事録を共有する', '次回の日程を調整する']);
+  });
+});
@@ -0,0 +1,180 @@
+// モデルのコンテキストに収まらない長い文字起こしの分割要約 (map) と統合 (reduce)
+import { readPositiveIntEnv } from '../env';
+import { formatSegmentsForPrompt } from '../transcription/segments';
+import type { TranscriptSegment } from '../transcription/types';
+import { mergeActionItems } from './action-items';
+import type { SummarizeInput } from './prompt';
+import type { SummaryTemplate } from './templates';
+import type { SummarizeResult, Summarizer, SummaryWithActionItems } from './types';
+
+// 仕様書の「Whisper出力（最大8000字）をプロンプトに挿入」に合わせる
+const DEFAULT_SECTION_MAX_CHARS = 8000;
+// 1回の統合で扱う部分要約の最大数。超える場合は段階的に統合する
+const DEFAULT_MERGE_FAN_IN = 6;
+
+export interface MapReduceOptions {
+  sectionMaxChars: number;
+  mergeFanIn: number;
+}
+
+export interface TranscriptSection {
+  index: number;
+  text: string;
+  segments: TranscriptSegment[];
+  startSeconds: number | null;
+  endSeconds: number | null;
+}
+
+// 途中経過として保存する要約 (部分要約 / 統合要約)
+export interface SummaryIntermediate {
+  step: 'section' | 'merge';
+  level: number; // section は 0、統合は段階ごとに 1, 2, ...
+  index: number; // 同じ level 内での順番
+  startSeconds: number | null;
+  endSeconds: number | null;
+  sourceChars: number; // 要約の入力となった文字数
+  result: SummarizeResult;
+}
+
+export interface MapReduceSummary extends SummarizeResult {
+  sectionCount: number;
+}
+
+export function getMapReduceOptionsFromEnv(): MapReduceOptions {
+  return {
+    sectionMaxChars: readPositiveIntEnv('SUMMARIZER_SECTION_MAX_CHARS', DEFAULT_SECTION_MAX_CHARS),
+    mergeFanIn: Math.max(2, readPositiveIntEnv('SUMMARIZER_MERGE_FAN_IN', DEFAULT_MERGE_FAN_IN)),
+  };
+}
+
+function promptLength(input: SummarizeInput): number {
+  return input.segments.length > 0 ? formatSegmentsForPrompt(input.segments).length : input.text.length;
+}
+
+// 文の区切り (句点・改行など) で分割し、1つの文が上限を超える場合はさらに文字数で切る
+function splitTextIntoPieces(text: string, maxChars: number): string[] {
+  const sentences = text.match(/[^。．.!?！？\n]+[。．.!?！？\n]*/g) || [text];
+  const pieces: string[] = [];
+  for (const sentence of sentences) {
+    for (let i = 0; i < sentence.length; i += maxChars) {
+      pieces.push(sentence.slice(i, i + maxChars));
+    }
+  }
+  return pieces;
+}
+
+// 文字起こしを sectionMaxChars 以下のセクションに分割する。セグメントがあればセグメント境界で分割する
+export function splitTranscriptIntoSections(input: SummarizeInput, sectionMaxChars: number): TranscriptSection[] {
+  const sections: TranscriptSection[] = [];
+
+  if (input.segments.length > 0) {
+    let current: TranscriptSegment[] = [];
+    let currentChars = 0;
+    const flush = () => {
+      if (current.length === 0) return;
+      sections.push({
+        index: sections.length,
+        text: current.map((s) => s.text).join('\n'),
+        segments: current,
+        startSeconds: current[0].start,
+        endSeconds: current[current.length - 1].end,
+      });
+      current = [];
+      currentChars = 0;
+    };
+    for (const segment of input.segments) {
+      const lineChars = formatSegmentsForPrompt([segment]).length + 1;
+      if (currentChars + lineChars > sectionMaxChars) flush();
+      current.push(segment);
+      currentChars += lineChars;
+    }
+    flush();
+    return sections;
+  }
+
+  let currentText = '';
+  for (const piece of splitTextIntoPieces(input.text, sectionMaxChars)) {
+    if (currentText.length + piece.length > sectionMaxChars && currentText) {
+      sections.push({ index: sections.length, text: currentText, segments: [], startSeconds: null, endSeconds: null });
+      currentText = '';
+    }
+    currentText += piece;
+  }
+  if (currentText) {
+    sections.push({ index: sections.length, text: currentText, segments: [], startSeconds: null, endSeconds: null });
+  }
+  return sections;
+}
+
+// 文字起こしが上限以下なら1回で要約し、超える場合はセクションごとに要約してから統合する。
+// onIntermediate には部分要約と統合要約が生成されるたびに渡される (途中経過の保存用)。
+export async function summarizeWithMapReduce(
+  summarizer: Summarizer,
+  input: SummarizeInput,
+  template: SummaryTemplate,
+  options: MapReduceOptions,
+  onIntermediate?: (intermediate: SummaryIntermediate) => Promise<void>
+): Promise<MapReduceSummary> {
+  if (promptLength(input) <= options.sectionMaxChars) {
+    const result = await summarizer.summarize(input, template);
+    return { ...result, sectionCount: 1 };
+  }
+
+  const sections = splitTranscriptIntoSections(input, options.sectionMaxChars);
+  console.log(`[Map-Reduce] Transcript split into ${sections.length} section(s) of up to ${options.sectionMaxChars} chars.`);
+
+  // map: セクションごとに部分要約を作る
+  type PartialSummary = SummaryWithActionItems & { startSeconds: number | null; endSeconds: number | null; sourceChars: number };
+  let partials: PartialSummary[] = [];
+  for (const section of sections) {
+    const sectionInput: SummarizeInput = {
+      text: section.text,
+      segments: section.segments,
+      section: { index: section.index, total: sections.length },
+    };
+    const result = await summarizer.summarize(sectionInput, template);
+    const sourceChars = promptLength(sectionInput);
+    partials.push({ summary: result.summary, actionItems: result.actionItems, startSeconds: section.startSeconds, endSeconds: section.endSeconds, sourceChars });
+    if (onIntermediate) {
+      await onIntermediate({
+        step: 'section',
+        level: 0,
+        index: section.index,
+        startSeconds: section.startSeconds,
+        endSeconds: section.endSeconds,
+        sourceChars,
+        result,
+      });
+    }
+  }
+
+  // reduce: mergeFanIn 件ずつ統合し、1件になるまで繰り返す
+  let level = 0;
+  let finalResult: SummarizeResult | null = null;
+  while (finalResult === null) {
+    level++;
+    const groups: PartialSummary[][] = [];
+    for (let i = 0; i < partials.length; i += options.mergeFanIn) {
+      groups.push(partials.slice(i, i + options.mergeFanIn));
+    }
+    const merged: PartialSummary[] = [];
+    for (let i = 0; i < groups.length; i++) {
+      const group = groups[i];
+      // アクションアイテムはモデルの統合結果ではなく、部分要約のものを重複を除いてまとめる
+      const mergedSummary = await summarizer.mergeSummaries(group, template);
+      const result: SummarizeResult = { ...mergedSummary, actionItems: mergeActionItems(group.map((p) => p.actionItems)) };
+      const startSeconds = group[0].startSeconds;
+      const endSeconds = group[group.length - 1].endSeconds;
+      const sourceChars = group.reduce((sum, p) => sum + JSON.stringify(p.summary).length, 0);
+      merged.push({ summary: result.summary, actionItems: result.actionItems, startSeconds, endSeconds, sourceChars });
+      if (onIntermediate) {
+        await onIntermediate({ step: 'merge', level, index: i, startSeconds, endSeconds, sourceChars, result });
+      }
+      if (groups.length === 1) finalResult = result;
+    }
+    partials = merged;
+  }
+
+  console.log(`[Map-Reduce] Merged ${sections.length} section summaries in ${level} level(s).`);
+  return { ...finalResult, sectionCount: sections.length };
+}
@@ -0,0 +1,50 @@
+// 要約の Markdown 表現 (Storage の summaries/{taskId}.md に保存する)
+// 見出しは Notion ページ本文・Slack の完了メッセージと同じ (テンプレートの notionProperties)
+import type { StoredActionItem } from './action-items';
+import type { SummaryTemplate } from './templates';
+import type { StructuredSummary } from './types';
+
+export interface SummaryMarkdownContext {
+  fileName: string;
+  meetingDate: string | null | undefined;
+  clientName: string | null | undefined;
+  consultantName: string | null | undefined;
+}
+
+export function formatSummaryMarkdown(
+  summary: StructuredSummary,
+  template: SummaryTemplate,
+  actionItems: StoredActionItem[],
+  context: SummaryMarkdownContext
+): string {
+  const lines: string[] = [`# ${summary.meeting_title || context.fileName}`, ''];
+
+  const facts = [
+    context.clientName && `- クライアント: ${context.clientName}`,
+    context.meetingDate && `- 日付: ${context.meetingDate}`,
+    context.consultantName && `- 担当: ${context.consultantName}`,
+    `- 種別: ${template.label}`,
+    `- 元ファイル: ${context.fileName}`,
+  ].filter((fact): fact is string => Boolean(fact));
+  lines.push(...facts, '');
+
+  for (const mapping of template.notionProperties) {
+    const value = summary[mapping.field];
+    if (!value || !value.trim()) continue;
+    lines.push(`## ${mapping.property}`, '', value.trim(), '');
+  }
+
+  if (actionItems.length > 0) {
+    lines.push('## アクションアイテム', '');
+    for (const item of actionItems) {
+      const meta = [
+        item.assignee,
+        item.dueDate || item.dueDateText,
+        item.sourceTimestamp && `[${item.sourceTimestamp}]`,
+      ].filter(Boolean).join(' / ');
+      lines.push(`- [ ] ${item.description}${meta ? ` (${meta})` : ''}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
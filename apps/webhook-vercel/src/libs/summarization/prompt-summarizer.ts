@@ -0,0 +1,100 @@
+import { ActionItem, validateActionItems } from './action-items';
+import { buildMergePrompt, buildRepairPrompt, buildSummaryPrompt, parseJsonResponse, SummarizeInput } from './prompt';
+import { formatValidationIssues, SummarySchema, SummaryValidationIssue, validateSummary } from './schema';
+import type { SummaryTemplate } from './templates';
+import type {
+  StructuredSummary,
+  SummarizeResult,
+  Summarizer,
+  SummarizerConfig,
+  SummarizerName,
+  SummaryWithActionItems,
+} from './types';
+
+// プロンプトを受け取り、モデルの生のテキスト出力を返す関数。プロバイダごとに実装する
+export type GenerateText = (prompt: string) => Promise<string>;
+
+// プロンプトを送り、出力がスキーマを満たすまで検証エラーを添えて maxAttempts 回まで出し直させる
+async function generateValidatedSummary(
+  name: SummarizerName,
+  config: SummarizerConfig,
+  generate: GenerateText,
+  originalPrompt: string,
+  schema: SummarySchema
+): Promise<SummarizeResult> {
+  let prompt = originalPrompt;
+  let bestPartial: Record<string, string> | null = null;
+  let bestActionItems: ActionItem[] = [];
+  let lastIssues: SummaryValidationIssue[] = [];
+
+  for (let attempt = 1; attempt <= config.maxAttempts; attempt++) {
+    const responseText = await generate(prompt);
+    console.log(`Raw ${name} response text (attempt ${attempt}/${config.maxAttempts}):`, responseText);
+
+    let parsed: unknown;
+    try {
+      parsed = parseJsonResponse(responseText);
+    } catch (e: unknown) {
+      lastIssues = [{ field: '(root)', message: `Invalid JSON: ${(e instanceof Error) ? e.message : String(e)}` }];
+      console.warn(`[Summary Validation] ${name} attempt ${attempt} failed:\n${formatValidationIssues(lastIssues)}`);
+      prompt = buildRepairPrompt(originalPrompt, responseText, lastIssues);
+      continue;
+    }
+
+    const validation = validateSummary(parsed, schema);
+    const actionItems = validateActionItems(parsed);
+    if (validation.ok && actionItems.issues.length === 0) {
+      console.log(`${name} structured summary successful on attempt ${attempt} (${actionItems.items.length} action item(s)).`);
+      return {
+        summary: validation.value as unknown as StructuredSummary,
+        actionItems: actionItems.items,
+        missingFields: [],
+        attempts: attempt,
+      };
+    }
+
+    lastIssues = [...(validation.ok ? [] : validation.issues), ...actionItems.issues];
+    const partial = validation.ok ? validation.value : validation.partial;
+    if (!bestPartial || Object.keys(partial).length > Object.keys(bestPartial).length) {
+      bestPartial = partial;
+    }
+    if (actionItems.items.length > bestActionItems.length) {
+      bestActionItems = actionItems.items;
+    }
+    console.warn(`[Summary Validation] ${name} attempt ${attempt} failed:\n${formatValidationIssues(lastIssues)}`);
+    prompt = buildRepairPrompt(originalPrompt, responseText, lastIssues);
+  }
+
+  if (!bestPartial) {
+    throw new Error(`${name} did not return a valid summary after ${config.maxAttempts} attempt(s):\n${formatValidationIssues(lastIssues)}`);
+  }
+
+  // 一部の項目のみ取得できた場合は、欠けた項目を空文字列で補完して記録する
+  const missingFields = schema.fields.map((f) => f.key).filter((key) => !(key in bestPartial!));
+  const completed: Record<string, string> = { ...bestPartial };
+  for (const key of missingFields) completed[key] = '';
+  console.warn(`${name} summary is incomplete after ${config.maxAttempts} attempt(s). Missing: ${missingFields.join(', ')}`);
+  return {
+    summary: completed as unknown as StructuredSummary,
+    actionItems: bestActionItems,
+    missingFields,
+    attempts: config.maxAttempts,
+  };
+}
+
+// 共通のプロンプトとスキーマ検証を使う要約器を組み立てる。各プロバイダはテキスト生成部分のみを実装すればよい
+export function createPromptSummarizer(name: SummarizerName, config: SummarizerConfig, generate: GenerateText): Summarizer {
+  return {
+    name,
+    model: config.model,
+    async summarize(input: SummarizeInput, template: SummaryTemplate): Promise<SummarizeResult> {
+      const sectionLabel = input.section ? ` (section ${input.section.index + 1}/${input.section.total})` : '';
+      console.log(`Generating structured summary with ${name} (${config.model}), template ${template.name}${sectionLabel}...`);
+      return generateValidatedSummary(name, config, generate, buildSummaryPrompt(input, template), template.schema);
+    },
+    async mergeSummaries(partials: SummaryWithActionItems[], template: SummaryTemplate): Promise<SummarizeResult> {
+      console.log(`Merging ${partials.length} partial summaries with ${name} (${config.model}), template ${template.name}...`);
+      return generateValidatedSummary(name, config, generate, buildMergePrompt(partials, template), template.schema);
+    },
+  };
+}
@@ -0,0 +1,100 @@
+// 要約プロンプトの組み立てと、LLM 出力からの JSON 取り出し
+import { formatSegmentsForPrompt } from '../transcription/segments';
+import type { TranscriptSegment } from '../transcription/types';
+import { ACTION_ITEMS_KEY, actionItemsToJson } from './action-items';
+import { describeSchemaAsJson, formatValidationIssues, SummaryValidationIssue } from './schema';
+import type { SummaryTemplate } from './templates';
+import type { SummaryWithActionItems } from './types';
+
+export interface SummarizeInput {
+  text: string;
+  segments: TranscriptSegment[];
+  // 長い文字起こしを分割して要約する場合の、会議全体における位置
+  section?: { index: number; total: number };
+}
+
+const ACTION_ITEMS_INSTRUCTION = `
+action_items には、会議中に誰かが実施すると合意・依頼・宣言した作業を1件ずつ配列で記述してください。担当者や期日が発言から判断できない場合は null とし、推測で補わないでください。該当する作業がない場合は空配列 [] としてください。
+`;
+
+export function buildSummaryPrompt(input: SummarizeInput, template: SummaryTemplate): string {
+  // セグメントがあれば [HH:MM:SS] 付きの文字起こしを渡し、要約中で発言時刻を引用させる
+  const transcriptForPrompt = input.segments.length > 0 ? formatSegmentsForPrompt(input.segments) : input.text;
+  const citationInstruction = input.segments.length > 0
+    ? `\n各行の先頭には発言時刻が [HH:MM:SS] 形式で付いています。議論・決定事項や今後のアクションを記述する際は、根拠となる発言時刻を [HH:MM:SS] 形式でその項目の末尾に引用してください。\n`
+    : '';
+  const sectionInstruction = input.section
+    ? `\nこれは長い会議の文字起こしを分割したうちの ${input.section.index + 1}/${input.section.total} 番目の部分です。この部分に含まれる内容のみを要約し、特に決定事項と今後のアクションは漏れなく記述してください。\n`
+    : '';
+  const guidance = template.guidance ? `\n${template.guidance}\n` : '';
+  return `以下の${template.subject}の文字起こし内容を分析し、指定された項目で情報を整理して厳密にJSON形式で出力してください。JSON以外の前置きや後書きは一切不要です。
+${guidance}${ACTION_ITEMS_INSTRUCTION}${sectionInstruction}${citationInstruction}
+${describeSchemaAsJson(template.schema)}
+
+文字起こし内容：
+---
+${transcriptForPrompt}
+---
+出力は上記のJSON形式のみとしてください。説明や前置き、後書きは絶対に含めないでください。`;
+}
+
+// 分割要約した各部分の要約を1つの要約に統合させるプロンプト
+export function buildMergePrompt(partials: SummaryWithActionItems[], template: SummaryTemplate): string {
+  const partialsText = partials
+    .map((partial, i) => {
+      const json = { ...partial.summary, [ACTION_ITEMS_KEY]: actionItemsToJson(partial.actionItems) };
+      return `## 部分 ${i + 1}/${partials.length}\n${JSON.stringify(json, null, 2)}`;
+    })
+    .join('\n\n');
+  const guidance = template.guidance ? `- ${template.guidance}\n` : '';
+  return `以下は、1つの長い${template.subject}の文字起こしを時系列順に分割し、部分ごとに要約したものです。
+これらを統合して会議全体の要約を作成し、指定された項目で厳密にJSON形式で出力してください。JSON以外の前置きや後書きは一切不要です。
+
+統合の際は次の点を守ってください。
+- 各部分に含まれる決定事項・今後のアクション・担当者・期日は、重複をまとめた上で1つも省略しないこと
+- action_items も同様に、同じ作業を指すものを1件にまとめた上で全件を出力すること
+- [HH:MM:SS] 形式の発言時刻の引用はそのまま残すこと
+- 会議名は会議全体を表すものを1つだけ記述すること
+${guidance}
+${describeSchemaAsJson(template.schema)}
+
+部分ごとの要約：
+---
+${partialsText}
+---
+出力は上記のJSON形式のみとしてください。説明や前置き、後書きは絶対に含めないでください。`;
+}
+
+// 前回の出力と検証エラーを添えて、スキーマに沿った JSON を出し直させるプロンプト
+export function buildRepairPrompt(
+  originalPrompt: string,
+  previousOutput: string,
+  issues: SummaryValidationIssue[]
+): string {
+  return `${originalPrompt}
+
+---
+前回のあなたの出力は、次の理由で要求された形式を満たしていませんでした。
+
+前回の出力：
+${previousOutput}
+
+検証エラー：
+${formatValidationIssues(issues)}
+
+上記のエラーをすべて修正し、指定されたすべてのキーを含むJSONオブジェクトのみを出力してください。`;
+}
+
+// コードフェンスや前後の説明文を取り除いてから JSON として解釈する
+export function parseJsonResponse(responseText: string): unknown {
+  const cleanedResponseText = responseText.replace(/^```json\n?|\n?```$/g, "").trim();
+  try {
+    return JSON.parse(cleanedResponseText);
+  } catch (e) {
+    // 前後に説明文が付いている場合は、最初の { から最後の } までを取り出して再度解釈する
+    const start = cleanedResponseText.indexOf('{');
+    const end = cleanedResponseText.lastIndexOf('}');
+    if (start === -1 || end <= start) throw e;
+    return JSON.parse(cleanedResponseText.slice(start, end + 1));
+  }
+}
@@ -0,0 +1,29 @@
+// テスト・オフライン実行用の決定的な要約器
+// 外部 API を呼ばず、テンプレートのスキーマの項目を埋めた固定形式の JSON を返す (内容はプロンプトの長さのみで決まる)
+import { createPromptSummarizer } from '../prompt-summarizer';
+import type { SummarySchema } from '../schema';
+import type { SummaryTemplate } from '../templates';
+import type { Summarizer, SummarizerConfig } from '../types';
+
+function buildFakeSummary(schema: SummarySchema, prompt: string): Record<string, unknown> {
+  const summary: Record<string, unknown> = {};
+  for (const field of schema.fields) {
+    summary[field.key] = field.key === 'meeting_title' ? 'Fake meeting summary' : `fake ${field.key} (prompt length: ${prompt.length})`;
+  }
+  summary.action_items = [
+    { description: 'fake action item', assignee: '話者A', due_date: null, source_timestamp: '00:00:00' },
+  ];
+  return summary;
+}
+
+export function createFakeSummarizer(config: SummarizerConfig): Summarizer {
+  // 出力する項目はテンプレートごとに異なるため、呼び出しのたびにテンプレートのスキーマで生成関数を組み立てる
+  const forTemplate = (template: SummaryTemplate) =>
+    createPromptSummarizer('fake', config, async (prompt) => JSON.stringify(buildFakeSummary(template.schema, prompt)));
+  return {
+    name: 'fake',
+    model: config.model,
+    summarize: (input, template) => forTemplate(template).summarize(input, template),
+    mergeSummaries: (partials, template) => forTemplate(template).mergeSummaries(partials, template),
+  };
+}
@@ -0,0 +1,60 @@
+// Gemini API による要約
+import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
+import { createPromptSummarizer } from '../prompt-summarizer';
+import type { Summarizer, SummarizerConfig } from '../types';
+
+const SAFETY_SETTINGS = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+];
+
+function logGeminiError(e: unknown) {
+  console.error('Error during Gemini API structured summarization:', (e instanceof Error) ? e.message : String(e));
+  if (typeof e === 'object' && e !== null && 'response' in e) {
+    const errorResponse = (e as { response: unknown }).response; // errorResponse は 'unknown' 型
+
+    if (typeof errorResponse === 'object' && errorResponse !== null) {
+      // 'data' プロパティの存在を確認し、存在すれば errorResponse.data (unknown型) にアクセス
+      if ('data' in errorResponse && errorResponse.data !== undefined) {
+          // errorResponse.data を String() で明示的に文字列化
+          console.error('Gemini API Error Response Data:', String(errorResponse.data));
+      // 'statusText' プロパティの存在を確認し、かつ文字列型であれば errorResponse.statusText (string型) にアクセス
+      } else if ('statusText' in errorResponse && typeof errorResponse.statusText === 'string') {
+          console.error('Gemini API Error Status Text:', errorResponse.statusText);
+      } else {
+          console.error('Gemini API Error Response (unknown structure):', errorResponse);
+      }
+    } else {
+      console.error('Gemini API Error Response (not an object):', errorResponse);
+    }
+  } else {
+    console.error('Full Gemini Error:', e);
+  }
+}
+
+export function createGeminiSummarizer(apiKey: string | undefined, config: SummarizerConfig): Summarizer {
+  if (!apiKey) {
+    throw new Error('Missing GEMINI_API_KEY for the gemini summarizer.');
+  }
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return createPromptSummarizer('gemini', config, async (prompt) => {
+    try {
+      const model = genAI.getGenerativeModel({ model: config.model });
+      const result = await model.generateContent({
+          contents: [{ role: "user", parts: [{text: prompt}]}],
+          generationConfig: {
+              responseMimeType: "application/json",
+              temperature: config.temperature,
+          },
+          safetySettings: SAFETY_SETTINGS,
+      });
+      return result.response.text();
+    } catch (e: unknown) {
+      logGeminiError(e);
+      throw new Error(`Gemini API request failed: ${(e instanceof Error) ? e.message : String(e)}`);
+    }
+  });
+}
@@ -0,0 +1,12 @@
+// ローカル LLM (Ollama / llama.cpp server など) による要約
+// どちらも OpenAI 互換の /v1/chat/completions を公開しているため、OpenAI 実装を流用する
+import type { Summarizer, SummarizerConfig } from '../types';
+import { createOpenAISummarizer } from './openai';
+
+export function createLocalSummarizer(baseUrl: string | undefined, config: SummarizerConfig): Summarizer {
+  if (!baseUrl) {
+    throw new Error('LOCAL_LLM_BASE_URL must be set to use the local summarizer.');
+  }
+  // ローカルサーバーは API キーを検証しないが、SDK が必須とするためダミー値を渡す
+  return createOpenAISummarizer('local', config, { baseURL: baseUrl, name: 'local' });
+}
@@ -0,0 +1,44 @@
+// OpenAI Chat Completions API (および OpenAI 互換 API) による要約
+import OpenAI from 'openai';
+import { createPromptSummarizer } from '../prompt-summarizer';
+import type { Summarizer, SummarizerConfig, SummarizerName } from '../types';
+
+export interface OpenAISummarizerOptions {
+  baseURL?: string;
+  name?: SummarizerName;
+}
+
+export function createOpenAISummarizer(
+  apiKey: string | undefined,
+  config: SummarizerConfig,
+  options: OpenAISummarizerOptions = {}
+): Summarizer {
+  const name = options.name || 'openai';
+  if (!apiKey) {
+    throw new Error(`Missing API key for the ${name} summarizer.`);
+  }
+  const client = new OpenAI({ apiKey, baseURL: options.baseURL });
+
+  return createPromptSummarizer(name, config, async (prompt) => {
+    try {
+      const completion = await client.chat.completions.create({
+        model: config.model,
+        temperature: config.temperature,
+        response_format: { type: 'json_object' },
+        messages: [{ role: 'user', content: prompt }],
+      });
+      const content = completion.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error(`Empty response from ${name} (${config.model}).`);
+      }
+      return content;
+    } catch (e: unknown) {
+      if (e instanceof OpenAI.APIError) {
+        console.error(`${name} APIError: Status: ${e.status}, Code: ${e.code}, Message: ${e.message}`);
+      } else {
+        console.error(`Error during ${name} structured summarization:`, e);
+      }
+      throw new Error(`${name} summarization request failed: ${(e instanceof Error) ? e.message : String(e)}`);
+    }
+  });
+}
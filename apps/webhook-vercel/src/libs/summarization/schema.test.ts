@@ -0,0 +1,122 @@
+// 要約出力の検証 (validateSummary) と、検証エラーでの出し直し・欠けた項目の補完 (createPromptSummarizer) を確認する
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPromptSummarizer } from './prompt-summarizer';
+import { SummarySchema, validateSummary } from './schema';
+import { getSummaryTemplate } from './templates';
+
+const SCHEMA: SummarySchema = {
+  fields: [
+    { key: 'meeting_title', description: '会議名' },
+    { key: 'decisions', description: '決定事項' },
+    { key: 'notes', description: 'その他', allowEmpty: true },
+  ],
+};
+
+describe('validateSummary', () => {
+  test('すべての項目がそろっていれば値を返し、余分なキーと action_items は結果に含めない', () => {
+    const result = validateSummary({ meeting_title: '定例', decisions: '- A', notes: '', extra: 'x', action_items: [] }, SCHEMA);
+    assert.deepEqual(result, { ok: true, value: { meeting_title: '定例', decisions: '- A', notes: '' } });
+  });
+
+  test('文字列の配列・数値は文字列に変換する', () => {
+    const result = validateSummary({ meeting_title: 2026, decisions: ['A に決定', '- B に決定'], notes: true }, SCHEMA);
+    assert.deepEqual(result, { ok: true, value: { meeting_title: '2026', decisions: '- A に決定\n- B に決定', notes: 'true' } });
+  });
+
+  test('欠けた項目・型の誤り・空の必須項目を報告し、検証を通った項目を partial に残す', () => {
+    const result = validateSummary({ meeting_title: '  ', decisions: { a: 1 }, notes: '' }, SCHEMA);
+    assert.deepEqual(result, {
+      ok: false,
+      issues: [
+        { field: 'meeting_title', message: 'Must not be empty.' },
+        { field: 'decisions', message: 'Expected a string but got object.' },
+      ],
+      partial: { notes: '' },
+    });
+    const missing = validateSummary({ meeting_title: '定例' }, SCHEMA);
+    assert.equal(missing.ok, false);
+    assert.deepEqual(!missing.ok && missing.issues.map((issue) => issue.field), ['decisions', 'notes']);
+  });
+
+  test('オブジェクト以外はルートのエラー', () => {
+    for (const value of [null, [], 'text']) {
+      const result = validateSummary(value, SCHEMA);
+      assert.equal(result.ok, false);
+      assert.equal(!result.ok && result.issues[0].field, '(root)');
+    }
+  });
+});
+
+describe('createPromptSummarizer', () => {
+  const template = getSummaryTemplate('client_meeting');
+  const validSummary = {
+    meeting_title: '定例会議',
+    meeting_basics: '',
+    meeting_objective_agenda: '進捗確認',
+    discussions_decisions: '- 方針を決定',
+    next_schedule: '',
+    other_notes: '',
+    action_items: [{ description: '資料を送る', assignee: '田中', due_date: '2026-10-30', source_timestamp: '00:01:00' }],
+  };
+
+  // 出力を順に返し、受け取ったプロンプトを記録する
+  function scripted(outputs: string[]) {
+    const prompts: string[] = [];
+    const generate = async (prompt: string) => {
+      prompts.push(prompt);
+      return outputs[prompts.length - 1];
+    };
+    return { prompts, generate };
+  }
+
+  test('検証エラーを添えて出し直させ、修正された出力を返す', async () => {
+    const { prompts, generate } = scripted([
+      'すみません、要約は以下です: {"meeting_title": "定例会議"',
+      JSON.stringify({ ...validSummary, discussions_decisions: '' }),
+      '```json\n' + JSON.stringify(validSummary) + '\n```',
+    ]);
+    const summarizer = createPromptSummarizer('fake', { model: 'scripted', temperature: 0, maxAttempts: 3 }, generate);
+
+    const result = await summarizer.summarize({ text: '文字起こし', segments: [] }, template);
+
+    assert.equal(result.attempts, 3);
+    assert.deepEqual(result.missingFields, []);
+    assert.equal(result.summary.discussions_decisions, '- 方針を決定');
+    assert.equal(result.actionItems.length, 1);
+    assert.match(prompts[1], /検証エラー：\n- \(root\): Invalid JSON/);
+    assert.match(prompts[2], /- discussions_decisions: Must not be empty\./);
+    // 出し直しのプロンプトは元のプロンプトに前回の出力とエラーを付け足す
+    assert.ok(prompts[2].startsWith(prompts[0]));
+  });
+
+  test('最大試行回数でも埋まらない場合は、最も多くの項目がそろった出力を使い、欠けた項目を空文字列で補う', async () => {
+    const { prompts, generate } = scripted([
+      JSON.stringify({ meeting_title: '定例会議', meeting_objective_agenda: '進捗確認', action_items: validSummary.action_items }),
+      JSON.stringify({ meeting_title: '定例会議 (2回目)' }),
+    ]);
+    const summarizer = createPromptSummarizer('fake', { model: 'scripted', temperature: 0, maxAttempts: 2 }, generate);
+
+    const result = await summarizer.summarize({ text: '文字起こし', segments: [] }, template);
+
+    assert.equal(prompts.length, 2);
+    assert.equal(result.attempts, 2);
+    assert.deepEqual(result.missingFields, ['meeting_basics', 'discussions_decisions', 'next_schedule', 'other_notes']);
+    assert.deepEqual(result.summary, {
+      meeting_title: '定例会議',
+      meeting_objective_agenda: '進捗確認',
+      meeting_basics: '',
+      discussions_decisions: '',
+      next_schedule: '',
+      other_notes: '',
+    });
+    assert.deepEqual(result.actionItems.map((item) => item.description), ['資料を送る']);
+  });
+
+  test('一度も JSON を返さなかった場合はエラー', async () => {
+    const { generate } = scripted(['not json', 'still not json']);
+    const summarizer = createPromptSummarizer('fake', { model: 'scripted', temperature: 0, maxAttempts: 2 }, generate);
+
+    await assert.rejects(summarizer.summarize({ text: '文字起こし', segments: [] }, template), /did not return a valid summary after 2 attempt\(s\)/);
+  });
+});
@@ -0,0 +1,90 @@
+// 要約出力の実行時スキーマと検証
+// スキーマはプロンプト中の JSON 例の生成と、モデル出力の検証の両方に使う (テンプレートごとに定義: templates.ts)
+import { ACTION_ITEMS_KEY, describeActionItemsAsJson } from './action-items';
+
+export interface SummaryFieldSpec {
+  key: string;
+  description: string; // プロンプトに埋め込む項目の説明
+  allowEmpty?: boolean; // 空文字列を許容するか (既定: 許容しない)
+}
+
+export interface SummarySchema {
+  fields: SummaryFieldSpec[];
+}
+
+export interface SummaryValidationIssue {
+  field: string;
+  message: string;
+}
+
+export type SummaryValidationResult =
+  | { ok: true; value: Record<string, string> }
+  | { ok: false; issues: SummaryValidationIssue[]; partial: Record<string, string> };
+
+// プロンプトに埋め込む JSON の雛形 ({"key": "説明", ..., "action_items": [...]}) を作る
+export function describeSchemaAsJson(schema: SummarySchema): string {
+  const lines = schema.fields.map((f) => `  ${JSON.stringify(f.key)}: ${JSON.stringify(f.description)}`);
+  lines.push(`  ${JSON.stringify(ACTION_ITEMS_KEY)}: ${describeActionItemsAsJson()}`);
+  return `{\n${lines.join(',\n')}\n}`;
+}
+
+// 文字列以外の値を、意味が変わらない範囲で文字列に変換する (箇条書きの配列など)
+function coerceToString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+    return value.map((item) => (item.trim().startsWith('-') ? item : `- ${item}`)).join('\n');
+  }
+  return undefined;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export function validateSummary(value: unknown, schema: SummarySchema): SummaryValidationResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return {
+      ok: false,
+      issues: [{ field: '(root)', message: `Expected a JSON object but got ${describeType(value)}.` }],
+      partial: {},
+    };
+  }
+
+  const record = value as Record<string, unknown>;
+  const issues: SummaryValidationIssue[] = [];
+  const result: Record<string, string> = {};
+
+  for (const field of schema.fields) {
+    if (!(field.key in record) || record[field.key] === undefined) {
+      issues.push({ field: field.key, message: 'Required key is missing.' });
+      continue;
+    }
+    const coerced = coerceToString(record[field.key]);
+    if (coerced === undefined) {
+      issues.push({ field: field.key, message: `Expected a string but got ${describeType(record[field.key])}.` });
+      continue;
+    }
+    if (!field.allowEmpty && coerced.trim() === '') {
+      issues.push({ field: field.key, message: 'Must not be empty.' });
+      continue;
+    }
+    result[field.key] = coerced;
+  }
+
+  // action_items は validateActionItems (action-items.ts) で別途検証する
+  const knownKeys = [...schema.fields.map((f) => f.key), ACTION_ITEMS_KEY];
+  const unknownKeys = Object.keys(record).filter((key) => knownKeys.indexOf(key) === -1);
+  if (unknownKeys.length > 0) {
+    // 余分なキーは破棄するだけで検証エラーにはしない
+    console.warn(`[Summary Schema] Ignoring unknown key(s) in summary output: ${unknownKeys.join(', ')}`);
+  }
+
+  return issues.length > 0 ? { ok: false, issues, partial: result } : { ok: true, value: result };
+}
+
+export function formatValidationIssues(issues: SummaryValidationIssue[]): string {
+  return issues.map((issue) => `- ${issue.field}: ${issue.message}`).join('\n');
+}
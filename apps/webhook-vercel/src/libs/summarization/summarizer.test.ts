@@ -0,0 +1,60 @@
+// 要約器の選択と、偽の要約器 (テスト・オフライン実行用) が共通の検証を通った結果を返すことを確認する
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import process from "node:process";
+import { restoreEnv } from '../../test/env';
+import { getSummarizer, resolveSummarizerName } from './summarizer';
+import { getSummaryTemplate } from './templates';
+
+const originalProvider = process.env.SUMMARIZER_PROVIDER;
+
+afterEach(() => {
+  restoreEnv('SUMMARIZER_PROVIDER', originalProvider);
+});
+
+describe('resolveSummarizerName', () => {
+  test('SUMMARIZER_PROVIDER を使い、未指定・不明な値は gemini にする', () => {
+    process.env.SUMMARIZER_PROVIDER = 'fake';
+    assert.equal(resolveSummarizerName(), 'fake');
+    process.env.SUMMARIZER_PROVIDER = 'claude';
+    assert.equal(resolveSummarizerName(), 'gemini');
+    delete process.env.SUMMARIZER_PROVIDER;
+    assert.equal(resolveSummarizerName(), 'gemini');
+  });
+});
+
+describe('fake summarizer', () => {
+  test('テンプレートのスキーマを満たす要約とアクションアイテムを1回で返す', async () => {
+    const summarizer = getSummarizer('fake');
+    assert.equal(summarizer.name, 'fake');
+
+    const result = await summarizer.summarize({ text: '本日の議題は…', segments: [] }, getSummaryTemplate('client_meeting'));
+
+    assert.equal(result.attempts, 1);
+    assert.deepEqual(result.missingFields, []);
+    assert.equal(result.summary.meeting_title, 'Fake meeting summary');
+    assert.deepEqual(result.actionItems, [
+      { description: 'fake action item', assignee: '話者A', dueDateText: null, sourceTimestamp: '00:00:00' },
+    ]);
+  });
+
+  test('部分要約の統合も同じ検証を通る', async () => {
+    const summarizer = getSummarizer('fake');
+    const template = getSummaryTemplate('client_meeting');
+    const partial = await summarizer.summarize({ text: '前半', segments: [], section: { index: 0, total: 2 } }, template);
+
+    const merged = await summarizer.mergeSummaries([partial, partial], template);
+
+    assert.deepEqual(merged.missingFields, []);
+    assert.equal(merged.summary.meeting_title, 'Fake meeting summary');
+  });
+
+  test('テンプレートごとのスキーマの項目を埋めて返す', async () => {
+    const result = await getSummarizer('fake').summarize({ text: '商談', segments: [] }, getSummaryTemplate('sales'));
+
+    assert.equal(result.attempts, 1);
+    assert.deepEqual(result.missingFields, []);
+    assert.deepEqual(Object.keys(result.summary), getSummaryTemplate('sales').schema.fields.map((f) => f.key));
+    assert.match(result.summary.budget, /^fake budget/);
+  });
+});
@@ -0,0 +1,53 @@
+// 環境変数 (SUMMARIZER_PROVIDER / SUMMARIZER_MODEL / SUMMARIZER_TEMPERATURE / SUMMARIZER_MAX_ATTEMPTS) に応じた要約器の選択
+import process from "node:process";
+import { readPositiveIntEnv } from '../env';
+import { Summarizer, SUMMARIZER_NAMES, SummarizerName } from './types';
+import { createGeminiSummarizer } from './providers/gemini';
+import { createOpenAISummarizer } from './providers/openai';
+import { createLocalSummarizer } from './providers/local';
+import { createFakeSummarizer } from './providers/fake';
+
+const DEFAULT_SUMMARIZER: SummarizerName = 'gemini';
+const DEFAULT_TEMPERATURE = 0.2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export function isSummarizerName(value: unknown): value is SummarizerName {
+  return typeof value === 'string' && (SUMMARIZER_NAMES as readonly string[]).indexOf(value) !== -1;
+}
+
+export function resolveSummarizerName(): SummarizerName {
+  const envName = process.env.SUMMARIZER_PROVIDER;
+  if (envName) {
+    if (isSummarizerName(envName)) return envName;
+    console.warn(`Unknown SUMMARIZER_PROVIDER: ${envName}. Falling back to ${DEFAULT_SUMMARIZER}.`);
+  }
+  return DEFAULT_SUMMARIZER;
+}
+
+function readTemperatureEnv(): number {
+  const raw = process.env.SUMMARIZER_TEMPERATURE;
+  if (!raw) return DEFAULT_TEMPERATURE;
+  const value = Number(raw);
+  if (isNaN(value) || value < 0 || value > 2) {
+    console.warn(`Invalid SUMMARIZER_TEMPERATURE: ${raw}. Using default ${DEFAULT_TEMPERATURE}.`);
+    return DEFAULT_TEMPERATURE;
+  }
+  return value;
+}
+
+// SUMMARIZER_MODEL が未指定の場合はプロバイダごとのデフォルトモデルを使う
+export function getSummarizer(name: SummarizerName = resolveSummarizerName()): Summarizer {
+  const temperature = readTemperatureEnv();
+  const maxAttempts = readPositiveIntEnv('SUMMARIZER_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS);
+  const modelOverride = process.env.SUMMARIZER_MODEL;
+  switch (name) {
+    case 'gemini':
+      return createGeminiSummarizer(process.env.GEMINI_API_KEY, { model: modelOverride || 'gemini-pro', temperature, maxAttempts });
+    case 'openai':
+      return createOpenAISummarizer(process.env.OPENAI_API_KEY, { model: modelOverride || 'gpt-4o-mini', temperature, maxAttempts });
+    case 'local':
+      return createLocalSummarizer(process.env.LOCAL_LLM_BASE_URL, { model: modelOverride || process.env.LOCAL_LLM_MODEL || 'llama3', temperature, maxAttempts });
+    case 'fake':
+      return createFakeSummarizer({ model: 'fake', temperature, maxAttempts });
+  }
+}
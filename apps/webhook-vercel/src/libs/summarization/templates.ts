@@ -0,0 +1,174 @@
+// 会議種別ごとの要約テンプレート (プロンプト・出力スキーマ・Notion プロパティ対応)
+import process from "node:process";
+import type { SummaryFieldSpec, SummarySchema } from './schema';
+
+export const SUMMARY_TEMPLATE_NAMES = ['client_meeting', 'sales', 'one_on_one', 'workshop'] as const;
+export type SummaryTemplateName = typeof SUMMARY_TEMPLATE_NAMES[number];
+
+const DEFAULT_SUMMARY_TEMPLATE: SummaryTemplateName = 'client_meeting';
+
+export interface NotionPropertyMapping {
+  field: string; // 要約 JSON のキー
+  property: string; // Notion データベースのプロパティ名 (rich_text)
+}
+
+export interface SummaryTemplate {
+  name: SummaryTemplateName;
+  label: string; // 表示名
+  aliases: string[]; // Slack メッセージの「種別: xxx」で指定できる名前
+  subject: string; // プロンプト中で文字起こしの対象を指す語 (例: 会議、営業商談)
+  guidance?: string; // テンプレート固有の追加指示
+  schema: SummarySchema;
+  notionProperties: NotionPropertyMapping[];
+}
+
+// 全テンプレート共通の会議名フィールド (Notion のタイトルに使用)
+function withTitleField(example: string, fields: SummaryFieldSpec[]): SummarySchema {
+  return { fields: [{ key: 'meeting_title', description: `会議名（例：${example}）` }, ...fields] };
+}
+
+const TEMPLATES: Record<SummaryTemplateName, SummaryTemplate> = {
+  client_meeting: {
+    name: 'client_meeting',
+    label: 'クライアント定例',
+    aliases: ['定例', 'クライアント定例', '打ち合わせ', 'client', 'client_meeting'],
+    subject: '会議',
+    schema: withTitleField('〇〇株式会社様 定例会議', [
+      { key: 'meeting_basics', description: '会議の基本情報（参加者、場所など、文字起こしから推測できる範囲で記述）', allowEmpty: true },
+      { key: 'meeting_objective_agenda', description: '会議の目的と主要なアジェンダ（文字起こしから抽出・要約して記述）' },
+      { key: 'discussions_decisions', description: '会議での主要な議論と決定事項（文字起こしから抽出・要約し、箇条書きを推奨）' },
+      { key: 'next_schedule', description: '今後のスケジュールや次のアクションについて（文字起こしから抽出・要約し、箇条書きを推奨）', allowEmpty: true },
+      { key: 'other_notes', description: 'その他特記事項（上記以外で重要な点や補足事項を記述）', allowEmpty: true },
+    ]),
+    notionProperties: [
+      { field: 'meeting_basics', property: '会議の基本情報' },
+      { field: 'meeting_objective_agenda', property: '会議の目的とアジェンダ' },
+      { field: 'discussions_decisions', property: '会議の内容(議論と決定事項)' },
+      { field: 'next_schedule', property: '今後のスケジュール' },
+      { field: 'other_notes', property: 'その他特記事項' },
+    ],
+  },
+  sales: {
+    name: 'sales',
+    label: '商談',
+    aliases: ['商談', '営業', 'sales'],
+    subject: '営業商談',
+    guidance: 'BANT (Budget / Authority / Need / Timeline) の観点で情報を整理してください。文字起こしから判断できない項目は「不明」と記述してください。',
+    schema: withTitleField('〇〇株式会社様 初回商談', [
+      { key: 'customer_overview', description: '顧客の概要と参加者（会社、部署、役職など文字起こしから推測できる範囲で記述）', allowEmpty: true },
+      { key: 'budget', description: 'Budget: 予算の有無・規模・確保状況' },
+      { key: 'authority', description: 'Authority: 決裁者・意思決定プロセス' },
+      { key: 'need', description: 'Need: 顧客の課題とニーズ（箇条書きを推奨）' },
+      { key: 'timeline', description: 'Timeline: 導入・検討のスケジュール' },
+      { key: 'objections', description: '顧客の懸念点・反論と、それへの回答（箇条書きを推奨）', allowEmpty: true },
+      { key: 'next_steps', description: '次のアクションと担当者・期日（箇条書きを推奨）', allowEmpty: true },
+    ]),
+    notionProperties: [
+      { field: 'customer_overview', property: '顧客概要' },
+      { field: 'budget', property: '予算(Budget)' },
+      { field: 'authority', property: '決裁者(Authority)' },
+      { field: 'need', property: 'ニーズ(Need)' },
+      { field: 'timeline', property: '導入時期(Timeline)' },
+      { field: 'objections', property: '懸念事項' },
+      { field: 'next_steps', property: '次のアクション' },
+    ],
+  },
+  one_on_one: {
+    name: 'one_on_one',
+    label: '1on1',
+    aliases: ['1on1', '1on1ミーティング', '面談', 'one_on_one'],
+    subject: '社内1on1ミーティング',
+    guidance: '本人の目標と懸念を中心に整理し、評価的な表現や個人的に機微な情報は必要以上に記述しないでください。',
+    schema: withTitleField('山田さん 1on1', [
+      { key: 'goals', description: '本人の目標と進捗状況（箇条書きを推奨）' },
+      { key: 'concerns', description: '本人の悩み・懸念・課題（箇条書きを推奨）', allowEmpty: true },
+      { key: 'feedback', description: '上長・メンターからのフィードバック', allowEmpty: true },
+      { key: 'support_needed', description: '本人が必要としている支援やリソース', allowEmpty: true },
+      { key: 'next_actions', description: '次回までのアクションと担当者（箇条書きを推奨）', allowEmpty: true },
+    ]),
+    notionProperties: [
+      { field: 'goals', property: '目標と進捗' },
+      { field: 'concerns', property: '悩み・懸念' },
+      { field: 'feedback', property: 'フィードバック' },
+      { field: 'support_needed', property: '必要な支援' },
+      { field: 'next_actions', property: '次のアクション' },
+    ],
+  },
+  workshop: {
+    name: 'workshop',
+    label: 'ワークショップ',
+    aliases: ['ワークショップ', 'WS', 'workshop'],
+    subject: 'ワークショップ',
+    schema: withTitleField('〇〇株式会社様 業務改善ワークショップ', [
+      { key: 'objectives', description: 'ワークショップの目的とゴール' },
+      { key: 'outputs', description: 'ワークショップで作成された成果物・アウトプット（箇条書きを推奨）' },
+      { key: 'key_ideas', description: '出された主なアイデアや意見（箇条書きを推奨）', allowEmpty: true },
+      { key: 'decisions', description: '合意・決定した事項（箇条書きを推奨）', allowEmpty: true },
+      { key: 'next_steps', description: '今後のアクションと担当者・期日（箇条書きを推奨）', allowEmpty: true },
+    ]),
+    notionProperties: [
+      { field: 'objectives', property: 'ワークショップの目的' },
+      { field: 'outputs', property: '成果物' },
+      { field: 'key_ideas', property: '主なアイデア' },
+      { field: 'decisions', property: '決定事項' },
+      { field: 'next_steps', property: '次のアクション' },
+    ],
+  },
+};
+
+export function isSummaryTemplateName(value: unknown): value is SummaryTemplateName {
+  return typeof value === 'string' && (SUMMARY_TEMPLATE_NAMES as readonly string[]).indexOf(value) !== -1;
+}
+
+function findTemplateByAlias(alias: string): SummaryTemplateName | undefined {
+  const normalized = alias.trim().toLowerCase();
+  for (const name of SUMMARY_TEMPLATE_NAMES) {
+    if (TEMPLATES[name].aliases.some((a) => a.toLowerCase() === normalized)) return name;
+  }
+  return undefined;
+}
+
+// SUMMARY_TEMPLATE_CHANNELS="C0123456:sales,C0987654:one_on_one" 形式のチャンネル別テンプレート指定
+function findTemplateByChannel(channelId: string): SummaryTemplateName | undefined {
+  const config = process.env.SUMMARY_TEMPLATE_CHANNELS;
+  if (!config) return undefined;
+  for (const entry of config.split(',')) {
+    const [channel, templateName] = entry.split(':').map((part) => part.trim());
+    if (channel === channelId) {
+      if (isSummaryTemplateName(templateName)) return templateName;
+      console.warn(`Unknown template '${templateName}' for channel ${channelId} in SUMMARY_TEMPLATE_CHANNELS.`);
+    }
+  }
+  return undefined;
+}
+
+// Slack メッセージの「種別: 商談」などの指定を優先し、なければチャンネルの設定から決める。
+// どちらにも該当しない場合は undefined (処理時にデフォルトのテンプレートを使用)
+export function resolveSummaryTemplateName(source: {
+  messageText?: string | null;
+  channelId?: string | null;
+}): SummaryTemplateName | undefined {
+  if (source.messageText) {
+    const match = source.messageText.match(/種別[:：\s]*([^\n\s]+)/);
+    if (match && match[1]) {
+      const byAlias = findTemplateByAlias(match[1]);
+      if (byAlias) return byAlias;
+      console.warn(`Unknown meeting type in Slack message: ${match[1]}`);
+    }
+  }
+  if (source.channelId) {
+    return findTemplateByChannel(source.channelId);
+  }
+  return undefined;
+}
+
+// タスクに記録されたテンプレート名 → 環境変数 SUMMARY_TEMPLATE_DEFAULT → client_meeting の順で決定する
+export function getSummaryTemplate(name?: string | null): SummaryTemplate {
+  if (name) {
+    if (isSummaryTemplateName(name)) return TEMPLATES[name];
+    console.warn(`Unknown summary template on task: ${name}. Falling back to default.`);
+  }
+  const envDefault = process.env.SUMMARY_TEMPLATE_DEFAULT;
+  if (envDefault && isSummaryTemplateName(envDefault)) return TEMPLATES[envDefault];
+  return TEMPLATES[DEFAULT_SUMMARY_TEMPLATE];
+}
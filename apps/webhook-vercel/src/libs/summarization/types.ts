@@ -0,0 +1,39 @@
+// 要約結果・要約器の共通型定義
+import type { ActionItem } from './action-items';
+import type { SummarizeInput } from './prompt';
+import type { SummaryTemplate } from './templates';
+
+export const SUMMARIZER_NAMES = ['gemini', 'openai', 'local', 'fake'] as const;
+export type SummarizerName = typeof SUMMARIZER_NAMES[number];
+
+// 会議要約の構造化データ。meeting_title 以外のキーはテンプレートのスキーマで決まる (templates.ts)
+export interface StructuredSummary {
+  meeting_title: string;
+  [field: string]: string;
+}
+
+export interface SummarizerConfig {
+  model: string;
+  temperature: number;
+  maxAttempts: number; // 出力がスキーマを満たさない場合の再試行を含めた最大試行回数
+}
+
+// 要約とアクションアイテムの組 (分割要約の統合時の入力にもなる)
+export interface SummaryWithActionItems {
+  summary: StructuredSummary;
+  actionItems: ActionItem[];
+}
+
+export interface SummarizeResult extends SummaryWithActionItems {
+  // 最大試行回数に達しても埋まらなかった項目 (空文字列で補完済み)
+  missingFields: string[];
+  attempts: number;
+}
+
+export interface Summarizer {
+  readonly name: SummarizerName;
+  readonly model: string;
+  summarize(input: SummarizeInput, template: SummaryTemplate): Promise<SummarizeResult>;
+  // 分割して要約した部分要約を1つに統合する
+  mergeSummaries(partials: SummaryWithActionItems[], template: SummaryTemplate): Promise<SummarizeResult>;
+}
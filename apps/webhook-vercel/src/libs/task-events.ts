@@ -0,0 +1,166 @@
+// タスクの監査ログ (task_events テーブル) の記録と、タイムラインの読み込み
+// ステータス遷移は DB トリガーが記録する (20261019001300_enforce_task_status_transitions.sql)。ここではアプリ側のイベントを記録する
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isNotionClientError } from '@notionhq/client';
+
+export const TASK_EVENT_TYPES = [
+  'status_changed',
+  'stage_started',
+  'stage_completed',
+  'stage_failed',
+  'provider_call',
+  'retry_scheduled',
+  'job_dead',
+] as const;
+export type TaskEventType = typeof TASK_EVENT_TYPES[number];
+
+export interface TaskEventError {
+  message: string;
+  name?: string;
+  code?: string;
+  stack?: string;
+}
+
+export interface TaskEventInput {
+  type: TaskEventType;
+  stage?: string | null;
+  attempt?: number | null;
+  durationMs?: number | null;
+  error?: TaskEventError | null;
+  details?: Record<string, unknown>;
+}
+
+export interface TaskEvent extends TaskEventInput {
+  id: string;
+  taskId: string;
+  fromStatus: string | null;
+  toStatus: string | null;
+  message: string | null;
+  createdAt: string;
+}
+
+export interface TaskTimeline {
+  taskId: string;
+  startedAt: string | null;
+  lastEventAt: string | null;
+  elapsedMs: number | null; // 最初のイベントから最後のイベントまで
+  stageDurationsMs: Record<string, number>; // 完了・失敗した段階の所要時間の合計 (再試行分も含む)
+  failedStages: { stage: string; attempt: number | null; error: TaskEventError | null; at: string }[];
+  events: TaskEvent[];
+}
+
+const STACK_MAX_CHARS = 2000;
+
+export function toTaskEventError(e: unknown): TaskEventError {
+  if (e instanceof Error) {
+    return {
+      message: e.message,
+      name: e.name,
+      ...(isNotionClientError(e) && { code: e.code }),
+      ...(e.stack && { stack: e.stack.slice(0, STACK_MAX_CHARS) }),
+    };
+  }
+  return { message: String(e) };
+}
+
+// 監査ログの記録に失敗しても処理は止めない
+export async function recordTaskEvent(supabase: SupabaseClient, taskId: string, event: TaskEventInput): Promise<void> {
+  const { error } = await supabase
+    .from('task_events')
+    .insert({
+      task_id: taskId,
+      event_type: event.type,
+      stage: event.stage ?? null,
+      attempt: event.attempt ?? null,
+      duration_ms: event.durationMs !== undefined && event.durationMs !== null ? Math.round(event.durationMs) : null,
+      error: event.error ?? null,
+      details: event.details ?? {},
+    });
+  if (error) {
+    console.error(`[Task Events] Failed to record ${event.type} event for task ${taskId}:`, error.message);
+  }
+}
+
+// 外部API呼び出しを計測して provider_call イベントとして記録する (失敗時はエラーも記録して例外を投げ直す)
+export async function recordProviderCall<T>(
+  supabase: SupabaseClient,
+  taskId: string,
+  call: { stage: string; attempt?: number | null; details: Record<string, unknown> },
+  fn: () => Promise<T>
+): Promise<T> {
+  const startedAt = Date.now();
+  try {
+    const result = await fn();
+    await recordTaskEvent(supabase, taskId, {
+      type: 'provider_call',
+      stage: call.stage,
+      attempt: call.attempt,
+      durationMs: Date.now() - startedAt,
+      details: call.details,
+    });
+    return result;
+  } catch (e: unknown) {
+    await recordTaskEvent(supabase, taskId, {
+      type: 'provider_call',
+      stage: call.stage,
+      attempt: call.attempt,
+      durationMs: Date.now() - startedAt,
+      error: toTaskEventError(e),
+      details: call.details,
+    });
+    throw e;
+  }
+}
+
+export async function loadTaskEvents(supabase: SupabaseClient, taskId: string): Promise<TaskEvent[]> {
+  const { data, error } = await supabase
+    .from('task_events')
+    .select('id, task_id, event_type, from_status, to_status, message, stage, attempt, duration_ms, error, details, created_at')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to load task events for task ${taskId}: ${error.message}`);
+  }
+  return (data || []).map((row) => ({
+    id: row.id as string,
+    taskId: row.task_id as string,
+    type: row.event_type as TaskEventType,
+    fromStatus: row.from_status as string | null,
+    toStatus: row.to_status as string | null,
+    message: row.message as string | null,
+    stage: row.stage as string | null,
+    attempt: row.attempt as number | null,
+    durationMs: row.duration_ms as number | null,
+    error: row.error as TaskEventError | null,
+    details: (row.details as Record<string, unknown> | null) || {},
+    createdAt: row.created_at as string,
+  }));
+}
+
+// イベント列から段階ごとの所要時間と失敗した段階をまとめる
+export function buildTaskTimeline(taskId: string, events: TaskEvent[]): TaskTimeline {
+  const stageDurationsMs: Record<string, number> = {};
+  const failedStages: TaskTimeline['failedStages'] = [];
+  for (const event of events) {
+    if (!event.stage || (event.type !== 'stage_completed' && event.type !== 'stage_failed')) continue;
+    stageDurationsMs[event.stage] = (stageDurationsMs[event.stage] || 0) + (event.durationMs || 0);
+    if (event.type === 'stage_failed') {
+      failedStages.push({ stage: event.stage, attempt: event.attempt ?? null, error: event.error ?? null, at: event.createdAt });
+    }
+  }
+  const startedAt = events.length > 0 ? events[0].createdAt : null;
+  const lastEventAt = events.length > 0 ? events[events.length - 1].createdAt : null;
+  return {
+    taskId,
+    startedAt,
+    lastEventAt,
+    elapsedMs: startedAt && lastEventAt ? new Date(lastEventAt).getTime() - new Date(startedAt).getTime() : null,
+    stageDurationsMs,
+    failedStages,
+    events,
+  };
+}
+
+export async function loadTaskTimeline(supabase: SupabaseClient, taskId: string): Promise<TaskTimeline> {
+  return buildTaskTimeline(taskId, await loadTaskEvents(supabase, taskId));
+}
@@ -0,0 +1,85 @@
+// 送信側 (notify 段階・ジョブワーカー) が作る通知が、受信側 (/api/slack/notify) の parseTaskNotification を通ることを確認する
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCompletedNotification, buildFailedNotification, parseTaskNotification, TaskNotification } from './task-notification';
+
+const TASK_ID = '6f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f';
+
+// fetch で送る JSON を経由して受信側で検証する
+function sendAndParse(notification: TaskNotification): TaskNotification | string {
+  return parseTaskNotification(JSON.parse(JSON.stringify(notification)));
+}
+
+describe('buildCompletedNotification', () => {
+  test('publish のチェックポイントの Notion ページと失敗したルートがそのまま受信される', () => {
+    const notification = buildCompletedNotification(TASK_ID, 'meeting.mp4', {
+      notionPages: [
+        { route: '議事録DB', pageId: '1234abcd-0000-1111-2222-333344445555' },
+        { route: 'クライアントDB', pageId: 'ffff0000eeee1111dddd2222cccc3333' },
+      ],
+      failedRoutes: ['タスクDB'],
+    });
+    const parsed = sendAndParse(notification);
+    assert.deepEqual(parsed, notification);
+    assert.deepEqual(parsed, {
+      status: 'completed',
+      taskId: TASK_ID,
+      fileName: 'meeting.mp4',
+      notionPages: [
+        { label: '議事録DB', url: 'https://www.notion.so/1234abcd000011112222333344445555' },
+        { label: 'クライアントDB', url: 'https://www.notion.so/ffff0000eeee1111dddd2222cccc3333' },
+      ],
+      notionFailedRoutes: ['タスクDB'],
+    });
+  });
+
+  test('旧形式の notionPageIds (カンマ区切り) のチェックポイントも受信される', () => {
+    const notification = buildCompletedNotification(TASK_ID, 'meeting.mp4', { notionPageIds: 'aaaa,bbbb' });
+    const parsed = sendAndParse(notification);
+    assert.deepEqual(parsed, notification);
+    assert.deepEqual(notification.notionPages.map((page) => page.label), ['Notion', 'Notion']);
+  });
+
+  test('Notion に書き込まなかった (チェックポイントがない・不正な値) 場合も受信される', () => {
+    for (const checkpoint of [undefined, {}, { notionPages: [null, { route: 1 }], failedRoutes: 'x' }]) {
+      const notification = buildCompletedNotification(TASK_ID, 'meeting.mp4', checkpoint);
+      assert.deepEqual(sendAndParse(notification), {
+        status: 'completed',
+        taskId: TASK_ID,
+        fileName: 'meeting.mp4',
+        notionPages: [],
+        notionFailedRoutes: [],
+      });
+    }
+  });
+});
+
+describe('buildFailedNotification', () => {
+  test('再試行の回数を含むエラーメッセージが受信される', () => {
+    const notification = buildFailedNotification(TASK_ID, 'meeting.mp4', 'Transcription failed', 3);
+    assert.deepEqual(sendAndParse(notification), {
+      status: 'failed',
+      taskId: TASK_ID,
+      fileName: 'meeting.mp4',
+      errorMessage: 'Transcription failed (3 attempt(s))',
+    });
+  });
+});
+
+describe('parseTaskNotification', () => {
+  test('形式の誤りはエラーメッセージを返す', () => {
+    assert.equal(typeof parseTaskNotification({ status: 'completed', taskId: TASK_ID, fileName: 'a.mp4' }), 'string');
+    assert.equal(typeof parseTaskNotification({ status: 'failed', taskId: TASK_ID, fileName: 'a.mp4' }), 'string');
+    assert.equal(typeof parseTaskNotification({ status: 'done', taskId: TASK_ID, fileName: 'a.mp4' }), 'string');
+    assert.equal(
+      typeof parseTaskNotification({
+        status: 'completed',
+        taskId: TASK_ID,
+        fileName: 'a.mp4',
+        notionPages: [{ label: 'x', url: 'http://example.com' }],
+        notionFailedRoutes: [],
+      }),
+      'string'
+    );
+  });
+});
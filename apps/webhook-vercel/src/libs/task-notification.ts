@@ -0,0 +1,106 @@
+// パイプライン・ジョブワーカーから /api/slack/notify に送る処理結果の通知 (送信側と受信側で共有する型と検証)
+import { notionPageUrl } from './notion/links';
+
+export const TASK_NOTIFICATION_STATUSES = ['completed', 'failed'] as const;
+export type TaskNotificationStatus = typeof TASK_NOTIFICATION_STATUSES[number];
+
+export interface TaskNotificationNotionPage {
+  label: string; // 書き込み先のルート名
+  url: string;
+}
+
+export interface TaskCompletedNotification {
+  status: 'completed';
+  taskId: string;
+  fileName: string;
+  notionPages: TaskNotificationNotionPage[];
+  notionFailedRoutes: string[]; // 書き込みに失敗したルート (詳細は notion_page_mappings)
+}
+
+export interface TaskFailedNotification {
+  status: 'failed';
+  taskId: string;
+  fileName: string;
+  errorMessage: string;
+}
+
+export type TaskNotification = TaskCompletedNotification | TaskFailedNotification;
+
+export function isTaskNotificationStatus(value: unknown): value is TaskNotificationStatus {
+  return typeof value === 'string' && (TASK_NOTIFICATION_STATUSES as readonly string[]).indexOf(value) !== -1;
+}
+
+// Notion のページIDを、Slack から開けるページURLに変換する
+export function toNotificationNotionPages(pages: { route: string; pageId: string }[]): TaskNotificationNotionPage[] {
+  return pages.map((page) => ({ label: page.route, url: notionPageUrl(page.pageId) }));
+}
+
+// notify 段階が送る完了通知。publish 段階のチェックポイント (notionPages、旧形式の notionPageIds、failedRoutes) から作る
+export function buildCompletedNotification(
+  taskId: string,
+  fileName: string,
+  publishCheckpoint: Record<string, unknown> | undefined
+): TaskCompletedNotification {
+  const checkpoint = publishCheckpoint || {};
+  let pages: { route: string; pageId: string }[];
+  if (Array.isArray(checkpoint.notionPages)) {
+    pages = checkpoint.notionPages.filter((page): page is { route: string; pageId: string } =>
+      typeof page === 'object' && page !== null && typeof page.route === 'string' && typeof page.pageId === 'string');
+  } else {
+    pages = (typeof checkpoint.notionPageIds === 'string' ? checkpoint.notionPageIds : '')
+      .split(',')
+      .filter(Boolean)
+      .map((pageId) => ({ route: 'Notion', pageId }));
+  }
+  const failedRoutes = Array.isArray(checkpoint.failedRoutes)
+    ? checkpoint.failedRoutes.filter((route): route is string => typeof route === 'string')
+    : [];
+  return { status: 'completed', taskId, fileName, notionPages: toNotificationNotionPages(pages), notionFailedRoutes: failedRoutes };
+}
+
+// 再試行の上限に達したジョブの失敗通知
+export function buildFailedNotification(taskId: string, fileName: string, errorMessage: string, attempts: number): TaskFailedNotification {
+  return { status: 'failed', taskId, fileName, errorMessage: `${errorMessage} (${attempts} attempt(s))` };
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isNotionPage(value: unknown): value is TaskNotificationNotionPage {
+  if (typeof value !== 'object' || value === null) return false;
+  const page = value as Record<string, unknown>;
+  return typeof page.label === 'string' && isNonEmptyString(page.url) && /^https:\/\//.test(page.url);
+}
+
+// 受信したJSONを検証して通知に変換する。形式に誤りがあればエラーメッセージを返す
+export function parseTaskNotification(value: unknown): TaskNotification | string {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'body must be a JSON object';
+  const body = value as Record<string, unknown>;
+  if (!isNonEmptyString(body.taskId)) return 'taskId is required';
+  if (!isTaskNotificationStatus(body.status)) {
+    return `status must be one of ${TASK_NOTIFICATION_STATUSES.join(', ')} (got ${JSON.stringify(body.status)})`;
+  }
+  if (!isNonEmptyString(body.fileName)) return 'fileName is required';
+
+  if (body.status === 'failed') {
+    if (!isNonEmptyString(body.errorMessage)) return 'errorMessage is required for failed notifications';
+    return { status: 'failed', taskId: body.taskId, fileName: body.fileName, errorMessage: body.errorMessage };
+  }
+
+  if (!Array.isArray(body.notionPages) || !body.notionPages.every(isNotionPage)) {
+    return 'notionPages must be an array of { label, url } with https URLs';
+  }
+  if (!isStringList(body.notionFailedRoutes)) return 'notionFailedRoutes must be an array of strings';
+  return {
+    status: 'completed',
+    taskId: body.taskId,
+    fileName: body.fileName,
+    notionPages: body.notionPages.map((page) => ({ label: page.label, url: page.url })),
+    notionFailedRoutes: body.notionFailedRoutes,
+  };
+}
@@ -0,0 +1,44 @@
+// supabase/functions/_shared/task-status.ts のステータス・遷移が、マイグレーションで DB に登録した内容と一致することを PGlite 上で確認する
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestDatabase, TestDatabase } from '../test/database';
+import { INITIAL_TASK_STATUSES, TASK_STATUS_TRANSITIONS, TASK_STATUSES } from './task-status';
+
+let testDb: TestDatabase;
+
+function sorted(values: string[]): string[] {
+  return [...values].sort();
+}
+
+before(async () => {
+  testDb = await createTestDatabase(['20261019001300', '20261019002000']);
+});
+
+after(async () => {
+  await testDb.db.close();
+});
+
+describe('task status definitions', () => {
+  test('task_status_transitions has exactly the transitions of TASK_STATUS_TRANSITIONS', async () => {
+    const { rows } = await testDb.db.query<{ from_status: string; to_status: string }>(
+      'select from_status, to_status from public.task_status_transitions where from_status is not null'
+    );
+    const expected = Object.entries(TASK_STATUS_TRANSITIONS).flatMap(([from, tos]) => tos.map((to) => `${from} -> ${to}`));
+    assert.deepEqual(sorted(rows.map((row) => `${row.from_status} -> ${row.to_status}`)), sorted(expected));
+  });
+
+  test('rows with a null from_status are INITIAL_TASK_STATUSES', async () => {
+    const { rows } = await testDb.db.query<{ to_status: string }>(
+      'select to_status from public.task_status_transitions where from_status is null'
+    );
+    assert.deepEqual(sorted(rows.map((row) => row.to_status)), sorted([...INITIAL_TASK_STATUSES]));
+  });
+
+  test('the status check constraint allows exactly TASK_STATUSES', async () => {
+    const { rows } = await testDb.db.query<{ definition: string }>(
+      `select pg_get_constraintdef(oid) as definition from pg_constraint where conname = 'transcription_tasks_status_check'`
+    );
+    const allowed = Array.from(rows[0].definition.matchAll(/'([a-z_]+)'/g), (match) => match[1]);
+    assert.deepEqual(sorted(allowed), sorted([...TASK_STATUSES]));
+  });
+});
@@ -0,0 +1,2 @@
+// タスクのステータス定義は Edge Function と共有するため supabase/functions/_shared に置いている
+export * from '../../../../supabase/functions/_shared/task-status';
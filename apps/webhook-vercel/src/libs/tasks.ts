@@ -0,0 +1,68 @@
+// transcription_tasks の更新 (process-task パイプライン・ジョブワーカーで共通利用)
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { TaskStatus } from './task-status';
+
+// Interface for data to update a task in Supabase
+export interface UpdateTaskPayload {
+  error_message?: string | null;
+  transcription_result?: string | null;
+  summary_result?: string | null; // 要約器からの構造化JSONを文字列化したもの
+  notion_page_id?: string | null;
+  processed_at?: string | null;
+  transcription_chunks_total?: number | null;
+  transcription_chunks_completed?: number | null;
+  transcription_provider?: string | null;
+  summary_missing_fields?: string[] | null; // 再試行後も埋まらなかった要約項目
+  summary_attempts?: number | null;
+  summary_section_count?: number | null;
+  summary_template?: string | null;
+  transcript_path?: string | null; // Storage 上の文字起こしテキスト (artifacts.ts)
+  summary_path?: string | null; // Storage 上の要約 Markdown (artifacts.ts)
+}
+
+// タスクのステータスと、処理結果のうち data で指定された項目を更新する
+// 許可されていないステータス遷移は DB のトリガーで拒否され、例外を投げる (task-status.ts)
+export async function updateTaskInSupabase(
+  supabase: SupabaseClient,
+  taskId: string,
+  status: TaskStatus,
+  data?: Partial<UpdateTaskPayload>
+) {
+    console.log(`Updating task ${taskId} in Supabase with status: ${status}`);
+    const updates: { status: TaskStatus; updated_at: string } & Partial<UpdateTaskPayload> = {
+        status,
+        updated_at: new Date().toISOString(),
+    };
+
+    if (data) {
+        // dataオブジェクトからUpdateTaskPayloadに定義されたキーのみを選択的にコピー
+        if (data.error_message !== undefined) updates.error_message = data.error_message;
+        if (data.transcription_result !== undefined) updates.transcription_result = data.transcription_result;
+        if (data.summary_result !== undefined) updates.summary_result = data.summary_result;
+        if (data.notion_page_id !== undefined) updates.notion_page_id = data.notion_page_id;
+        if (data.processed_at !== undefined) updates.processed_at = data.processed_at;
+        if (data.transcription_chunks_total !== undefined) updates.transcription_chunks_total = data.transcription_chunks_total;
+        if (data.transcription_chunks_completed !== undefined) updates.transcription_chunks_completed = data.transcription_chunks_completed;
+        if (data.transcription_provider !== undefined) updates.transcription_provider = data.transcription_provider;
+        if (data.summary_missing_fields !== undefined) updates.summary_missing_fields = data.summary_missing_fields;
+        if (data.summary_attempts !== undefined) updates.summary_attempts = data.summary_attempts;
+        if (data.summary_section_count !== undefined) updates.summary_section_count = data.summary_section_count;
+        if (data.summary_template !== undefined) updates.summary_template = data.summary_template;
+        if (data.transcript_path !== undefined) updates.transcript_path = data.transcript_path;
+        if (data.summary_path !== undefined) updates.summary_path = data.summary_path;
+    }
+
+    if (status === 'completed' && !updates.processed_at) {
+        updates.processed_at = new Date().toISOString(); 
+    }
+
+    const { error } = await supabase
+        .from('transcription_tasks')
+        .update(updates)
+        .eq('id', taskId);
+
+    // 不正な遷移で拒否された場合も含め、更新されなかったことを無視せず呼び出し元 (ジョブ) を失敗させる
+    if (error) {
+        throw new Error(`Failed to update task ${taskId} to ${status}: ${error.message}`);
+    }
+}
@@ -0,0 +1,52 @@
+// 長い音声のチャンク分割 (planAudioChunks) の境界の確認
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AudioChunkPlan, ChunkingOptions, planAudioChunks } from './chunking';
+
+const MB = 1024 * 1024;
+const OPTIONS: ChunkingOptions = { maxBytes: 24 * MB, maxSeconds: 600, overlapSeconds: 5 };
+
+function ranges(chunks: AudioChunkPlan[]): [number, number][] {
+  return chunks.map((c) => [c.startSeconds, c.startSeconds + c.durationSeconds]);
+}
+
+describe('planAudioChunks', () => {
+  test('上限に収まる音声は1チャンクのまま', () => {
+    assert.deepEqual(planAudioChunks(300, 2 * MB, OPTIONS), [{ index: 0, startSeconds: 0, durationSeconds: 300 }]);
+  });
+
+  test('長さ・サイズがちょうど上限の音声も1チャンクのまま', () => {
+    assert.deepEqual(planAudioChunks(600, 24 * MB, OPTIONS), [{ index: 0, startSeconds: 0, durationSeconds: 600 }]);
+  });
+
+  test('長さの上限を超えると重なり付きで分割し、最後のチャンクは音声の終わりで止める', () => {
+    const chunks = planAudioChunks(1500, 10 * MB, OPTIONS);
+    assert.deepEqual(ranges(chunks), [[0, 600], [595, 1195], [1190, 1500]]);
+    assert.deepEqual(chunks.map((c) => c.index), [0, 1, 2]);
+  });
+
+  test('最後のチャンクがちょうど音声の終わりに揃う場合は余分なチャンクを作らない', () => {
+    assert.deepEqual(ranges(planAudioChunks(1195, 10 * MB, OPTIONS)), [[0, 600], [595, 1195]]);
+  });
+
+  test('上限をわずかに超える場合は短い最後のチャンクを作る', () => {
+    assert.deepEqual(ranges(planAudioChunks(600.5, 10 * MB, OPTIONS)), [[0, 600], [595, 600.5]]);
+  });
+
+  test('サイズの上限を超える場合は平均ビットレートの 90% に収まる長さで分割する', () => {
+    // 2 バイト/秒・上限 500 バイト → 250 秒の 90% = 225 秒
+    const chunks = planAudioChunks(1000, 2000, { maxBytes: 500, maxSeconds: 600, overlapSeconds: 5 });
+    assert.deepEqual(ranges(chunks), [[0, 225], [220, 445], [440, 665], [660, 885], [880, 1000]]);
+    for (const chunk of chunks) {
+      assert.ok(chunk.durationSeconds * 2 <= 500, `chunk ${chunk.index} exceeds maxBytes`);
+    }
+  });
+
+  test('チャンクが重なりの2倍以下の長さになる設定はエラー', () => {
+    assert.throws(() => planAudioChunks(100, MB, { maxBytes: 24 * MB, maxSeconds: 10, overlapSeconds: 5 }), /too short for overlap/);
+  });
+
+  test('長さが0以下の音声はエラー', () => {
+    assert.throws(() => planAudioChunks(0, MB, OPTIONS), /Invalid audio duration/);
+  });
+});
@@ -0,0 +1,62 @@
+import { readPositiveNumberEnv } from '../env';
+
+// プロバイダが上限を持たない場合のデフォルト (Whisper API の 25MB 上限に合わせる)
+const DEFAULT_CHUNK_MAX_BYTES = 24 * 1024 * 1024;
+const DEFAULT_CHUNK_MAX_SECONDS = 10 * 60;
+const DEFAULT_CHUNK_OVERLAP_SECONDS = 5;
+
+export interface ChunkingOptions {
+  maxBytes: number;
+  maxSeconds: number;
+  overlapSeconds: number;
+}
+
+// 音声全体に対するチャンクの区間 (秒)
+export interface AudioChunkPlan {
+  index: number;
+  startSeconds: number;
+  durationSeconds: number;
+}
+
+// providerMaxBytes はプロバイダのアップロード上限。環境変数で指定しても上限を超えないようにする
+export function getChunkingOptionsFromEnv(providerMaxBytes?: number): ChunkingOptions {
+  const configuredMaxBytes = readPositiveNumberEnv('TRANSCRIPTION_CHUNK_MAX_BYTES', providerMaxBytes ?? DEFAULT_CHUNK_MAX_BYTES);
+  return {
+    maxBytes: providerMaxBytes ? Math.min(configuredMaxBytes, providerMaxBytes) : configuredMaxBytes,
+    maxSeconds: readPositiveNumberEnv('TRANSCRIPTION_CHUNK_MAX_SECONDS', DEFAULT_CHUNK_MAX_SECONDS),
+    overlapSeconds: readPositiveNumberEnv('TRANSCRIPTION_CHUNK_OVERLAP_SECONDS', DEFAULT_CHUNK_OVERLAP_SECONDS),
+  };
+}
+
+// 音声の長さとファイルサイズから、サイズ上限に収まる重なり付きチャンクの区間を計算する
+export function planAudioChunks(
+  totalDurationSeconds: number,
+  totalBytes: number,
+  options: ChunkingOptions
+): AudioChunkPlan[] {
+  if (totalDurationSeconds <= 0) {
+    throw new Error(`Invalid audio duration: ${totalDurationSeconds}`);
+  }
+
+  // 平均ビットレートからサイズ上限に収まる秒数を求める (VBR のばらつきを考慮して 90% に抑える)
+  const bytesPerSecond = totalBytes / totalDurationSeconds;
+  const maxSecondsBySize = bytesPerSecond > 0 ? (options.maxBytes / bytesPerSecond) * 0.9 : options.maxSeconds;
+  const chunkSeconds = Math.floor(Math.min(options.maxSeconds, maxSecondsBySize));
+
+  if (totalBytes <= options.maxBytes && totalDurationSeconds <= options.maxSeconds) {
+    return [{ index: 0, startSeconds: 0, durationSeconds: totalDurationSeconds }];
+  }
+  if (chunkSeconds <= options.overlapSeconds * 2) {
+    throw new Error(`Chunk length ${chunkSeconds}s is too short for overlap ${options.overlapSeconds}s. Check chunking settings.`);
+  }
+
+  const chunks: AudioChunkPlan[] = [];
+  let startSeconds = 0;
+  while (startSeconds < totalDurationSeconds) {
+    const endSeconds = Math.min(startSeconds + chunkSeconds, totalDurationSeconds);
+    chunks.push({ index: chunks.length, startSeconds, durationSeconds: endSeconds - startSeconds });
+    if (endSeconds >= totalDurationSeconds) break;
+    startSeconds = endSeconds - options.overlapSeconds;
+  }
+  return chunks;
+}
@@ -0,0 +1,59 @@
+// 文字起こしプロバイダの選択と、偽のプロバイダ (テスト・オフライン実行用) の出力を確認する
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import process from "node:process";
+import { restoreEnv } from '../../test/env';
+import { getTranscriptionProvider, resolveTranscriptionProviderName } from './provider';
+
+const originalProvider = process.env.TRANSCRIPTION_PROVIDER;
+const originalLocalBaseUrl = process.env.LOCAL_WHISPER_BASE_URL;
+
+afterEach(() => {
+  restoreEnv('TRANSCRIPTION_PROVIDER', originalProvider);
+  restoreEnv('LOCAL_WHISPER_BASE_URL', originalLocalBaseUrl);
+});
+
+describe('resolveTranscriptionProviderName', () => {
+  test('タスクの指定 → TRANSCRIPTION_PROVIDER → openai-whisper の順に決める', () => {
+    process.env.TRANSCRIPTION_PROVIDER = 'gemini';
+    assert.equal(resolveTranscriptionProviderName('fake'), 'fake');
+    assert.equal(resolveTranscriptionProviderName(null), 'gemini');
+    delete process.env.TRANSCRIPTION_PROVIDER;
+    assert.equal(resolveTranscriptionProviderName(undefined), 'openai-whisper');
+  });
+
+  test('不明な名前は無視して次の候補を使う', () => {
+    process.env.TRANSCRIPTION_PROVIDER = 'local-whisper';
+    assert.equal(resolveTranscriptionProviderName('whisper-large'), 'local-whisper');
+    process.env.TRANSCRIPTION_PROVIDER = 'unknown';
+    assert.equal(resolveTranscriptionProviderName('whisper-large'), 'openai-whisper');
+  });
+});
+
+describe('getTranscriptionProvider', () => {
+  test('local-whisper は LOCAL_WHISPER_BASE_URL がないとエラー', () => {
+    delete process.env.LOCAL_WHISPER_BASE_URL;
+    assert.throws(() => getTranscriptionProvider('local-whisper'), /LOCAL_WHISPER_BASE_URL/);
+  });
+
+  test('fake はチャンクの長さから 10 秒ごとのセグメントと単語を決定的に返す', async () => {
+    const provider = getTranscriptionProvider('fake');
+    assert.equal(provider.name, 'fake');
+    const input = { filePath: '/tmp/unused.mp3', mimeType: 'audio/mpeg', durationSeconds: 25, label: 'test' };
+
+    const first = await provider.transcribeChunk(input);
+    const second = await provider.transcribeChunk(input);
+
+    assert.deepEqual(first, second);
+    assert.deepEqual(first.segments, [
+      { start: 0, end: 10, text: 'fake segment 1', speaker: '話者A' },
+      { start: 10, end: 20, text: 'fake segment 2', speaker: '話者B' },
+      { start: 20, end: 25, text: 'fake segment 3', speaker: '話者A' },
+    ]);
+    assert.equal(first.text, 'fake segment 1 fake segment 2 fake segment 3');
+    assert.equal(first.words.length, 9);
+    for (const word of first.words) {
+      assert.ok(word.start >= 0 && word.end <= 25 && word.start < word.end);
+    }
+  });
+});
@@ -0,0 +1,67 @@
+// 文字起こしプロバイダの共通インターフェースと、タスク/環境変数に応じたプロバイダの選択
+import process from "node:process";
+import type { ChunkTranscript } from './types';
+import { createOpenAIWhisperProvider } from './providers/openai-whisper';
+import { createGeminiAudioProvider } from './providers/gemini-audio';
+import { createLocalWhisperProvider } from './providers/local-whisper';
+import { createFakeTranscriptionProvider } from './providers/fake';
+
+export const TRANSCRIPTION_PROVIDER_NAMES = ['openai-whisper', 'gemini', 'local-whisper', 'fake'] as const;
+export type TranscriptionProviderName = typeof TRANSCRIPTION_PROVIDER_NAMES[number];
+
+const DEFAULT_TRANSCRIPTION_PROVIDER: TranscriptionProviderName = 'openai-whisper';
+
+// 1チャンク分の音声ファイル
+export interface TranscriptionChunkInput {
+  filePath: string;
+  mimeType: string;
+  durationSeconds: number;
+  label: string; // ログ用 (例: "meeting.mp4 [chunk 2/9]")
+}
+
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName;
+  // プロバイダが受け付ける1リクエストあたりの最大ファイルサイズ (チャンク分割に使用)
+  readonly maxChunkBytes?: number;
+  transcribeChunk(input: TranscriptionChunkInput): Promise<ChunkTranscript>;
+}
+
+export function isTranscriptionProviderName(value: unknown): value is TranscriptionProviderName {
+  return typeof value === 'string' && (TRANSCRIPTION_PROVIDER_NAMES as readonly string[]).indexOf(value) !== -1;
+}
+
+// タスクで指定されたプロバイダ → 環境変数 TRANSCRIPTION_PROVIDER → デフォルトの順で決定する
+export function resolveTranscriptionProviderName(taskProvider?: string | null): TranscriptionProviderName {
+  if (taskProvider) {
+    if (isTranscriptionProviderName(taskProvider)) return taskProvider;
+    console.warn(`Unknown transcription provider on task: ${taskProvider}. Falling back to env config.`);
+  }
+  const envProvider = process.env.TRANSCRIPTION_PROVIDER;
+  if (envProvider) {
+    if (isTranscriptionProviderName(envProvider)) return envProvider;
+    console.warn(`Unknown TRANSCRIPTION_PROVIDER: ${envProvider}. Falling back to ${DEFAULT_TRANSCRIPTION_PROVIDER}.`);
+  }
+  return DEFAULT_TRANSCRIPTION_PROVIDER;
+}
+
+export function getTranscriptionProvider(name: TranscriptionProviderName): TranscriptionProvider {
+  switch (name) {
+    case 'openai-whisper':
+      return createOpenAIWhisperProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1',
+      });
+    case 'gemini':
+      return createGeminiAudioProvider({
+        apiKey: process.env.GEMINI_API_KEY,
+        model: process.env.GEMINI_TRANSCRIPTION_MODEL || 'gemini-1.5-flash',
+      });
+    case 'local-whisper':
+      return createLocalWhisperProvider({
+        baseUrl: process.env.LOCAL_WHISPER_BASE_URL,
+        model: process.env.LOCAL_WHISPER_MODEL || 'whisper-1',
+      });
+    case 'fake':
+      return createFakeTranscriptionProvider();
+  }
+}
@@ -0,0 +1,32 @@
+// テスト・オフライン実行用の決定的な文字起こしプロバイダ
+// 外部 API を呼ばず、チャンクの長さから一定間隔のセグメントを生成する
+import type { TranscriptionChunkInput, TranscriptionProvider } from '../provider';
+import type { ChunkTranscript, TimedWord, TranscriptSegment } from '../types';
+
+const FAKE_SEGMENT_SECONDS = 10;
+
+export function createFakeTranscriptionProvider(): TranscriptionProvider {
+  return {
+    name: 'fake',
+    async transcribeChunk(input: TranscriptionChunkInput): Promise<ChunkTranscript> {
+      console.log(`[Fake Transcription] Generating transcript for ${input.label}`);
+      const segments: TranscriptSegment[] = [];
+      const words: TimedWord[] = [];
+      for (let start = 0; start < input.durationSeconds; start += FAKE_SEGMENT_SECONDS) {
+        const end = Math.min(start + FAKE_SEGMENT_SECONDS, input.durationSeconds);
+        const index = segments.length + 1;
+        const segmentWords = ['fake', 'segment', String(index)];
+        const wordSeconds = (end - start) / segmentWords.length;
+        segmentWords.forEach((word, i) => {
+          words.push({ word, start: start + i * wordSeconds, end: start + (i + 1) * wordSeconds });
+        });
+        segments.push({ start, end, text: segmentWords.join(' '), speaker: index % 2 === 1 ? '話者A' : '話者B' });
+      }
+      return {
+        text: segments.map((s) => s.text).join(' '),
+        segments,
+        words,
+      };
+    },
+  };
+}
@@ -0,0 +1,75 @@
+// Gemini の音声入力による文字起こし
+import { promises as fs } from 'node:fs';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { TranscriptionChunkInput, TranscriptionProvider } from '../provider';
+import type { ChunkTranscript, TranscriptSegment } from '../types';
+
+// インラインデータで送れるリクエストサイズは 20MB まで。base64 化で約 4/3 倍になる分を差し引く
+const GEMINI_MAX_CHUNK_BYTES = 14 * 1024 * 1024;
+
+export interface GeminiAudioProviderOptions {
+  apiKey: string | undefined;
+  model: string;
+}
+
+const TRANSCRIPTION_PROMPT = `この音声を一字一句そのまま文字起こししてください。
+発言のまとまりごとに区切り、以下の形式のJSON配列のみを出力してください。説明や前置きは不要です。
+start と end は音声先頭からの秒数 (小数可) です。話者が区別できる場合は speaker に「話者A」「話者B」のようなラベルを入れ、区別できない場合は null としてください。
+
+[{"start": 0.0, "end": 4.2, "speaker": "話者A", "text": "発言内容"}]`;
+
+function parseGeminiSegments(responseText: string, label: string): TranscriptSegment[] {
+  const cleaned = responseText.replace(/^```json\n?|\n?```$/g, "").trim();
+  const parsed: unknown = JSON.parse(cleaned);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Gemini transcription for ${label} did not return a JSON array.`);
+  }
+  return parsed
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    .map((item) => ({
+      start: Number(item.start) || 0,
+      end: Number(item.end) || Number(item.start) || 0,
+      text: String(item.text ?? '').trim(),
+      speaker: typeof item.speaker === 'string' && item.speaker ? item.speaker : null,
+    }))
+    .filter((segment) => segment.text.length > 0);
+}
+
+export function createGeminiAudioProvider(options: GeminiAudioProviderOptions): TranscriptionProvider {
+  if (!options.apiKey) {
+    throw new Error('Missing API key for transcription provider gemini.');
+  }
+  const genAI = new GoogleGenerativeAI(options.apiKey);
+
+  return {
+    name: 'gemini',
+    maxChunkBytes: GEMINI_MAX_CHUNK_BYTES,
+    async transcribeChunk(input: TranscriptionChunkInput): Promise<ChunkTranscript> {
+      console.log(`[Gemini Transcription Start] ${options.model} transcribing ${input.label}`);
+      try {
+        const audioData = await fs.readFile(input.filePath);
+        const model = genAI.getGenerativeModel({ model: options.model });
+        const result = await model.generateContent({
+          contents: [{
+            role: "user",
+            parts: [
+              { inlineData: { mimeType: input.mimeType, data: audioData.toString('base64') } },
+              { text: TRANSCRIPTION_PROMPT },
+            ],
+          }],
+          generationConfig: { responseMimeType: "application/json" },
+        });
+        const segments = parseGeminiSegments(result.response.text(), input.label);
+        console.log(`[Gemini Transcription Success] ${segments.length} segment(s) for ${input.label}`);
+        return {
+          text: segments.map((s) => s.text).join('\n'),
+          segments,
+          words: [], // Gemini は単語単位のタイムスタンプを返さない
+        };
+      } catch (e: unknown) {
+        console.error(`[Gemini Transcription Error] Error transcribing ${input.label}:`, e);
+        throw new Error(`Gemini transcription request failed for ${input.label}: ${(e instanceof Error) ? e.message : String(e)}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,27 @@
+// ローカルの whisper.cpp / faster-whisper HTTP サーバーによる文字起こし
+// どちらも OpenAI 互換の /v1/audio/transcriptions エンドポイントを公開できるため、OpenAI SDK をそのまま使う
+// (whisper.cpp の場合は `--inference-path /v1/audio/transcriptions` を指定して起動する)
+import type { TranscriptionProvider } from '../provider';
+import { createOpenAIWhisperProvider } from './openai-whisper';
+
+// ローカルサーバーにはアップロード上限がないため、チャンク分割は時間上限のみで行う
+const LOCAL_MAX_CHUNK_BYTES = 200 * 1024 * 1024;
+
+export interface LocalWhisperProviderOptions {
+  baseUrl: string | undefined; // 例: http://localhost:8080/v1
+  model: string;
+}
+
+export function createLocalWhisperProvider(options: LocalWhisperProviderOptions): TranscriptionProvider {
+  if (!options.baseUrl) {
+    throw new Error('LOCAL_WHISPER_BASE_URL must be set to use the local-whisper transcription provider.');
+  }
+  return createOpenAIWhisperProvider({
+    name: 'local-whisper',
+    // ローカルサーバーは API キーを検証しないが、SDK が必須とするためダミー値を渡す
+    apiKey: 'local',
+    baseURL: options.baseUrl,
+    model: options.model,
+    maxChunkBytes: LOCAL_MAX_CHUNK_BYTES,
+  });
+}
@@ -0,0 +1,87 @@
+// OpenAI Whisper API (および OpenAI 互換 API) による文字起こし
+import { createReadStream } from 'node:fs';
+import path from 'node:path';
+import OpenAI from 'openai';
+import { toFile } from 'openai/uploads'; // OpenAI SDKのtoFileユーティリティ
+import type { TranscriptionChunkInput, TranscriptionProvider, TranscriptionProviderName } from '../provider';
+import type { ChunkTranscript } from '../types';
+
+// Whisper API のアップロード上限は 25MB。ヘッダ等の余裕を見て少し小さくする
+const OPENAI_MAX_CHUNK_BYTES = 24 * 1024 * 1024;
+
+export interface OpenAIWhisperProviderOptions {
+  apiKey: string | undefined;
+  model: string;
+  baseURL?: string;
+  name?: TranscriptionProviderName;
+  maxChunkBytes?: number;
+}
+
+function logOpenAIError(error: unknown, label: string) {
+  console.error(`[Whisper Chunk Error] Error during Whisper API transcription for ${label}.`);
+  console.error('[Whisper Chunk Error] Raw error object:', error);
+
+  if (error instanceof OpenAI.APIError) {
+    console.error('[Whisper Chunk Error] OpenAI APIError Details:');
+    console.error(`  Status: ${error.status}`);
+    console.error(`  Code: ${error.code}`);
+    console.error(`  Param: ${error.param}`);
+    console.error(`  Type: ${error.type}`);
+    console.error(`  Message: ${error.message}`);
+    if (error.headers) {
+      console.error(`  Headers: ${JSON.stringify(error.headers, null, 2)}`);
+    }
+    if (error.error) {
+        console.error(`  Error object from API: ${JSON.stringify(error.error, null, 2)}`);
+    }
+  } else if (error instanceof Error) {
+      console.error('[Whisper Chunk Error] Standard Error Details:');
+      console.error(`  Name: ${error.name}`);
+      console.error(`  Message: ${error.message}`);
+      if (error.stack) {
+          console.error(`  Stack: ${error.stack}`);
+      }
+      if (error.cause) {
+           console.error('  Cause:', error.cause);
+      }
+  } else {
+      console.error('[Whisper Chunk Error] Unknown error type during Whisper API transcription.');
+  }
+}
+
+export function createOpenAIWhisperProvider(options: OpenAIWhisperProviderOptions): TranscriptionProvider {
+  const name = options.name || 'openai-whisper';
+  if (!options.apiKey) {
+    throw new Error(`Missing API key for transcription provider ${name}.`);
+  }
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+
+  return {
+    name,
+    maxChunkBytes: options.maxChunkBytes ?? OPENAI_MAX_CHUNK_BYTES,
+    async transcribeChunk(input: TranscriptionChunkInput): Promise<ChunkTranscript> {
+      console.log(`[Whisper Chunk Start] ${name} (${options.model}) transcribing ${input.label}`);
+      try {
+        const fileForApi = await toFile(createReadStream(input.filePath), path.basename(input.filePath), { type: input.mimeType });
+        console.log(`[Whisper Chunk Detail] Created file object for ${input.label}, Name: ${fileForApi.name}, Size: ${fileForApi.size}, Type: ${fileForApi.type}`);
+
+        const transcription = await client.audio.transcriptions.create({
+            model: options.model,
+            file: fileForApi,
+            response_format: 'verbose_json',
+            timestamp_granularities: ['word', 'segment'],
+        });
+
+        console.log(`[Whisper Chunk Success] Transcription successful for ${input.label}. Text length: ${transcription.text.length}`);
+        return {
+          text: transcription.text,
+          segments: (transcription.segments || []).map((s) => ({ start: s.start, end: s.end, text: s.text })),
+          words: (transcription.words || []).map((w) => ({ word: w.word, start: w.start, end: w.end })),
+        };
+      } catch (error: unknown) {
+        logOpenAIError(error, input.label);
+        throw new Error(`Whisper API request failed for ${input.label}: ${(error instanceof Error) ? error.message : String(error)}`);
+      }
+    },
+  };
+}
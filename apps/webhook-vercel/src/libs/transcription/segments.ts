@@ -0,0 +1,112 @@
+// 文字起こしセグメントの整形と transcript_segments テーブルへの保存
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { TranscriptSegment } from './types';
+
+const BATCH_SIZE = 500; // 挿入・読み込みの1回あたりの行数
+
+// 要約中のタイムスタンプ引用 ([HH:MM:SS] 形式)
+export const TIMESTAMP_CITATION_PATTERN = /\[(\d{1,2}):(\d{2}):(\d{2})\]/g;
+
+// 秒数を HH:MM:SS 形式に変換する
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return [h, m, s].map((n) => String(n).padStart(2, '0')).join(':');
+}
+
+export function parseTimestamp(timestamp: string): number | undefined {
+  const match = timestamp.match(/^(\d{1,2}):(\d{2}):(\d{2})$/);
+  if (!match) return undefined;
+  return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+}
+
+// LLM に渡すための「[HH:MM:SS] 話者: 本文」形式の文字起こしを作る
+export function formatSegmentsForPrompt(segments: TranscriptSegment[]): string {
+  return segments
+    .map((s) => `[${formatTimestamp(s.start)}] ${s.speaker ? `${s.speaker}: ` : ''}${s.text}`)
+    .join('\n');
+}
+
+// テキストを通常部分とタイムスタンプ引用部分に分割する (Notion 等で引用を強調表示するため)
+export function splitTimestampCitations(text: string): { text: string; isCitation: boolean }[] {
+  const parts: { text: string; isCitation: boolean }[] = [];
+  let lastIndex = 0;
+  const pattern = new RegExp(TIMESTAMP_CITATION_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, match.index), isCitation: false });
+    }
+    parts.push({ text: match[0], isCitation: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex), isCitation: false });
+  }
+  return parts;
+}
+
+// タスクのセグメントを置き換え保存する (再処理時は古いセグメントを削除してから挿入)
+export async function saveTranscriptSegments(
+  supabase: SupabaseClient,
+  taskId: string,
+  segments: TranscriptSegment[]
+): Promise<void> {
+  console.log(`[Segments] Saving ${segments.length} segment(s) for task ${taskId}`);
+  const { error: deleteError } = await supabase
+    .from('transcript_segments')
+    .delete()
+    .eq('task_id', taskId);
+  if (deleteError) {
+    throw new Error(`Failed to clear transcript segments for task ${taskId}: ${deleteError.message}`);
+  }
+
+  const rows = segments.map((s, index) => ({
+    task_id: taskId,
+    segment_index: index,
+    start_seconds: s.start,
+    end_seconds: s.end,
+    text: s.text,
+    speaker_label: s.speaker ?? null,
+  }));
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('transcript_segments')
+      .insert(rows.slice(i, i + BATCH_SIZE));
+    if (error) {
+      throw new Error(`Failed to insert transcript segments for task ${taskId}: ${error.message}`);
+    }
+  }
+}
+
+// 保存済みのセグメントを再生順に読み込む (要約から再開する場合など)。PostgREST の取得上限を超えないようページ単位で読む
+export async function loadTranscriptSegments(
+  supabase: SupabaseClient,
+  taskId: string
+): Promise<TranscriptSegment[]> {
+  const segments: TranscriptSegment[] = [];
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('transcript_segments')
+      .select('start_seconds, end_seconds, text, speaker_label')
+      .eq('task_id', taskId)
+      .order('segment_index', { ascending: true })
+      .range(offset, offset + BATCH_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to load transcript segments for task ${taskId}: ${error.message}`);
+    }
+    const rows = data || [];
+    for (const row of rows) {
+      segments.push({
+        start: row.start_seconds as number,
+        end: row.end_seconds as number,
+        text: row.text as string,
+        speaker: row.speaker_label as string | null,
+      });
+    }
+    if (rows.length < BATCH_SIZE) break;
+  }
+  return segments;
+}
@@ -0,0 +1,110 @@
+// チャンクごとの文字起こしの結合 (stitchChunkTranscripts) で、重なり区間の重複が除かれることを確認する
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { planAudioChunks } from './chunking';
+import { createFakeTranscriptionProvider } from './providers/fake';
+import { stitchChunkTranscripts, TranscribedChunk } from './stitch';
+import type { TimedWord } from './types';
+
+function words(...entries: [string, number][]): TimedWord[] {
+  return entries.map(([word, start]) => ({ word, start, end: start + 0.4 }));
+}
+
+describe('stitchChunkTranscripts', () => {
+  test('重なり区間は中間点で分け、境界で重複した単語を取り除く', () => {
+    // チャンク 0: 0〜60秒、チャンク 1: 55〜115秒 (中間点 57.5秒)
+    const chunks: TranscribedChunk[] = [
+      {
+        plan: { index: 0, startSeconds: 0, durationSeconds: 60 },
+        transcript: {
+          text: 'good morning hello world again',
+          segments: [{ start: 0, end: 60, text: 'good morning hello world again' }],
+          words: words(['good', 1], ['morning', 2], ['hello', 56.5], ['world', 57.2], ['again', 58.5]),
+        },
+      },
+      {
+        plan: { index: 1, startSeconds: 55, durationSeconds: 60 },
+        transcript: {
+          text: 'hello world. again and next topic',
+          segments: [{ start: 0, end: 60, text: 'hello world. again and next topic' }],
+          // 中間点の前後でタイムスタンプがずれ、"world" が両方のチャンクに残る
+          words: words(['hello', 1.4], ['World.', 2.6], ['again', 3.5], ['and', 4], ['next', 10], ['topic', 11]),
+        },
+      },
+    ];
+
+    const transcript = stitchChunkTranscripts(chunks, 115);
+
+    assert.deepEqual(transcript.words.map((w) => w.word), ['good', 'morning', 'hello', 'world', 'again', 'and', 'next', 'topic']);
+    assert.deepEqual(transcript.words.map((w) => w.start), [1, 2, 56.5, 57.2, 58.5, 59, 65, 66]);
+    assert.equal(transcript.text, 'good morning hello world again and next topic');
+    assert.equal(transcript.durationSeconds, 115);
+  });
+
+  test('単語タイムスタンプがない場合はセグメントの中間点で振り分け、直前と同じセグメントを除く', () => {
+    const chunks: TranscribedChunk[] = [
+      {
+        plan: { index: 1, startSeconds: 55, durationSeconds: 60 },
+        transcript: {
+          text: '',
+          segments: [
+            { start: 0, end: 4, text: 'それでは始めます。' }, // 55〜59秒 (中間点 57秒 → チャンク 0 の範囲)
+            { start: 3, end: 8, text: '本日の議題です。' }, // 58〜63秒 (中間点 60.5秒)
+            { start: 8, end: 12, text: '本日の議題です。' },
+            { start: 12, end: 20, text: '次に進みます。' },
+          ],
+          words: [],
+        },
+      },
+      {
+        plan: { index: 0, startSeconds: 0, durationSeconds: 60 },
+        transcript: {
+          text: '',
+          segments: [
+            { start: 0, end: 10, text: 'おはようございます。' },
+            { start: 54, end: 59, text: 'それでは始めます。' }, // 中間点 56.5秒
+            { start: 58, end: 60, text: '本日の' }, // 中間点 59秒 (チャンク 1 の範囲)
+          ],
+          words: [],
+        },
+      },
+    ];
+
+    const transcript = stitchChunkTranscripts(chunks, 115);
+
+    assert.deepEqual(transcript.segments.map((s) => [s.start, s.end, s.text]), [
+      [0, 10, 'おはようございます。'],
+      [54, 59, 'それでは始めます。'],
+      [58, 63, '本日の議題です。'],
+      [67, 75, '次に進みます。'],
+    ]);
+    assert.equal(transcript.text, 'おはようございます。それでは始めます。本日の議題です。次に進みます。');
+  });
+
+  test('偽のプロバイダで分割して文字起こししても、単語・セグメントの時刻が前後せず音声の範囲に収まる', async () => {
+    const provider = createFakeTranscriptionProvider();
+    const plans = planAudioChunks(1500, 10 * 1024 * 1024, { maxBytes: 24 * 1024 * 1024, maxSeconds: 600, overlapSeconds: 5 });
+    const chunks: TranscribedChunk[] = [];
+    for (const plan of plans) {
+      const transcript = await provider.transcribeChunk({
+        filePath: `/tmp/chunk-${plan.index}.mp3`,
+        mimeType: 'audio/mpeg',
+        durationSeconds: plan.durationSeconds,
+        label: `test [chunk ${plan.index + 1}/${plans.length}]`,
+      });
+      chunks.push({ plan, transcript });
+    }
+
+    const transcript = stitchChunkTranscripts(chunks, 1500);
+
+    assert.ok(transcript.words.length > 0);
+    transcript.words.forEach((word, i) => {
+      assert.ok(word.start >= 0 && word.start < 1500, `word ${i} is out of range: ${word.start}`);
+      if (i > 0) assert.ok(word.start >= transcript.words[i - 1].start, `word ${i} goes back in time`);
+    });
+    // 中間点をまたぐ単語の終わりまでは前のセグメントに残るため、セグメントは開始時刻の順であることだけを確認する
+    transcript.segments.forEach((segment, i) => {
+      if (i > 0) assert.ok(segment.start >= transcript.segments[i - 1].start, `segment ${i} goes back in time`);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import type { AudioChunkPlan } from './chunking';
+import type { ChunkTranscript, TranscriptSegment, TimedWord, Transcript } from './types';
+
+// 重複判定で比較する最大単語数
+const MAX_DEDUPE_WORDS = 8;
+// 重複とみなす単語同士の開始時刻のずれ (秒)
+const DEDUPE_TIME_TOLERANCE_SECONDS = 1.0;
+
+export interface TranscribedChunk {
+  plan: AudioChunkPlan;
+  transcript: ChunkTranscript;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[\s.,!?、。！？「」『』"'()（）]/g, '');
+}
+
+// 英数字同士が隣接する場合のみ空白を挟んで連結する (日本語は空白なしで連結)
+export function joinTextParts(parts: string[]): string {
+  let result = '';
+  for (const raw of parts) {
+    const part = raw.trim();
+    if (!part) continue;
+    if (result && /[A-Za-z0-9]$/.test(result) && /^[A-Za-z0-9]/.test(part)) {
+      result += ' ';
+    } else if (result && /[.,!?]$/.test(result)) {
+      result += ' ';
+    }
+    result += part;
+  }
+  return result;
+}
+
+// 既に確定した単語列の末尾と、次チャンクの先頭で同じ単語が続く数を求める
+function countDuplicatedLeadingWords(accepted: TimedWord[], incoming: TimedWord[]): number {
+  const maxCount = Math.min(MAX_DEDUPE_WORDS, accepted.length, incoming.length);
+  for (let count = maxCount; count > 0; count--) {
+    let matched = true;
+    for (let i = 0; i < count; i++) {
+      const prev = accepted[accepted.length - count + i];
+      const next = incoming[i];
+      if (normalizeWord(prev.word) !== normalizeWord(next.word) ||
+          Math.abs(prev.start - next.start) > DEDUPE_TIME_TOLERANCE_SECONDS) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) return count;
+  }
+  return 0;
+}
+
+// チャンクごとの文字起こし結果を、タイムスタンプを絶対時刻に補正しながら1つに結合する。
+// 重なり区間は中間点で分割し、境界付近で重複した単語は取り除く。
+export function stitchChunkTranscripts(chunks: TranscribedChunk[], totalDurationSeconds: number): Transcript {
+  const sorted = chunks.slice().sort((a, b) => a.plan.startSeconds - b.plan.startSeconds);
+  const words: TimedWord[] = [];
+  const segments: TranscriptSegment[] = [];
+  const fallbackTexts: string[] = [];
+
+  let lowerBound = -Infinity;
+  sorted.forEach((chunk, i) => {
+    const offset = chunk.plan.startSeconds;
+    const next = sorted[i + 1];
+    const chunkEnd = offset + chunk.plan.durationSeconds;
+    const upperBound = next ? (next.plan.startSeconds + chunkEnd) / 2 : Infinity;
+
+    const shiftedWords = chunk.transcript.words
+      .map((w) => ({ word: w.word, start: w.start + offset, end: w.end + offset }))
+      .filter((w) => w.start >= lowerBound && w.start < upperBound);
+    const duplicated = countDuplicatedLeadingWords(words, shiftedWords);
+    if (duplicated > 0) {
+      console.log(`[Stitch] Removed ${duplicated} duplicated word(s) at the start of chunk ${chunk.plan.index}.`);
+    }
+    const acceptedWords = shiftedWords.slice(duplicated);
+    words.push(...acceptedWords);
+
+    const shiftedSegments = chunk.transcript.segments
+      .map((s) => ({ start: s.start + offset, end: s.end + offset, text: s.text.trim(), speaker: s.speaker ?? null }));
+
+    if (chunk.transcript.words.length > 0) {
+      // 単語タイムスタンプがある場合は、重複除去後の単語からセグメント本文を組み立て直す。
+      // 境界をまたぐセグメントは、採用された単語の範囲に切り詰める。
+      shiftedSegments.forEach((segment, segIndex) => {
+        const isLast = segIndex === shiftedSegments.length - 1;
+        const segmentWords = acceptedWords.filter((w) =>
+          w.start >= segment.start && (w.start < segment.end || (isLast && w.start <= segment.end)));
+        if (segmentWords.length === 0) return;
+        segments.push({
+          start: Math.max(segment.start, segmentWords[0].start),
+          end: Math.min(segment.end, segmentWords[segmentWords.length - 1].end),
+          text: joinTextParts(segmentWords.map((w) => w.word)),
+          speaker: segment.speaker,
+        });
+      });
+    } else {
+      // 単語タイムスタンプがない場合は、セグメントの中間点で振り分け、直前と同一のセグメントを除去する
+      for (const segment of shiftedSegments) {
+        const mid = (segment.start + segment.end) / 2;
+        if (mid < lowerBound || mid >= upperBound || !segment.text) continue;
+        const previous = segments[segments.length - 1];
+        if (previous && normalizeWord(previous.text) === normalizeWord(segment.text)) continue;
+        segments.push(segment);
+      }
+    }
+
+    if (chunk.transcript.segments.length === 0) {
+      fallbackTexts.push(chunk.transcript.text);
+    }
+    lowerBound = upperBound;
+  });
+
+  const text = segments.length > 0
+    ? joinTextParts(segments.map((s) => s.text))
+    : joinTextParts(fallbackTexts);
+
+  return { text, segments, words, durationSeconds: totalDurationSeconds };
+}
+
+// 先頭の無音を除去した音声の文字起こし結果を、元の動画の時刻に合わせる
+export function offsetTranscript(transcript: Transcript, offsetSeconds: number): Transcript {
+  if (offsetSeconds === 0) return transcript;
+  return {
+    text: transcript.text,
+    segments: transcript.segments.map((s) => ({ ...s, start: s.start + offsetSeconds, end: s.end + offsetSeconds })),
+    words: transcript.words.map((w) => ({ ...w, start: w.start + offsetSeconds, end: w.end + offsetSeconds })),
+    durationSeconds: transcript.durationSeconds + offsetSeconds,
+  };
+}
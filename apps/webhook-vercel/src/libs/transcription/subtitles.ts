@@ -0,0 +1,33 @@
+// 文字起こしセグメントから字幕ファイル (SRT / WebVTT) を作る
+import type { TranscriptSegment } from './types';
+
+// 秒数を HH:MM:SS{separator}mmm 形式に変換する (SRT は ","、WebVTT は ".")
+function formatSubtitleTime(totalSeconds: number, separator: ',' | '.'): string {
+  const millis = Math.max(0, Math.round(totalSeconds * 1000));
+  const h = Math.floor(millis / 3600000);
+  const m = Math.floor((millis % 3600000) / 60000);
+  const s = Math.floor((millis % 60000) / 1000);
+  const ms = millis % 1000;
+  return `${[h, m, s].map((n) => String(n).padStart(2, '0')).join(':')}${separator}${String(ms).padStart(3, '0')}`;
+}
+
+function cueText(segment: TranscriptSegment): string {
+  return `${segment.speaker ? `${segment.speaker}: ` : ''}${segment.text.trim()}`;
+}
+
+// 本文のないセグメントは字幕にしない
+function subtitleSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return segments.filter((s) => s.text.trim() && s.end > s.start);
+}
+
+export function formatSrt(segments: TranscriptSegment[]): string {
+  return subtitleSegments(segments)
+    .map((s, i) => `${i + 1}\n${formatSubtitleTime(s.start, ',')} --> ${formatSubtitleTime(s.end, ',')}\n${cueText(s)}\n`)
+    .join('\n');
+}
+
+export function formatVtt(segments: TranscriptSegment[]): string {
+  const cues = subtitleSegments(segments)
+    .map((s) => `${formatSubtitleTime(s.start, '.')} --> ${formatSubtitleTime(s.end, '.')}\n${cueText(s)}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+}
@@ -0,0 +1,32 @@
+// 文字起こし結果の共通型定義
+
+// 単語単位のタイムスタンプ (秒)
+export interface TimedWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// セグメント単位のタイムスタンプ (秒) と話者ラベル
+// speaker は話者分離に対応したプロバイダのみが設定する
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string | null;
+}
+
+// 1チャンク分の文字起こし結果。タイムスタンプはチャンク先頭からの相対秒
+export interface ChunkTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+  words: TimedWord[];
+}
+
+// 音声全体の文字起こし結果。タイムスタンプは音声先頭からの絶対秒
+export interface Transcript {
+  text: string;
+  segments: TranscriptSegment[];
+  words: TimedWord[];
+  durationSeconds: number;
+}
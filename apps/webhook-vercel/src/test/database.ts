@@ -0,0 +1,121 @@
+// テスト用の Postgres (PGlite) にマイグレーションを適用し、supabase.rpc / from の一部を同じ形で呼べるようにする
+// Supabase 固有の拡張・テーブルは、テスト対象のマイグレーションが参照する範囲だけ用意する
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { PGlite } from '@electric-sql/pglite';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../../../supabase/migrations');
+
+// uuid-ossp (extensions スキーマ) と transcription_tasks の最小構成
+const SUPABASE_PRELUDE = `
+create schema if not exists extensions;
+create or replace function extensions.uuid_generate_v4() returns uuid language sql as $$ select gen_random_uuid() $$;
+create table public.transcription_tasks (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'uploaded',
+  storage_path text,
+  original_file_name text,
+  error_message text,
+  updated_at timestamp with time zone default now()
+);
+`;
+
+export interface TestDatabase {
+  db: PGlite;
+  supabase: SupabaseClient;
+}
+
+// Date は Supabase (PostgREST) と同じく ISO 文字列で返す
+function toJsonValue(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function toJsonRow(row: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(row)) result[key] = toJsonValue(row[key]);
+  return result;
+}
+
+// supabase.rpc と同じく、setof は配列、複合型は1行のオブジェクト、スカラーは値を data に返す
+async function callFunction(db: PGlite, name: string, args: Record<string, unknown> = {}) {
+  const { rows: [proc] } = await db.query<{ proretset: boolean; typtype: string }>(
+    `select p.proretset, t.typtype from pg_proc p join pg_type t on t.oid = p.prorettype
+     where p.proname = $1 and p.pronamespace = 'public'::regnamespace`,
+    [name]
+  );
+  if (!proc) return { data: null, error: { message: `function public.${name} does not exist` } };
+  const keys = Object.keys(args);
+  const params = keys.map((key, i) => `${key} => $${i + 1}`).join(', ');
+  const values = keys.map((key) => {
+    const value = args[key];
+    return value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+  });
+  try {
+    if (proc.proretset || proc.typtype === 'c') {
+      const { rows } = await db.query<Record<string, unknown>>(`select * from public.${name}(${params})`, values);
+      const data = rows.map(toJsonRow);
+      return { data: proc.proretset ? data : data[0] ?? null, error: null };
+    }
+    const { rows } = await db.query<{ value: unknown }>(`select public.${name}(${params}) as value`, values);
+    return { data: toJsonValue(rows[0]?.value), error: null };
+  } catch (e: unknown) {
+    return { data: null, error: { message: (e instanceof Error) ? e.message : String(e) } };
+  }
+}
+
+// テーブル名・列名は SQL に埋め込むため、識別子として妥当なものだけ受け付ける
+function identifier(name: string): string {
+  const trimmed = name.trim();
+  if (!/^[a-z_][a-z0-9_]*$/.test(trimmed)) throw new Error(`Unsupported identifier in test query: ${name}`);
+  return trimmed;
+}
+
+// supabase.from(table).select(columns) に .eq / .order を連ねて await する読み込みだけを再現する
+function selectFrom(db: PGlite, table: string, columns: string) {
+  const filters: { column: string; value: unknown }[] = [];
+  const orders: { column: string; ascending: boolean }[] = [];
+  const run = async () => {
+    const list = columns.trim() === '*' ? '*' : columns.split(',').map(identifier).join(', ');
+    const where = filters.map((filter, i) => `${identifier(filter.column)} = $${i + 1}`).join(' and ');
+    const orderBy = orders.map((order) => `${identifier(order.column)} ${order.ascending ? 'asc' : 'desc'}`).join(', ');
+    const sql = `select ${list} from public.${identifier(table)}${where ? ` where ${where}` : ''}${orderBy ? ` order by ${orderBy}` : ''}`;
+    try {
+      const { rows } = await db.query<Record<string, unknown>>(sql, filters.map((filter) => filter.value));
+      return { data: rows.map(toJsonRow), error: null };
+    } catch (e: unknown) {
+      return { data: null, error: { message: (e instanceof Error) ? e.message : String(e) } };
+    }
+  };
+  const query = {
+    eq(column: string, value: unknown) {
+      filters.push({ column, value });
+      return query;
+    },
+    order(column: string, options: { ascending?: boolean } = {}) {
+      orders.push({ column, ascending: options.ascending !== false });
+      return query;
+    },
+    then<T>(onFulfilled: (result: Awaited<ReturnType<typeof run>>) => T, onRejected?: (reason: unknown) => T) {
+      return run().then(onFulfilled, onRejected);
+    },
+  };
+  return query;
+}
+
+// 指定したマイグレーション (ファイル名の前方一致) を順に適用したデータベースを作る
+export async function createTestDatabase(migrationPrefixes: string[]): Promise<TestDatabase> {
+  const db = new PGlite();
+  await db.exec(SUPABASE_PRELUDE);
+  const files = (await fs.readdir(MIGRATIONS_DIR)).sort();
+  for (const prefix of migrationPrefixes) {
+    const file = files.find((name) => name.startsWith(prefix));
+    if (!file) throw new Error(`Migration ${prefix} not found in ${MIGRATIONS_DIR}`);
+    await db.exec(await fs.readFile(path.join(MIGRATIONS_DIR, file), 'utf-8'));
+  }
+  const supabase = {
+    rpc: (name: string, args?: Record<string, unknown>) => callFunction(db, name, args),
+    from: (table: string) => ({ select: (columns = '*') => selectFrom(db, table, columns) }),
+  };
+  return { db, supabase: supabase as unknown as SupabaseClient };
+}
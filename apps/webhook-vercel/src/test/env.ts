@@ -0,0 +1,10 @@
+// テストで書き換えた環境変数を元に戻す (元の値が undefined なら削除する)
+import process from "node:process";
+
+export function restoreEnv(key: string, value: string | undefined): void {
+  if (value === undefined) {
+    delete process.env[key];
+  } else {
+    process.env[key] = value;
+  }
+}
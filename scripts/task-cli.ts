@@ -0,0 +1,296 @@
+// タスクの状態確認・再処理を行う CLI
+// HTTP の API を経由せず、process-task パイプライン (apps/webhook-vercel/src/libs/pipeline) を直接呼び出す。
+//
+// 使い方 (環境変数は apps/webhook-vercel と同じ。NEXT_PUBLIC_SUPABASE_URL, SUPABASE_ANON_KEY, NOTION_API_KEY, 各プロバイダのAPIキー):
+//   npm run task -- reprocess <taskId> [--from-stage <stage>] [--dry-run] [--force]
+//   npm run task -- status <taskId>
+//   npm run task -- list [--status <status>] [--since <2026-10-01 | 24h | 7d>] [--limit <n>]
+//   npm run task -- retry-failed [--since <...>] [--from-stage <stage>] [--limit <n>] [--dry-run] [--force]
+// 環境変数はファイルから読み込むこともできる: npx tsx --env-file=apps/webhook-vercel/.env.local scripts/task-cli.ts status <taskId>
+import process from "node:process";
+import { parseArgs } from 'node:util';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createPipelineDepsFromEnv, PipelineDeps, processTask } from '../apps/webhook-vercel/src/libs/pipeline/process-task';
+import {
+  firstPendingStage,
+  isPipelineStage,
+  loadStageCheckpoints,
+  PIPELINE_STAGES,
+  PipelineStage,
+  stagesFrom,
+} from '../apps/webhook-vercel/src/libs/pipeline/stages';
+import { isTaskStatus, TaskStatus } from '../apps/webhook-vercel/src/libs/task-status';
+import { updateTaskInSupabase } from '../apps/webhook-vercel/src/libs/tasks';
+import { loadTaskTimeline } from '../apps/webhook-vercel/src/libs/task-events';
+import { loadActiveJob } from '../apps/webhook-vercel/src/libs/queue/jobs';
+
+const USAGE = `Usage:
+  task-cli reprocess <taskId> [--from-stage <stage>] [--dry-run] [--force]
+  task-cli status <taskId>
+  task-cli list [--status <status>] [--since <date|24h|7d>] [--limit <n>]
+  task-cli retry-failed [--since <date|24h|7d>] [--from-stage <stage>] [--limit <n>] [--dry-run] [--force]
+
+Stages: ${PIPELINE_STAGES.join(', ')}
+reprocess は --from-stage を省略すると最初 (download) からやり直す。retry-failed は省略すると未完了の段階から再開する。
+処理待ち・処理中のジョブがあるタスクは、キューのワーカーと同時に処理しないよう --force を指定しない限り処理しない。`;
+
+// retry-failed の対象 (パイプラインで失敗した、またはジョブを登録できなかったタスク)
+const RETRYABLE_STATUSES: readonly TaskStatus[] = ['failed_in_vercel', 'function_error', 'failed', 'webhook_failed'];
+const DEFAULT_LIST_LIMIT = 20;
+
+interface TaskRow {
+  id: string;
+  status: TaskStatus;
+  storage_path: string | null;
+  original_file_name: string | null;
+  client_name: string | null;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const TASK_COLUMNS = 'id, status, storage_path, original_file_name, client_name, error_message, created_at, updated_at';
+
+// "2026-10-01" などの日時、または "24h" / "7d" / "30m" のような現在からの相対指定
+function parseSince(value: string): string {
+  const relative = value.match(/^(\d+)([mhd])$/);
+  if (relative) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as 'm' | 'h' | 'd'];
+    return new Date(Date.now() - parseInt(relative[1], 10) * unitMs).toISOString();
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --since: ${value}. Use a date (2026-10-01) or a duration (24h, 7d).`);
+  }
+  return date.toISOString();
+}
+
+function parseLimit(value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const limit = parseInt(value, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new Error(`Invalid --limit: ${value}`);
+  }
+  return limit;
+}
+
+function parseFromStage(value: string | undefined): PipelineStage | undefined {
+  if (value === undefined) return undefined;
+  if (!isPipelineStage(value)) {
+    throw new Error(`Invalid --from-stage: ${value}. Expected one of: ${PIPELINE_STAGES.join(', ')}`);
+  }
+  return value;
+}
+
+function formatDuration(ms: number | null | undefined): string {
+  if (ms === null || ms === undefined) return '-';
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+async function loadTask(supabase: SupabaseClient, taskId: string): Promise<TaskRow> {
+  const { data, error } = await supabase
+    .from('transcription_tasks')
+    .select(TASK_COLUMNS)
+    .eq('id', taskId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load task ${taskId}: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error(`Task ${taskId} not found.`);
+  }
+  return data as TaskRow;
+}
+
+// 1件のタスクをパイプラインで処理する。失敗した場合はタスクを failed_in_vercel にして false を返す
+async function runTask(
+  deps: PipelineDeps,
+  task: TaskRow,
+  fromStage: PipelineStage | undefined,
+  dryRun: boolean,
+  force: boolean
+): Promise<boolean> {
+  if (!task.storage_path) {
+    console.error(`Task ${task.id} has no storage_path (status: ${task.status}). The video has not been uploaded yet.`);
+    return false;
+  }
+  // キューのワーカーと同時に処理しないよう、未完了のジョブがあるタスクは --force を指定しない限り対象外にする
+  // (ジョブが止まっている場合など。--force でもジョブは残るため、ワーカーが後で同じタスクを処理することがある)
+  const activeJob = await loadActiveJob(deps.supabase, task.id);
+  if (activeJob) {
+    const description = `a ${activeJob.status} job (${activeJob.id}, run_at ${activeJob.run_at})`;
+    if (!force) {
+      console.error(`Task ${task.id} already has ${description}. Skipping. Use --force to process it anyway.`);
+      return false;
+    }
+    console.warn(`Task ${task.id} already has ${description}. Processing anyway because of --force.`);
+  }
+
+  const checkpoints = await loadStageCheckpoints(deps.supabase, task.id);
+  const startStage = fromStage ?? firstPendingStage(checkpoints);
+  const stages = startStage ? stagesFrom(startStage) : [];
+  if (dryRun) {
+    console.log(`[dry-run] Task ${task.id} (${task.status}, ${task.original_file_name || task.storage_path})`);
+    console.log(`[dry-run]   completed stages: ${PIPELINE_STAGES.filter((stage) => checkpoints[stage]).join(', ') || '(none)'}`);
+    if (fromStage) console.log(`[dry-run]   would clear checkpoints from: ${fromStage}`);
+    console.log(`[dry-run]   would run: ${stages.join(' → ') || '(nothing, all stages completed)'}`);
+    return true;
+  }
+
+  console.log(`Processing task ${task.id} from stage ${startStage ?? '(none)'}...`);
+  try {
+    const result = await processTask(deps, task.id, task.storage_path, { fromStage });
+    console.log(`Task ${task.id} done. Stages run: ${result.stagesRun.join(', ') || '(none)'}`);
+    for (const page of result.notionPages) {
+      console.log(`  Notion [${page.route}] ${page.action}${page.pageId ? ` ${page.pageId}` : ''}${page.error ? `: ${page.error}` : ''}`);
+    }
+    return true;
+  } catch (e: unknown) {
+    const errorMessage = (e instanceof Error) ? e.message : String(e);
+    console.error(`Task ${task.id} failed: ${errorMessage}`);
+    await updateTaskInSupabase(deps.supabase, task.id, 'failed_in_vercel', { error_message: errorMessage });
+    return false;
+  }
+}
+
+async function reprocessCommand(
+  taskId: string | undefined,
+  fromStage: PipelineStage | undefined,
+  dryRun: boolean,
+  force: boolean
+): Promise<number> {
+  if (!taskId) throw new Error('reprocess requires <taskId>.');
+  const deps = createPipelineDepsFromEnv();
+  const task = await loadTask(deps.supabase, taskId);
+  return (await runTask(deps, task, fromStage ?? 'download', dryRun, force)) ? 0 : 1;
+}
+
+async function statusCommand(taskId: string | undefined): Promise<number> {
+  if (!taskId) throw new Error('status requires <taskId>.');
+  const { supabase } = createPipelineDepsFromEnv();
+  const task = await loadTask(supabase, taskId);
+  const checkpoints = await loadStageCheckpoints(supabase, taskId);
+  const activeJob = await loadActiveJob(supabase, taskId);
+  const timeline = await loadTaskTimeline(supabase, taskId);
+
+  console.log(`Task:     ${task.id}`);
+  console.log(`Status:   ${task.status} (updated ${task.updated_at})`);
+  console.log(`File:     ${task.original_file_name || '-'} (${task.storage_path || 'not uploaded'})`);
+  console.log(`Client:   ${task.client_name || '-'}`);
+  if (task.error_message) console.log(`Error:    ${task.error_message}`);
+  console.log(`Job:      ${activeJob ? `${activeJob.status} (${activeJob.id}, run_at ${activeJob.run_at})` : 'none'}`);
+  console.log(`Elapsed:  ${formatDuration(timeline.elapsedMs)} (${timeline.startedAt || '-'} → ${timeline.lastEventAt || '-'})`);
+  console.log('Stages:');
+  for (const stage of PIPELINE_STAGES) {
+    const mark = checkpoints[stage] ? 'done' : 'pending';
+    console.log(`  ${stage.padEnd(14)} ${mark.padEnd(8)} ${formatDuration(timeline.stageDurationsMs[stage])}`);
+  }
+  for (const failure of timeline.failedStages) {
+    console.log(`Failed:   ${failure.stage} (attempt ${failure.attempt ?? '-'}, ${failure.at}): ${failure.error?.message || '-'}`);
+  }
+  return 0;
+}
+
+async function listCommand(status: string | undefined, since: string | undefined, limitOption: string | undefined): Promise<number> {
+  if (status !== undefined && !isTaskStatus(status)) {
+    throw new Error(`Invalid --status: ${status}`);
+  }
+  const { supabase } = createPipelineDepsFromEnv();
+  let query = supabase
+    .from('transcription_tasks')
+    .select(TASK_COLUMNS)
+    .order('updated_at', { ascending: false })
+    .limit(parseLimit(limitOption, DEFAULT_LIST_LIMIT));
+  if (status) query = query.eq('status', status);
+  if (since) query = query.gte('updated_at', parseSince(since));
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list tasks: ${error.message}`);
+  }
+  const tasks = (data || []) as TaskRow[];
+  if (tasks.length === 0) {
+    console.log('No tasks found.');
+    return 0;
+  }
+  for (const task of tasks) {
+    console.log([task.id, task.status.padEnd(21), task.updated_at, task.original_file_name || task.storage_path || '-'].join('  '));
+  }
+  return 0;
+}
+
+async function retryFailedCommand(
+  since: string | undefined,
+  fromStage: PipelineStage | undefined,
+  limitOption: string | undefined,
+  dryRun: boolean,
+  force: boolean
+): Promise<number> {
+  const deps = createPipelineDepsFromEnv();
+  let query = deps.supabase
+    .from('transcription_tasks')
+    .select(TASK_COLUMNS)
+    .in('status', RETRYABLE_STATUSES)
+    .order('updated_at', { ascending: true })
+    .limit(parseLimit(limitOption, DEFAULT_LIST_LIMIT));
+  if (since) query = query.gte('updated_at', parseSince(since));
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to list failed tasks: ${error.message}`);
+  }
+  const tasks = (data || []) as TaskRow[];
+  console.log(`${tasks.length} failed task(s) to retry.`);
+
+  let failures = 0;
+  for (const task of tasks) {
+    if (!(await runTask(deps, task, fromStage, dryRun, force))) failures++;
+  }
+  console.log(`Retried ${tasks.length - failures}/${tasks.length} task(s).`);
+  return failures > 0 ? 1 : 0;
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      'from-stage': { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+      status: { type: 'string' },
+      since: { type: 'string' },
+      limit: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command, taskId] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const fromStage = parseFromStage(values['from-stage']);
+  const dryRun = values['dry-run'] === true;
+  const force = values.force === true;
+  switch (command) {
+    case 'reprocess':
+      return reprocessCommand(taskId, fromStage, dryRun, force);
+    case 'status':
+      return statusCommand(taskId);
+    case 'list':
+      return listCommand(values.status, values.since, values.limit);
+    case 'retry-failed':
+      return retryFailedCommand(values.since, fromStage, values.limit, dryRun, force);
+    default:
+      console.error(`Unknown command: ${command}\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((e: unknown) => {
+    console.error((e instanceof Error) ? e.message : String(e));
+    process.exit(1);
+  });
@@ -0,0 +1,62 @@
+// transcription_tasks.status の値と許可される遷移
+// Next.js (apps/webhook-vercel/src/libs/task-status.ts から再エクスポート) と Edge Function の両方から読み込むため、他のモジュールに依存させないこと。
+// DB 側の制約・トリガー (supabase/migrations/20261019001300_enforce_task_status_transitions.sql、遷移の追加は 20261019002000) と内容を揃える。
+
+export const TASK_STATUSES = [
+  'upload_pending', // Slack からのファイル取得待ち (upload_file_to_storage が処理する)
+  'upload_failed',
+  'uploaded', // Storage への保存済み (storage_path 設定済み)
+  'queued', // 処理ジョブを登録済み
+  'function_error', // process-video-task でのジョブ登録に失敗
+  'processing_in_vercel',
+  'transcribed_in_vercel',
+  'summarized_in_vercel',
+  'retry_scheduled', // 処理に失敗し、ジョブキューで再試行待ち
+  'completed',
+  'failed_in_vercel', // 再試行の上限に達した
+  // 以下は旧バージョンで書き込まれた値。既存の行のために残しているが新しくは書き込まない
+  'pending',
+  'processing',
+  'failed',
+  'webhook_sent',
+  'webhook_failed',
+] as const;
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+// タスク作成時に設定できるステータス
+export const INITIAL_TASK_STATUSES: readonly TaskStatus[] = ['upload_pending', 'uploaded', 'pending'];
+
+// 処理を (再) 開始できる状態から共通で遷移できる先
+const RESTARTABLE: readonly TaskStatus[] = ['queued', 'processing_in_vercel', 'failed_in_vercel'];
+
+// 遷移元ごとの遷移先。同じステータスへの更新 (進捗の更新など) は遷移として扱わず常に許可する
+export const TASK_STATUS_TRANSITIONS: Record<TaskStatus, readonly TaskStatus[]> = {
+  upload_pending: ['uploaded', 'upload_failed'],
+  upload_failed: ['upload_pending', 'uploaded'],
+  // processTask がステータスを更新する前に失敗した場合も、ワーカーが retry_scheduled にする
+  uploaded: [...RESTARTABLE, 'function_error', 'retry_scheduled'],
+  queued: ['processing_in_vercel', 'retry_scheduled', 'failed_in_vercel', 'function_error'],
+  function_error: ['queued', 'processing_in_vercel'],
+  processing_in_vercel: ['transcribed_in_vercel', 'summarized_in_vercel', 'completed', 'retry_scheduled', 'failed_in_vercel'],
+  // リース切れで別のワーカーが取得し直したジョブは、途中の段階から processing_in_vercel に戻して再開する
+  transcribed_in_vercel: ['processing_in_vercel', 'summarized_in_vercel', 'retry_scheduled', 'failed_in_vercel'],
+  summarized_in_vercel: ['processing_in_vercel', 'completed', 'retry_scheduled', 'failed_in_vercel'],
+  retry_scheduled: RESTARTABLE,
+  // 再処理 (CLI・手動での再登録) のため完了・失敗からも処理を再開できる。
+  // publish で completed にした後に notify が失敗した場合は、完了からも再試行・失敗になる
+  completed: ['queued', 'processing_in_vercel', 'retry_scheduled', 'failed_in_vercel'],
+  failed_in_vercel: ['queued', 'processing_in_vercel', 'retry_scheduled'],
+  pending: ['upload_pending', 'uploaded', ...RESTARTABLE],
+  processing: [...RESTARTABLE, 'completed'],
+  failed: ['queued', 'processing_in_vercel'],
+  webhook_sent: [...RESTARTABLE, 'completed'],
+  webhook_failed: ['queued', 'processing_in_vercel'],
+};
+
+export function isTaskStatus(value: unknown): value is TaskStatus {
+  return typeof value === 'string' && (TASK_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransitionTaskStatus(from: TaskStatus, to: TaskStatus): boolean {
+  return from === to || TASK_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -2,6 +2,7 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient, SupabaseClient } from "npm:@supabase/supabase-js";
 import "https://deno.land/std@0.224.0/dotenv/load.ts";
+import type { TaskStatus } from "../_shared/task-status.ts";
 
 function getEnvVar(key: string): string {
   const value = Deno.env.get(key);
@@ -12,10 +13,10 @@ function getEnvVar(key: string): string {
 async function updateTaskStatus(
   supabase: SupabaseClient,
   taskId: string,
-  status: string,
+  status: TaskStatus,
   errorMessage?: string | null
 ): Promise<void> {
-  const updates: { status: string; error_message?: string; notified_at?: string } = {
+  const updates: { status: TaskStatus; error_message?: string; notified_at?: string } = {
     status,
     notified_at: new Date().toISOString(),
   };
@@ -55,45 +56,47 @@ serve(async (req: Request) => {
     const serviceRoleKey = getEnvVar("SUPABASE_SERVICE_ROLE_KEY");
     supabase = createClient(supabaseUrl, serviceRoleKey);
 
-    const vercelWebhookUrl = getEnvVar("VERCEL_WEBHOOK_URL");
-
-    console.log(`Notifying Vercel webhook for task ${taskId}: ${vercelWebhookUrl}`);
-
-    const webhookResponse = await fetch(vercelWebhookUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        taskId: taskId,
-        storagePath: storagePath,
-      }),
+    // Vercel への1回きりの fetch ではなく、ジョブキューに登録してワーカーに処理させる (再試行はキュー側で行う)
+    const { data: job, error: enqueueError } = await supabase.rpc("enqueue_job", {
+      p_task_id: taskId,
+      p_kind: "process_task",
+      p_payload: { storagePath },
     });
-
-    if (!webhookResponse.ok) {
-      const errorBody = await webhookResponse.text();
-      console.error(`Vercel webhook failed for task ${taskId}: ${webhookResponse.status}`, errorBody);
-      if (supabase) {
-        await updateTaskStatus(supabase, taskId!, "webhook_failed", `Vercel webhook error: ${webhookResponse.status} - ${errorBody}`);
-      }
-      throw new Error(`Vercel webhook notification failed: ${webhookResponse.status}`);
+    if (enqueueError || !job) {
+      throw new Error(`Failed to enqueue job: ${enqueueError?.message}`);
     }
+    console.log(`Task ${taskId} queued as job ${job.id} (status: ${job.status}).`);
+    await updateTaskStatus(supabase, taskId!, "queued");
 
-    console.log(`Vercel webhook notified successfully for task ${taskId}. Response: ${await webhookResponse.text()}`);
-    if (supabase) {
-      await updateTaskStatus(supabase, taskId!, "webhook_sent");
+    // ワーカーの Cron を待たずに処理を始めるための通知 (失敗してもジョブはキューに残るので Cron で処理される)
+    const workerUrl = Deno.env.get("VERCEL_WORKER_URL");
+    if (workerUrl) {
+      try {
+        const cronSecret = Deno.env.get("CRON_SECRET");
+        const workerResponse = await fetch(workerUrl, {
+          method: "POST",
+          headers: cronSecret ? { Authorization: `Bearer ${cronSecret}` } : {},
+          signal: AbortSignal.timeout(5000),
+        });
+        console.log(`Worker kicked for task ${taskId}: ${workerResponse.status}`);
+      } catch (kickError: unknown) {
+        // タイムアウトはワーカーが処理を続けている場合も含むため警告に留める
+        console.warn(`Worker kick for task ${taskId} did not complete:`, kickError instanceof Error ? kickError.message : String(kickError));
+      }
     }
 
-    return new Response(JSON.stringify({ message: "Webhook notification sent to Vercel." }), {
+    return new Response(JSON.stringify({ message: "Task queued.", jobId: job.id }), {
       headers: { ...cors, "Content-Type": "application/json" },
       status: 200,
     });
 
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : String(e);
-    console.error("Error in process-video-task (notification function):", msg);
+    console.error("Error in process-video-task (enqueue function):", msg);
     if (taskId && supabase) { 
       await updateTaskStatus(supabase, taskId, "function_error", msg);
     }
-    return new Response(JSON.stringify({ error: `Failed to notify Vercel: ${msg}` }), {
+    return new Response(JSON.stringify({ error: `Failed to queue task: ${msg}` }), {
       headers: { ...cors, "Content-Type": "application/json" },
       status: 500,
     });
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2.43.4"; // バージョンを固定または適切に管理
 import "https://deno.land/std@0.224.0/dotenv/load.ts"; // ローカル開発用に .env を読み込む場合
+import type { TaskStatus } from "../_shared/task-status.ts";
 
 // SupabaseダッシュボードのSecrets名に合わせる
 const SUPABASE_URL_FROM_ENV = Deno.env.get("SUPABASE_URL");
@@ -19,17 +20,18 @@ interface TaskPayload {
 async function updateTaskStatus(
   supabase: SupabaseClient,
   taskId: string,
-  status: string,
+  status: TaskStatus,
   updatePayload: Record<string, any> = {}
-): Promise<void> {
+): Promise<boolean> {
   const { error } = await supabase
     .from("transcription_tasks")
     .update({ status, ...updatePayload, updated_at: new Date().toISOString() })
     .eq("id", taskId);
   if (error) {
     console.error(`Error updating task ${taskId} to ${status}:`, error.message);
-    // ここでさらに堅牢なエラー通知処理を入れることも検討 (例: Slack通知)
+    return false;
   }
+  return true;
 }
 
 serve(async (req: Request) => {
@@ -114,7 +116,7 @@ serve(async (req: Request) => {
         .from("videos")
         .upload(storagePath, slackFileResponse.body, {
           contentType: mimetype,
-          upsert: false, // true にして再試行を許容するか検討
+          upsert: true, // upload_file ジョブの再試行で、前回途中まで保存したファイルを上書きする
           duplex: "half", // DenoのReadableStreamを扱うために追加
         });
 
@@ -130,10 +132,18 @@ serve(async (req: Request) => {
     }
 
     console.log(`[${taskId}] File uploaded to Supabase Storage:`, uploadResult);
-    await updateTaskStatus(supabaseAdmin, taskId, "uploaded", { // ステータスを 'uploaded' に変更
+    // storage_path の設定がコミットされると DB トリガーが process_task ジョブを登録する。
+    // 更新に失敗した場合は呼び出し元 (upload_file ジョブ) に再試行させるためエラーを返す
+    const stored = await updateTaskStatus(supabaseAdmin, taskId, "uploaded", {
       storage_path: storagePath,
       error_message: null, // エラーが解消された場合はクリア
     });
+    if (!stored) {
+      return new Response(
+        JSON.stringify({ error: "Failed to record storage_path on the task" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
 
     return new Response(JSON.stringify({ message: "File uploaded and task updated successfully", taskId, storagePath }), {
       status: 200,
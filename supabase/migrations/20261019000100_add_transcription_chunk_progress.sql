@@ -0,0 +1,7 @@
+-- 長時間録音のチャンク分割文字起こしの進捗を記録するカラムを追加
+alter table public.transcription_tasks
+  add column if not exists transcription_chunks_total integer,
+  add column if not exists transcription_chunks_completed integer;
+
+comment on column public.transcription_tasks.transcription_chunks_total is 'Number of audio chunks the recording was split into for transcription.';
+comment on column public.transcription_tasks.transcription_chunks_completed is 'Number of audio chunks transcribed so far.';
@@ -0,0 +1,24 @@
+-- タイムスタンプ・話者付きの文字起こしセグメントを保存するテーブル
+create table if not exists public.transcript_segments (
+  id uuid default extensions.uuid_generate_v4() not null primary key,
+  task_id uuid not null references public.transcription_tasks(id) on delete cascade,
+  segment_index integer not null,
+  start_seconds double precision not null,
+  end_seconds double precision not null,
+  text text not null,
+  speaker_label text,
+  created_at timestamp with time zone default now(),
+  constraint transcript_segments_task_segment_key unique (task_id, segment_index),
+  constraint transcript_segments_time_check check (end_seconds >= start_seconds)
+);
+
+comment on table public.transcript_segments is 'Timestamped transcript segments for a transcription task, in playback order.';
+comment on column public.transcript_segments.start_seconds is 'Segment start, in seconds from the beginning of the recording.';
+comment on column public.transcript_segments.end_seconds is 'Segment end, in seconds from the beginning of the recording.';
+comment on column public.transcript_segments.speaker_label is 'Speaker label, set only when the transcription provider supports diarization.';
+
+create index if not exists idx_transcript_segments_task_start on public.transcript_segments using btree (task_id, start_seconds);
+
+alter table public.transcript_segments enable row level security;
+
+create policy "Allow full access for service_role" on public.transcript_segments using (true) with check (true);
@@ -0,0 +1,10 @@
+-- タスクごとに文字起こしプロバイダを指定できるようにする
+-- null の場合は Vercel 側の環境変数 TRANSCRIPTION_PROVIDER (既定: openai-whisper) を使用し、処理時に実際のプロバイダが記録される
+alter table public.transcription_tasks
+  add column if not exists transcription_provider text;
+
+alter table public.transcription_tasks
+  add constraint transcription_tasks_transcription_provider_check
+  check (transcription_provider is null or transcription_provider = any (array['openai-whisper', 'gemini', 'local-whisper', 'fake']));
+
+comment on column public.transcription_tasks.transcription_provider is 'Transcription provider used for the task (openai-whisper, gemini, local-whisper, fake). Null means use the server default.';
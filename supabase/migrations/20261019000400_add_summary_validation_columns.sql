@@ -0,0 +1,7 @@
+-- 要約出力のスキーマ検証結果を記録するカラムを追加
+alter table public.transcription_tasks
+  add column if not exists summary_missing_fields text[],
+  add column if not exists summary_attempts integer;
+
+comment on column public.transcription_tasks.summary_missing_fields is 'Summary fields that were still missing or invalid after all repair attempts (filled with empty strings).';
+comment on column public.transcription_tasks.summary_attempts is 'Number of model calls needed to obtain a summary that passed schema validation.';
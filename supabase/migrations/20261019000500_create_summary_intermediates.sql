@@ -0,0 +1,31 @@
+-- 長い文字起こしを分割要約した際の途中経過 (部分要約・統合要約) を保存するテーブル
+create table if not exists public.summary_intermediates (
+  id uuid default extensions.uuid_generate_v4() not null primary key,
+  task_id uuid not null references public.transcription_tasks(id) on delete cascade,
+  step text not null,
+  level integer not null,
+  item_index integer not null,
+  start_seconds double precision,
+  end_seconds double precision,
+  source_chars integer not null,
+  summary jsonb not null,
+  missing_fields text[],
+  attempts integer,
+  created_at timestamp with time zone default now(),
+  constraint summary_intermediates_step_check check (step = any (array['section', 'merge'])),
+  constraint summary_intermediates_task_item_key unique (task_id, step, level, item_index)
+);
+
+comment on table public.summary_intermediates is 'Per-section and merge-step summaries produced while summarizing long transcripts, kept for human review.';
+comment on column public.summary_intermediates.step is 'section: summary of one transcript section; merge: summary produced by merging earlier summaries.';
+comment on column public.summary_intermediates.level is '0 for section summaries, 1.. for successive merge levels.';
+comment on column public.summary_intermediates.source_chars is 'Number of characters given to the model for this step.';
+
+alter table public.summary_intermediates enable row level security;
+
+create policy "Allow full access for service_role" on public.summary_intermediates using (true) with check (true);
+
+alter table public.transcription_tasks
+  add column if not exists summary_section_count integer;
+
+comment on column public.transcription_tasks.summary_section_count is 'Number of transcript sections summarized separately before merging (1 when summarized in a single pass).';
@@ -0,0 +1,10 @@
+-- 会議種別ごとの要約テンプレートを記録するカラムを追加
+-- インテーク時に Slack メッセージ (例: 「種別: 商談」) やチャンネルから決定し、処理時に実際に使用したテンプレートで上書きする
+alter table public.transcription_tasks
+  add column if not exists summary_template text;
+
+alter table public.transcription_tasks
+  add constraint transcription_tasks_summary_template_check
+  check (summary_template is null or summary_template = any (array['client_meeting', 'sales', 'one_on_one', 'workshop']));
+
+comment on column public.transcription_tasks.summary_template is 'Summary template (client_meeting, sales, one_on_one, workshop). Null until chosen; process-task records the template actually used.';
@@ -0,0 +1,30 @@
+-- 要約時に抽出したアクションアイテム (担当者・期日付きのタスク) を保存するテーブル
+create table if not exists public.action_items (
+  id uuid default extensions.uuid_generate_v4() not null primary key,
+  task_id uuid not null references public.transcription_tasks(id) on delete cascade,
+  item_index integer not null,
+  description text not null,
+  assignee text,
+  due_date date,
+  due_date_text text,
+  source_seconds double precision,
+  notion_page_id text,
+  created_at timestamp with time zone default now(),
+  constraint action_items_task_item_key unique (task_id, item_index)
+);
+
+create index if not exists action_items_due_date_idx on public.action_items (due_date);
+
+comment on table public.action_items is 'Action items extracted from the meeting summary, one row per item.';
+comment on column public.action_items.due_date is 'Due date normalized by the shared date parser (relative to the meeting date). Null when the model output could not be parsed.';
+comment on column public.action_items.due_date_text is 'Due date as written by the model, kept for items whose date could not be parsed (e.g. 来週中).';
+comment on column public.action_items.source_seconds is 'Transcript offset in seconds of the utterance the item was extracted from.';
+comment on column public.action_items.notion_page_id is 'Page in the Notion tasks database (NOTION_TASKS_DB_ID), if created.';
+
+alter table public.action_items enable row level security;
+
+create policy "Allow full access for service_role" on public.action_items using (true) with check (true);
+
+-- 分割要約の途中経過にもアクションアイテムを残す
+alter table public.summary_intermediates
+  add column if not exists action_items jsonb not null default '[]'::jsonb;
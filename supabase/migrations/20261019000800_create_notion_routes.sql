@@ -0,0 +1,42 @@
+-- 要約を書き込む Notion データベースのルーティング設定
+-- 行を追加・編集するだけで、書き込み先DBの追加やプロパティ名の変更ができる (コード変更不要)
+-- 有効な行が1件もない場合は、従来の環境変数 NOTION_DB_ID_1/2/3 による設定で動作する
+--
+-- 設定例:
+--   insert into public.notion_routes (name, database_id, sort_order, conditions, properties) values (
+--     'sales_db', '<Notion database id>', 40,
+--     '{"templates": ["sales"], "channels": ["C0123456"]}',
+--     '[{"property": "商談名", "type": "title", "source": "meeting_title"},
+--       {"property": "日付", "type": "date", "source": "meeting_date"},
+--       {"property": "顧客", "type": "select", "source": "client_name"},
+--       {"property": "ニーズ", "type": "rich_text", "source": "summary.need"}]'
+--   );
+create table if not exists public.notion_routes (
+  id uuid default extensions.uuid_generate_v4() not null primary key,
+  name text not null,
+  database_id text not null,
+  enabled boolean not null default true,
+  sort_order integer not null default 0,
+  conditions jsonb not null default '{}'::jsonb,
+  properties jsonb not null default '[]'::jsonb,
+  include_template_properties boolean not null default true,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  constraint notion_routes_name_key unique (name)
+);
+
+comment on table public.notion_routes is 'Notion databases that meeting summaries are written to, with the conditions and property mappings for each.';
+comment on column public.notion_routes.sort_order is 'Routes are applied in ascending order. Action items are linked to the page created by the first matching route.';
+comment on column public.notion_routes.conditions is 'JSON object with optional string arrays: clients, consultants, channels (Slack channel IDs), templates. All given conditions must match; an empty object matches every task.';
+comment on column public.notion_routes.properties is 'JSON array of {property, type, source}. type: title, rich_text, date, select, multi_select, number, url. source: meeting_title, meeting_date, consultant_name, client_name, template, template_label, file_name, channel_id, task_id, or summary.<field>.';
+comment on column public.notion_routes.include_template_properties is 'Also write the summary fields mapped by the meeting-type template (as rich_text).';
+
+alter table public.notion_routes enable row level security;
+
+create policy "Allow full access for service_role" on public.notion_routes using (true) with check (true);
+
+-- チャンネル条件の判定のため、タスクにアップロード元の Slack チャンネルを記録する
+alter table public.transcription_tasks
+  add column if not exists slack_channel_id text;
+
+comment on column public.transcription_tasks.slack_channel_id is 'Slack channel the file was shared in. Used for Notion routing and template selection.';
@@ -0,0 +1,10 @@
+-- Notion ページの本文に要約・文字起こし全文・元動画へのリンクを書くための変更
+-- 要約は本文に書くようになったため、テンプレートの要約項目をプロパティにも書くかどうかの既定値を false にする
+alter table public.notion_routes
+  alter column include_template_properties set default false;
+
+-- 元動画 (Slack のファイルページ) へのリンク
+alter table public.transcription_tasks
+  add column if not exists slack_file_permalink text;
+
+comment on column public.transcription_tasks.slack_file_permalink is 'Permalink of the shared Slack file, linked from the Notion page body.';
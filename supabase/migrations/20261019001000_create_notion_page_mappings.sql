@@ -0,0 +1,35 @@
+-- (タスク, 書き込み先 Notion DB) ごとの会議ページの対応表
+-- 再処理時は既存ページを更新し、Notion 側で削除されたページは作り直す。DBごとの失敗もここに記録する
+create table if not exists public.notion_page_mappings (
+  id uuid default extensions.uuid_generate_v4() not null primary key,
+  task_id uuid not null references public.transcription_tasks(id) on delete cascade,
+  database_id text not null,
+  route_name text not null,
+  page_id text,
+  status text not null,
+  last_action text,
+  last_error text,
+  attempts integer not null default 0,
+  synced_at timestamp with time zone,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  constraint notion_page_mappings_status_check check (status = any (array['synced', 'failed'])),
+  constraint notion_page_mappings_last_action_check check (last_action is null or last_action = any (array['created', 'updated', 'recreated', 'failed'])),
+  constraint notion_page_mappings_task_database_key unique (task_id, database_id)
+);
+
+create index if not exists notion_page_mappings_status_idx on public.notion_page_mappings (status);
+
+comment on table public.notion_page_mappings is 'Notion page written for each (task, target database) pair. Reprocessing updates the page in place.';
+comment on column public.notion_page_mappings.page_id is 'Current Notion page. Kept when a later sync fails so the next run updates it instead of creating a duplicate.';
+comment on column public.notion_page_mappings.last_error is 'Error from the last failed sync for this database, null after a successful sync.';
+comment on column public.notion_page_mappings.attempts is 'Total number of sync attempts for this database across all runs.';
+
+alter table public.notion_page_mappings enable row level security;
+
+create policy "Allow full access for service_role" on public.notion_page_mappings using (true) with check (true);
+
+alter table public.transcription_tasks
+  add column if not exists notion_page_id text;
+
+comment on column public.transcription_tasks.notion_page_id is 'Comma-separated Notion page ids of the last successful sync, kept for notifications. See notion_page_mappings for the per-database state.';
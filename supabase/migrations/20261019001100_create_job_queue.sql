@@ -0,0 +1,211 @@
+-- Postgres ベースのジョブキュー
+-- これまでの「DBトリガー → process-video-task → Vercel への fetch 1回」の連鎖を置き換える。
+-- ワーカー (/api/jobs/worker) がジョブをリース付きで取得し、失敗時は指数バックオフで再試行、上限に達したら dead にする。
+-- 関数はすべて plpgsql のみで書いており、Supabase 以外のローカル Postgres でもそのまま動作確認できる。
+
+create table if not exists public.jobs (
+  id uuid default extensions.uuid_generate_v4() not null primary key,
+  task_id uuid not null references public.transcription_tasks(id) on delete cascade,
+  kind text not null default 'process_task',
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'queued',
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  run_at timestamp with time zone not null default now(),
+  locked_by text,
+  locked_until timestamp with time zone,
+  last_error text,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  finished_at timestamp with time zone,
+  constraint jobs_status_check check (status = any (array['queued', 'running', 'succeeded', 'dead'])),
+  constraint jobs_max_attempts_check check (max_attempts >= 1)
+);
+
+-- 同じタスク・種類の未完了ジョブは1件まで (Webhook の二重送信などで重複して登録されないように)
+create unique index if not exists jobs_active_task_kind_key on public.jobs (task_id, kind)
+  where status = any (array['queued', 'running']);
+create index if not exists jobs_claim_idx on public.jobs (kind, run_at) where status = 'queued';
+create index if not exists jobs_lease_idx on public.jobs (locked_until) where status = 'running';
+
+comment on table public.jobs is 'Durable job queue. Workers claim queued jobs with a lease; failed jobs are retried with exponential backoff until max_attempts, then moved to dead.';
+comment on column public.jobs.status is 'queued: waiting until run_at; running: leased by locked_by until locked_until; succeeded; dead: gave up after max_attempts (dead letter).';
+comment on column public.jobs.attempts is 'Number of times the job has been claimed.';
+comment on column public.jobs.locked_until is 'Lease (visibility timeout). A running job whose lease expired is returned to the queue by reap_expired_jobs.';
+
+alter table public.jobs enable row level security;
+
+create policy "Allow full access for service_role" on public.jobs using (true) with check (true);
+
+-- ジョブを登録する。同じタスク・種類の未完了ジョブがあればそれを返す
+create or replace function public.enqueue_job(
+  p_task_id uuid,
+  p_kind text default 'process_task',
+  p_payload jsonb default '{}'::jsonb,
+  p_max_attempts integer default 5,
+  p_run_at timestamp with time zone default now()
+)
+returns public.jobs
+language plpgsql
+as $$
+declare
+  v_job public.jobs;
+begin
+  insert into public.jobs (task_id, kind, payload, max_attempts, run_at)
+  values (p_task_id, p_kind, coalesce(p_payload, '{}'::jsonb), p_max_attempts, p_run_at)
+  on conflict (task_id, kind) where status = any (array['queued', 'running']) do nothing
+  returning * into v_job;
+
+  if v_job.id is null then
+    select * into v_job from public.jobs
+    where task_id = p_task_id and kind = p_kind and status = any (array['queued', 'running'])
+    limit 1;
+  end if;
+  return v_job;
+end;
+$$;
+
+-- 実行可能なジョブを最大 p_limit 件取得してリースする (複数ワーカーが同時に呼んでも同じジョブは取得しない)
+create or replace function public.claim_jobs(
+  p_worker text,
+  p_kind text default 'process_task',
+  p_limit integer default 1,
+  p_visibility_seconds integer default 960
+)
+returns setof public.jobs
+language plpgsql
+as $$
+begin
+  return query
+  update public.jobs j
+  set status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = p_worker,
+      locked_until = now() + make_interval(secs => p_visibility_seconds),
+      updated_at = now()
+  where j.id in (
+    select id from public.jobs
+    where status = 'queued' and kind = p_kind and run_at <= now()
+    order by run_at
+    limit p_limit
+    for update skip locked
+  )
+  returning j.*;
+end;
+$$;
+
+-- 長時間の処理中にリースを延長する (ハートビート)。リースを失っていれば false
+create or replace function public.extend_job_lease(
+  p_job_id uuid,
+  p_worker text,
+  p_visibility_seconds integer default 960
+)
+returns boolean
+language plpgsql
+as $$
+begin
+  update public.jobs
+  set locked_until = now() + make_interval(secs => p_visibility_seconds),
+      updated_at = now()
+  where id = p_job_id and status = 'running' and locked_by = p_worker;
+  return found;
+end;
+$$;
+
+create or replace function public.complete_job(p_job_id uuid, p_worker text)
+returns boolean
+language plpgsql
+as $$
+begin
+  update public.jobs
+  set status = 'succeeded',
+      locked_by = null,
+      locked_until = null,
+      last_error = null,
+      finished_at = now(),
+      updated_at = now()
+  where id = p_job_id and status = 'running' and locked_by = p_worker;
+  return found;
+end;
+$$;
+
+-- 失敗を記録する。試行回数が上限未満なら p_base_delay_seconds * 2^(attempts-1) 秒後 (最大 p_max_delay_seconds) に再試行、上限に達したら dead
+create or replace function public.fail_job(
+  p_job_id uuid,
+  p_worker text,
+  p_error text,
+  p_base_delay_seconds integer default 60,
+  p_max_delay_seconds integer default 3600
+)
+returns public.jobs
+language plpgsql
+as $$
+declare
+  v_job public.jobs;
+begin
+  update public.jobs
+  set status = case when attempts >= max_attempts then 'dead' else 'queued' end,
+      run_at = case
+        when attempts >= max_attempts then run_at
+        else now() + make_interval(secs => least(p_max_delay_seconds, p_base_delay_seconds * power(2, greatest(attempts - 1, 0))))
+      end,
+      finished_at = case when attempts >= max_attempts then now() else null end,
+      locked_by = null,
+      locked_until = null,
+      last_error = p_error,
+      updated_at = now()
+  where id = p_job_id and status = 'running' and locked_by = p_worker
+  returning * into v_job;
+  return v_job;
+end;
+$$;
+
+-- リースが切れた実行中ジョブ (ワーカーのタイムアウト・クラッシュ) をキューに戻す。
+-- 試行回数が上限に達していたものは dead にし、呼び出し元でタスクを失敗扱いにできるよう返す
+create or replace function public.reap_expired_jobs(p_kind text default 'process_task')
+returns setof public.jobs
+language plpgsql
+as $$
+begin
+  update public.jobs
+  set status = 'queued',
+      run_at = now(),
+      locked_by = null,
+      locked_until = null,
+      last_error = coalesce(last_error || E'\n', '') || 'Lease expired before the job finished.',
+      updated_at = now()
+  where kind = p_kind and status = 'running' and locked_until < now() and attempts < max_attempts;
+
+  return query
+  update public.jobs
+  set status = 'dead',
+      locked_by = null,
+      locked_until = null,
+      last_error = coalesce(last_error || E'\n', '') || 'Lease expired before the job finished.',
+      finished_at = now(),
+      updated_at = now()
+  where kind = p_kind and status = 'running' and locked_until < now() and attempts >= max_attempts
+  returning *;
+end;
+$$;
+
+-- 動画が Storage に保存された (storage_path が設定された) タスクを処理キューに登録する
+create or replace function public.enqueue_transcription_task_job()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  if new.storage_path is not null and (tg_op = 'INSERT' or old.storage_path is distinct from new.storage_path) then
+    perform public.enqueue_job(new.id, 'process_task', jsonb_build_object('storagePath', new.storage_path));
+  end if;
+  return new;
+end;
+$$;
+
+-- pg_net で process-video-task を呼ぶトリガーはキューへの登録に置き換える
+drop trigger if exists on_new_transcription_task on public.transcription_tasks;
+
+create trigger on_transcription_task_stored
+  after insert or update of storage_path on public.transcription_tasks
+  for each row execute procedure public.enqueue_transcription_task_job();
@@ -0,0 +1,19 @@
+-- process-task パイプラインの段階ごとのチェックポイント
+-- 段階 (download → extract_audio → transcribe → summarize → publish → notify) が完了するたびに1行記録し、
+-- 再試行時はチェックポイントのない最初の段階から再開する。特定の段階からやり直す場合はその段階以降の行を削除する。
+create table if not exists public.task_stage_checkpoints (
+  id uuid default extensions.uuid_generate_v4() not null primary key,
+  task_id uuid not null references public.transcription_tasks(id) on delete cascade,
+  stage text not null,
+  output jsonb not null default '{}'::jsonb,
+  completed_at timestamp with time zone default now(),
+  constraint task_stage_checkpoints_task_stage_key unique (task_id, stage),
+  constraint task_stage_checkpoints_stage_check check (stage = any (array['download', 'extract_audio', 'transcribe', 'summarize', 'publish', 'notify']))
+);
+
+comment on table public.task_stage_checkpoints is 'Completed stages of the process-task pipeline. A retry resumes from the first stage without a checkpoint.';
+comment on column public.task_stage_checkpoints.output is 'Stage output needed by later stages (e.g. the storage path of the extracted audio). Large results live in their own tables.';
+
+alter table public.task_stage_checkpoints enable row level security;
+
+create policy "Allow full access for service_role" on public.task_stage_checkpoints using (true) with check (true);
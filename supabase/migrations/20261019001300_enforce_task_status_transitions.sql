@@ -0,0 +1,115 @@
+-- transcription_tasks.status のステートマシン
+-- 許可するステータス・遷移は supabase/functions/_shared/task-status.ts (Next.js と Edge Function で共有) と揃えること。
+-- 不正な遷移はトリガーで拒否し、遷移はすべて task_events に記録する。
+
+alter table public.transcription_tasks drop constraint if exists transcription_tasks_status_check;
+alter table public.transcription_tasks add constraint transcription_tasks_status_check check (status = any (array[
+  'upload_pending', 'upload_failed', 'uploaded', 'queued', 'function_error',
+  'processing_in_vercel', 'transcribed_in_vercel', 'summarized_in_vercel', 'retry_scheduled',
+  'completed', 'failed_in_vercel',
+  'pending', 'processing', 'failed', 'webhook_sent', 'webhook_failed'
+]));
+
+comment on column public.transcription_tasks.status is 'Current status of the task. Allowed values and transitions are defined in supabase/functions/_shared/task-status.ts and task_status_transitions.';
+
+-- 許可する遷移 (from_status が null の行はタスク作成時に設定できるステータス)
+create table if not exists public.task_status_transitions (
+  from_status text,
+  to_status text not null,
+  constraint task_status_transitions_key unique nulls not distinct (from_status, to_status)
+);
+
+comment on table public.task_status_transitions is 'Allowed transcription_tasks.status transitions. Rows with a null from_status list the statuses a task may be created with.';
+
+alter table public.task_status_transitions enable row level security;
+
+create policy "Allow full access for service_role" on public.task_status_transitions using (true) with check (true);
+
+insert into public.task_status_transitions (from_status, to_status)
+select t.from_status, unnest(t.to_statuses)
+from (values
+  (null, array['upload_pending', 'uploaded', 'pending']),
+  ('upload_pending', array['uploaded', 'upload_failed']),
+  ('upload_failed', array['upload_pending', 'uploaded']),
+  ('uploaded', array['queued', 'processing_in_vercel', 'failed_in_vercel', 'function_error']),
+  ('queued', array['processing_in_vercel', 'retry_scheduled', 'failed_in_vercel', 'function_error']),
+  ('function_error', array['queued', 'processing_in_vercel']),
+  ('processing_in_vercel', array['transcribed_in_vercel', 'summarized_in_vercel', 'completed', 'retry_scheduled', 'failed_in_vercel']),
+  ('transcribed_in_vercel', array['summarized_in_vercel', 'retry_scheduled', 'failed_in_vercel']),
+  ('summarized_in_vercel', array['completed', 'retry_scheduled', 'failed_in_vercel']),
+  ('retry_scheduled', array['queued', 'processing_in_vercel', 'failed_in_vercel']),
+  ('completed', array['queued', 'processing_in_vercel']),
+  ('failed_in_vercel', array['queued', 'processing_in_vercel']),
+  ('pending', array['upload_pending', 'uploaded', 'queued', 'processing_in_vercel', 'failed_in_vercel']),
+  ('processing', array['queued', 'processing_in_vercel', 'failed_in_vercel', 'completed']),
+  ('failed', array['queued', 'processing_in_vercel']),
+  ('webhook_sent', array['queued', 'processing_in_vercel', 'failed_in_vercel', 'completed']),
+  ('webhook_failed', array['queued', 'processing_in_vercel'])
+) as t(from_status, to_statuses)
+on conflict do nothing;
+
+-- タスクのステータス履歴
+create table if not exists public.task_events (
+  id uuid default extensions.uuid_generate_v4() not null primary key,
+  task_id uuid not null references public.transcription_tasks(id) on delete cascade,
+  event_type text not null default 'status_changed',
+  from_status text,
+  to_status text,
+  message text,
+  created_at timestamp with time zone default now()
+);
+
+comment on table public.task_events is 'History of a transcription task. Status transitions are recorded by the transcription_tasks trigger.';
+comment on column public.task_events.message is 'error_message of the task at the time of the event, if any.';
+
+create index if not exists task_events_task_created_idx on public.task_events (task_id, created_at);
+
+alter table public.task_events enable row level security;
+
+create policy "Allow full access for service_role" on public.task_events using (true) with check (true);
+
+-- 不正な遷移を拒否する (同じステータスへの更新は進捗の更新などのため常に許可)
+create or replace function public.enforce_task_status_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+  if not exists (
+    select 1 from public.task_status_transitions
+    where from_status is not distinct from (case when tg_op = 'INSERT' then null else old.status end)
+      and to_status = new.status
+  ) then
+    raise exception 'Illegal task status transition for task %: % -> %',
+      new.id, case when tg_op = 'INSERT' then '(new)' else old.status end, new.status
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.log_task_status_transition()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into public.task_events (task_id, event_type, from_status, to_status, message)
+    values (new.id, 'status_changed', case when tg_op = 'INSERT' then null else old.status end, new.status, new.error_message);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_task_status_transition on public.transcription_tasks;
+create trigger enforce_task_status_transition
+  before insert or update of status on public.transcription_tasks
+  for each row execute procedure public.enforce_task_status_transition();
+
+drop trigger if exists log_task_status_transition on public.transcription_tasks;
+create trigger log_task_status_transition
+  after insert or update of status on public.transcription_tasks
+  for each row execute procedure public.log_task_status_transition();
@@ -0,0 +1,24 @@
+-- task_events をタスクの監査ログとして拡張する
+-- ステータス遷移 (DBトリガーが記録) に加え、パイプラインの段階の開始・完了・失敗、外部API呼び出し、再試行をアプリから記録する。
+-- 段階ごとの所要時間と失敗した段階・エラー内容をログを追わずに確認できるようにするため。
+
+alter table public.task_events
+  add column if not exists stage text,
+  add column if not exists attempt integer,
+  add column if not exists duration_ms integer,
+  add column if not exists error jsonb,
+  add column if not exists details jsonb not null default '{}'::jsonb;
+
+alter table public.task_events drop constraint if exists task_events_event_type_check;
+alter table public.task_events add constraint task_events_event_type_check check (event_type = any (array[
+  'status_changed', 'stage_started', 'stage_completed', 'stage_failed', 'provider_call', 'retry_scheduled', 'job_dead'
+]));
+
+comment on table public.task_events is 'Audit trail of a transcription task: status transitions (recorded by trigger), pipeline stages, provider calls, retries and errors.';
+comment on column public.task_events.stage is 'Pipeline stage the event belongs to (download, extract_audio, transcribe, summarize, publish, notify).';
+comment on column public.task_events.attempt is 'Job attempt number (jobs.attempts) the event was recorded in.';
+comment on column public.task_events.duration_ms is 'Duration of the stage or provider call, in milliseconds.';
+comment on column public.task_events.error is 'Structured error ({ message, name, code, stack }) for failed stages, provider calls and retries.';
+comment on column public.task_events.details is 'Event-specific data, e.g. provider name, chunk index or the next retry time.';
+
+create index if not exists task_events_type_created_idx on public.task_events (event_type, created_at);
@@ -0,0 +1,10 @@
+-- 処理結果を動画が共有されたメッセージのスレッドに返信するための情報
+-- 進捗 (文字起こし中… 要約中… 完了) は1つのメッセージを更新して表示するため、投稿したメッセージの ts も保存する
+alter table public.transcription_tasks
+  add column if not exists slack_thread_ts text,
+  add column if not exists slack_status_channel_id text,
+  add column if not exists slack_status_message_ts text;
+
+comment on column public.transcription_tasks.slack_thread_ts is 'ts of the Slack message the file was shared in (or its thread root). Notifications are posted as replies in this thread.';
+comment on column public.transcription_tasks.slack_status_channel_id is 'Channel of the status message posted for the task.';
+comment on column public.transcription_tasks.slack_status_message_ts is 'ts of the status message, updated in place as the task progresses.';
@@ -0,0 +1,37 @@
+-- Slack から受け取った動画の Storage への保存 (upload_file_to_storage) もジョブキューで行う
+-- upload_pending のタスクが作成 (コミット) されると upload_file ジョブを登録し、保存して storage_path が設定 (コミット) されると
+-- process_task ジョブを登録する。ジョブはトリガーと同じトランザクションで登録されるため、前の段階がコミットされるまでワーカーからは見えない。
+
+-- Slack からのタスクは保存前に作成するため storage_path は後から設定される
+alter table public.transcription_tasks alter column storage_path drop not null;
+
+comment on column public.transcription_tasks.storage_path is 'Path to the original video file in the videos bucket (e.g., uploads/uuid.mp4). Null until upload_file_to_storage has stored the file.';
+
+create or replace function public.enqueue_transcription_task_job()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  -- 作成時、または upload_failed からの再試行で upload_pending に戻されたとき
+  if new.status = 'upload_pending' and new.storage_path is null
+     and (tg_op = 'INSERT' or old.status is distinct from new.status) then
+    perform public.enqueue_job(new.id, 'upload_file', jsonb_build_object('fileName', new.original_file_name));
+  end if;
+  if new.storage_path is not null and (tg_op = 'INSERT' or old.storage_path is distinct from new.storage_path) then
+    perform public.enqueue_job(new.id, 'process_task', jsonb_build_object('storagePath', new.storage_path));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_transcription_task_stored on public.transcription_tasks;
+
+create trigger on_transcription_task_stored
+  after insert or update of storage_path, status on public.transcription_tasks
+  for each row execute procedure public.enqueue_transcription_task_job();
+
+-- 20261019001100 でトリガーを外した、pg_net で process-video-task を呼んでいた関数
+drop function if exists public.handle_new_transcription_task();
+
+comment on column public.jobs.kind is 'upload_file: store the Slack file in Storage via upload_file_to_storage; process_task: run the processing pipeline on the stored file.';
@@ -0,0 +1,24 @@
+-- 受信した Slack イベントの記録
+-- Slack は3秒以内に応答がないとイベントを再送し (X-Slack-Retry-Num)、同じファイルを別のイベントで通知することもある。
+-- event_id と slack_file_id の一意制約で、同じイベント・ファイルから2つ目のタスクを作らないようにする
+create table if not exists public.slack_events (
+  event_id text not null primary key,
+  event_type text not null,
+  slack_file_id text,
+  channel_id text,
+  retry_num integer,
+  task_id uuid references public.transcription_tasks(id) on delete set null,
+  error text,
+  received_at timestamp with time zone default now(),
+  processed_at timestamp with time zone,
+  constraint slack_events_slack_file_id_key unique (slack_file_id)
+);
+
+comment on table public.slack_events is 'Slack events accepted by /api/slack/events. Redelivered events and files that were already seen violate the unique constraints and are ignored.';
+comment on column public.slack_events.retry_num is 'X-Slack-Retry-Num of the delivery that was accepted (null for the first delivery).';
+comment on column public.slack_events.task_id is 'Task created from the event, set after background processing.';
+comment on column public.slack_events.error is 'Error from background processing, if the task could not be created.';
+
+alter table public.slack_events enable row level security;
+
+create policy "Allow full access for service_role" on public.slack_events using (true) with check (true);
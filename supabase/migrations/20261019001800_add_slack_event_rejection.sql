@@ -0,0 +1,5 @@
+-- 受け付け時の検証 (種類・サイズ・長さ・音声トラック) で断ったファイルの記録
+-- 断ったファイルはタスクを作成しないため、slack_events に理由を残す
+alter table public.slack_events add column if not exists rejection_reason text;
+
+comment on column public.slack_events.rejection_reason is 'Why the shared file was rejected at intake (unsupported_type, too_large, too_long, no_audio_track, unreadable). No task is created for rejected files.';
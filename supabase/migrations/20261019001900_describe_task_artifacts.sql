@@ -0,0 +1,4 @@
+-- 文字起こし・要約の成果物ファイル (process-task の transcribe・publish で videos バケットに保存する)
+-- transcript_path・summary_path にはテキストと Markdown のパスを記録し、字幕 (srt / vtt) と要約 JSON は同じディレクトリに同じ名前で置く
+comment on column public.transcription_tasks.transcript_path is 'Path to the transcript text file in the videos bucket (transcripts/{task_id}.txt). Subtitles are stored next to it as transcripts/{task_id}.srt and .vtt.';
+comment on column public.transcription_tasks.summary_path is 'Path to the summary markdown file in the videos bucket (summaries/{task_id}.md). The raw JSON summary is stored next to it as summaries/{task_id}.json.';
@@ -0,0 +1,14 @@
+-- ジョブキューのワーカーが実際に行う遷移を追加する (supabase/functions/_shared/task-status.ts と揃える)
+-- ・リース切れで取得し直したジョブは、途中の段階 (transcribed / summarized) から processing_in_vercel に戻して再開する
+-- ・publish で completed にした後に notify が失敗すると、completed から再試行待ち・失敗になる
+-- ・processTask がステータスを更新する前に失敗した場合は、uploaded・failed_in_vercel のまま再試行待ちになる
+insert into public.task_status_transitions (from_status, to_status)
+select t.from_status, unnest(t.to_statuses)
+from (values
+  ('uploaded', array['retry_scheduled']),
+  ('transcribed_in_vercel', array['processing_in_vercel']),
+  ('summarized_in_vercel', array['processing_in_vercel']),
+  ('completed', array['retry_scheduled', 'failed_in_vercel']),
+  ('failed_in_vercel', array['retry_scheduled'])
+) as t(from_status, to_statuses)
+on conflict do nothing;
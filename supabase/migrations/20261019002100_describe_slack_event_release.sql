@@ -0,0 +1,3 @@
+-- タスクの作成がエラーで終わった Slack イベントは、同じイベント・ファイルが再び届いたときに記録を消して受け付け直す
+comment on table public.slack_events is 'Slack events accepted by /api/slack/events. Redelivered events and files that were already seen violate the unique constraints and are ignored, unless the earlier event ended with an error.';
+comment on column public.slack_events.error is 'Error from background processing, if the task could not be created. Such rows are deleted when the same event or file is delivered again, so it is processed again.';
@@ -0,0 +1,2 @@
+-- /mtglog list・search はコマンドを実行したチャンネルのタスクだけを新しい順に表示する
+create index if not exists transcription_tasks_slack_channel_updated_idx on public.transcription_tasks (slack_channel_id, updated_at desc);
@@ -0,0 +1,47 @@
+-- Slack イベントの記録と重複判定を1つの関数で行う
+-- これまでアプリ側で「挿入 → 一意制約違反ならエラーの行を消して挿入し直す」としていた処理に、
+-- 応答後の処理の途中で関数が終了した (タイムアウト・クラッシュ) ために結果が記録されないまま残った行の解放を加える。
+-- そのような行は p_stale_seconds を過ぎたら、エラーで終わった行と同じく次の配信 (再送や共有し直し) で消して受け付け直す。
+
+create or replace function public.record_slack_event(
+  p_event_id text,
+  p_event_type text,
+  p_slack_file_id text default null,
+  p_channel_id text default null,
+  p_retry_num integer default null,
+  p_stale_seconds integer default 900
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_released integer;
+  v_event_id text;
+begin
+  delete from public.slack_events
+  where (event_id = p_event_id or (p_slack_file_id is not null and slack_file_id = p_slack_file_id))
+    and (error is not null
+      or (processed_at is null and received_at < now() - make_interval(secs => p_stale_seconds)));
+  get diagnostics v_released = row_count;
+
+  -- 同時に届いた別の配信が先に記録した場合は、一意制約により挿入されず重複として扱う
+  insert into public.slack_events (event_id, event_type, slack_file_id, channel_id, retry_num)
+  values (p_event_id, p_event_type, p_slack_file_id, p_channel_id, p_retry_num)
+  on conflict do nothing
+  returning event_id into v_event_id;
+
+  if v_event_id is not null then
+    return jsonb_build_object('recorded', true, 'released', v_released);
+  end if;
+  return jsonb_build_object(
+    'recorded', false,
+    'released', v_released,
+    'duplicate_of', case when exists (select 1 from public.slack_events where event_id = p_event_id) then 'event_id' else 'slack_file_id' end
+  );
+end;
+$$;
+
+comment on function public.record_slack_event is 'Records a Slack event delivery. Returns {recorded, released, duplicate_of}. Earlier rows of the same event or file that ended with an error, or that were never finished within p_stale_seconds, are deleted first so the delivery is accepted again.';
+
+comment on table public.slack_events is 'Slack events accepted by /api/slack/events. Redelivered events and files that were already seen violate the unique constraints and are ignored, unless the earlier event ended with an error or was never finished (see record_slack_event).';
+comment on column public.slack_events.processed_at is 'When background processing finished. Rows still null after the stale period of record_slack_event are treated as abandoned.';
@@ -0,0 +1,37 @@
+-- アクションアイテムを書き込む Notion のタスクDBの設定
+-- notion_routes と同じく、行を追加・編集するだけでDBやプロパティ名を変更できる (コード変更不要)
+-- 有効な行が1件もない場合は、従来の環境変数 NOTION_TASKS_DB_ID と既定のプロパティ名で動作する
+--
+-- 設定例:
+--   insert into public.notion_task_databases (name, database_id, properties) values (
+--     'tasks', '<Notion database id>',
+--     '{"title": "タスク名", "assignee": "担当者", "due_date": "期日", "due_date_text": "期日メモ",
+--       "source_timestamp": "発言時刻", "meeting": "会議"}'
+--   );
+create table if not exists public.notion_task_databases (
+  id uuid default extensions.uuid_generate_v4() not null primary key,
+  name text not null,
+  database_id text not null,
+  enabled boolean not null default true,
+  sort_order integer not null default 0,
+  properties jsonb not null default '{}'::jsonb,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  constraint notion_task_databases_name_key unique (name)
+);
+
+comment on table public.notion_task_databases is 'Notion database that action items are written to, one page per item. Only the first enabled row (by sort_order) is used.';
+comment on column public.notion_task_databases.properties is 'JSON object mapping item fields to Notion property names: title (required, title), assignee (rich_text), due_date (date), due_date_text (rich_text, used when the due date could not be parsed), source_timestamp (rich_text), meeting (relation to the meeting page). Omitted fields are not written.';
+
+alter table public.notion_task_databases enable row level security;
+
+create policy "Allow full access for service_role" on public.notion_task_databases using (true) with check (true);
+
+-- アクションアイテムごとのタスクページの書き込み結果 (notion_page_mappings と同じく、失敗を記録して次の publish で再試行する)
+alter table public.action_items
+  add column if not exists notion_sync_error text,
+  add column if not exists notion_sync_attempts integer not null default 0;
+
+comment on column public.action_items.notion_page_id is 'Page in the Notion tasks database (notion_task_databases or NOTION_TASKS_DB_ID), if created. Kept when a later sync fails so the next run updates it.';
+comment on column public.action_items.notion_sync_error is 'Error from the last failed write of the task page, null after a successful write. Failed items are written again when publish is rerun.';
+comment on column public.action_items.notion_sync_attempts is 'Total number of attempts to write the task page across all runs.';